@@ -39,21 +39,21 @@ const createSampleDatabaseButton = (useSQLite: any) => {
       <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
         <button
           onClick={handleCreateSample}
-          disabled={isCreating || !!sqlite.db}
+          disabled={isCreating || !!sqlite.isLoaded}
           style={{
             padding: '0.5rem 1rem',
             backgroundColor: '#667eea',
             color: 'white',
             border: 'none',
             borderRadius: '4px',
-            cursor: isCreating || sqlite.db ? 'not-allowed' : 'pointer',
-            opacity: isCreating || sqlite.db ? 0.5 : 1,
+            cursor: isCreating || sqlite.isLoaded ? 'not-allowed' : 'pointer',
+            opacity: isCreating || sqlite.isLoaded ? 0.5 : 1,
             fontSize: '14px',
             fontWeight: 500,
             transition: 'opacity 0.2s ease',
           }}
         >
-          {isCreating ? 'Creating...' : sqlite.db ? 'Database Already Loaded' : 'Create Sample Database'}
+          {isCreating ? 'Creating...' : sqlite.isLoaded ? 'Database Already Loaded' : 'Create Sample Database'}
         </button>
         {message && (
           <div
@@ -168,10 +168,10 @@ INSERT INTO reviews (product_id, user_id, rating, comment, created_at) VALUES
  */
 export async function createSampleDatabase(
   executeQuery: (query: string) => Promise<any>,
-  createDatabase: () => void
+  createDatabase: () => Promise<void>
 ): Promise<void> {
   // Create empty database
-  createDatabase();
+  await createDatabase();
 
   // Get SQL script
   const sql = getSampleDatabaseSQL({ includeData: true });
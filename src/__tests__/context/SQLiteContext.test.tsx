@@ -0,0 +1,47 @@
+import { act, render, waitFor } from '@testing-library/react';
+import { SQLiteProvider, useSQLite } from '../../context/SQLiteContext';
+import { exposeDatabaseWorker } from '../../core/worker';
+import { SQLiteContextValue } from '../../types';
+import { loadRealSqlJs } from '../utils/sqlJs';
+import { createWorkerPair } from '../utils/worker';
+
+describe('SQLiteProvider with a worker factory', () => {
+  let sqlite: SQLiteContextValue;
+
+  const Probe = () => {
+    sqlite = useSQLite();
+    return null;
+  };
+
+  beforeEach(async () => {
+    const sqlJs = await loadRealSqlJs();
+    render(
+      <SQLiteProvider
+        worker={() => {
+          const pair = createWorkerPair();
+          exposeDatabaseWorker(pair.scope, { sqlJs });
+          return pair.worker;
+        }}
+      >
+        <Probe />
+      </SQLiteProvider>
+    );
+    await waitFor(() => expect(sqlite.isInitialized).toBe(true));
+    await act(() => sqlite.createDatabase());
+  });
+
+  it('should keep TEMP tables and PRAGMAs between queries', async () => {
+    await act(async () => {
+      await sqlite.executeQuery('PRAGMA foreign_keys=ON');
+      await sqlite.executeQuery('CREATE TEMP TABLE scratch (x)');
+      await sqlite.executeQuery('INSERT INTO scratch VALUES (1)');
+      await sqlite.executeQuery('CREATE TABLE t (x)');
+    });
+
+    await act(async () => {
+      expect((await sqlite.executeQuery('SELECT x FROM scratch')).values).toEqual([[1]]);
+      expect((await sqlite.executeQuery('PRAGMA foreign_keys')).values).toEqual([[1]]);
+    });
+  });
+});
+
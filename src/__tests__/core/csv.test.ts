@@ -0,0 +1,195 @@
+import {
+  parseCSV,
+  detectDelimiter,
+  detectHeader,
+  inferAffinity,
+  getColumnNames,
+  readCSV,
+  formatCSV,
+} from '../../core/csv';
+
+describe('csv', () => {
+  describe('parseCSV', () => {
+    it('should split rows and fields', () => {
+      expect(parseCSV('a,b,c\n1,2,3\n')).toEqual([
+        ['a', 'b', 'c'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('should unquote fields holding delimiters, quotes and line breaks', () => {
+      const text = 'id,note\r\n1,"a, b"\r\n2,"say ""hi"""\r\n3,"two\r\nlines"\r\n';
+      expect(parseCSV(text)).toEqual([
+        ['id', 'note'],
+        ['1', 'a, b'],
+        ['2', 'say "hi"'],
+        ['3', 'two\r\nlines'],
+      ]);
+    });
+
+    it('should keep empty fields and skip blank lines', () => {
+      expect(parseCSV('a,,c\n\n,"",\n', { delimiter: ',' })).toEqual([
+        ['a', '', 'c'],
+        ['', '', ''],
+      ]);
+    });
+
+    it('should honor a custom delimiter and quote, and skip a byte order mark', () => {
+      expect(parseCSV("\ufeffa;'x;y'\nb;'it''s'", { delimiter: ';', quote: "'" })).toEqual([
+        ['a', 'x;y'],
+        ['b', "it's"],
+      ]);
+    });
+
+    it('should report an unterminated quote with its line', () => {
+      expect(() => parseCSV('a,b\n1,"open\nstill open')).toThrow(
+        'Unterminated quoted field starting on line 2'
+      );
+    });
+  });
+
+  describe('detectDelimiter', () => {
+    it('should prefer the delimiter found the same number of times per line', () => {
+      expect(detectDelimiter('name\tnote\nAnn\tlikes a, b\nBob\tnone\n')).toBe('\t');
+      expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';');
+      expect(detectDelimiter('"x,y"|z\n"1,2"|3')).toBe('|');
+    });
+
+    it('should fall back to a comma', () => {
+      expect(detectDelimiter('single column\nvalues')).toBe(',');
+    });
+  });
+
+  describe('inferAffinity', () => {
+    it('should pick the narrowest affinity for the non-empty values', () => {
+      expect(inferAffinity(['1', '-20', ''])).toBe('INTEGER');
+      expect(inferAffinity(['1', '2.5', '1e3'])).toBe('REAL');
+      expect(inferAffinity(['1', 'two'])).toBe('TEXT');
+      expect(inferAffinity(['', ''])).toBe('TEXT');
+    });
+
+    it('should keep leading zeros as text', () => {
+      expect(inferAffinity(['02134', '10001'])).toBe('TEXT');
+    });
+  });
+
+  describe('detectHeader', () => {
+    it('should detect names above numeric columns', () => {
+      expect(
+        detectHeader([
+          ['id', 'name'],
+          ['1', 'Ann'],
+        ])
+      ).toBe(true);
+      expect(
+        detectHeader([
+          ['1', 'Ann'],
+          ['2', 'Bob'],
+        ])
+      ).toBe(false);
+    });
+
+    it('should reject empty or repeated names', () => {
+      expect(
+        detectHeader([
+          ['id', ''],
+          ['1', 'Ann'],
+        ])
+      ).toBe(false);
+      expect(
+        detectHeader([
+          ['x', 'X'],
+          ['1', '2'],
+        ])
+      ).toBe(false);
+    });
+
+    it('should reject a first row whose values repeat below it', () => {
+      expect(
+        detectHeader([
+          ['Paris', 'FR'],
+          ['Lyon', 'FR'],
+        ])
+      ).toBe(false);
+    });
+  });
+
+  describe('getColumnNames', () => {
+    it('should fill blanks and suffix repeated names', () => {
+      expect(getColumnNames(['id', ' ', 'Name', 'name'], 5)).toEqual([
+        'id',
+        'column2',
+        'Name',
+        'name_2',
+        'column5',
+      ]);
+      expect(getColumnNames(null, 2)).toEqual(['column1', 'column2']);
+    });
+  });
+
+  describe('readCSV', () => {
+    it('should describe the columns of a file', () => {
+      const table = readCSV('id;price;code\n1;2.50;007\n2;3;010\n');
+
+      expect(table).toEqual({
+        delimiter: ';',
+        header: true,
+        columns: ['id', 'price', 'code'],
+        affinities: ['INTEGER', 'REAL', 'TEXT'],
+        rows: [
+          ['1', '2.50', '007'],
+          ['2', '3', '010'],
+        ],
+      });
+    });
+
+    it('should keep the first row as data when told there is no header', () => {
+      const table = readCSV('id,name\n1,Ann', { header: false });
+
+      expect(table.columns).toEqual(['column1', 'column2']);
+      expect(table.rows).toHaveLength(2);
+      expect(table.affinities).toEqual(['TEXT', 'TEXT']);
+    });
+  });
+
+  describe('formatCSV', () => {
+    it('should quote fields holding delimiters, quotes and line breaks', () => {
+      const rows = [
+        [1, 'a, b', 'say "hi"'],
+        [2.5, 'two\nlines', 'plain'],
+      ];
+
+      expect(formatCSV(['id', 'note', 'text'], rows)).toBe(
+        'id,note,text\r\n1,"a, b","say ""hi"""\r\n2.5,"two\nlines",plain\r\n'
+      );
+      expect(parseCSV(formatCSV(['id', 'note', 'text'], rows))).toEqual([
+        ['id', 'note', 'text'],
+        ['1', 'a, b', 'say "hi"'],
+        ['2.5', 'two\nlines', 'plain'],
+      ]);
+    });
+
+    it('should write NULL as the null text and quote text equal to it', () => {
+      expect(formatCSV(['a', 'b'], [[null, '']])).toBe('a,b\r\n,""\r\n');
+      expect(formatCSV(['a', 'b'], [[null, 'NULL']], { nullValue: 'NULL' })).toBe(
+        'a,b\r\nNULL,"NULL"\r\n'
+      );
+    });
+
+    it('should write blobs as hex digits', () => {
+      expect(formatCSV(['data'], [[new Uint8Array([0, 171, 255])]], { header: false })).toBe(
+        '00ABFF\r\n'
+      );
+    });
+
+    it('should honor the delimiter, line ending and byte order mark', () => {
+      expect(
+        formatCSV(['a', 'b'], [['x;y', 'z']], { delimiter: ';', lineEnding: '\n', bom: true })
+      ).toBe('\ufeffa;b\n"x;y";z\n');
+      expect(() => formatCSV(['a'], [], { delimiter: '"' })).toThrow(
+        'The delimiter must be a single character other than a quote or line break'
+      );
+    });
+  });
+});
+
@@ -0,0 +1,153 @@
+import { DatabaseManager } from '../../core/database';
+import { diffDatabaseData, diffTableData, formatDataPatch } from '../../core/dataDiff';
+import { loadRealSqlJs } from '../utils/sqlJs';
+
+const OLD = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT COLLATE NOCASE, photo BLOB);
+  INSERT INTO users VALUES (1, 'Ann', x'01'), (2, 'Bob', NULL), (3, 'Cy', NULL);
+  CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id), body TEXT);
+  INSERT INTO posts VALUES (1, 1, 'hi'), (2, 3, 'bye');
+  CREATE TABLE logs (msg TEXT);
+  INSERT INTO logs VALUES ('a'), ('b');
+`;
+
+const NEW = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT COLLATE NOCASE, photo BLOB, age INT);
+  INSERT INTO users VALUES (1, 'ann', x'01', 30), (2, 'Bob', x'02', 40), (4, 'Dee', NULL, 50);
+  CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id), body TEXT);
+  INSERT INTO posts VALUES (1, 1, 'hi'), (3, 4, 'new');
+  CREATE TABLE logs (msg TEXT);
+  INSERT INTO logs VALUES ('a'), ('c'), ('d');
+`;
+
+describe('dataDiff', () => {
+  let manager: DatabaseManager;
+
+  const databaseOf = async (script: string): Promise<Uint8Array> => {
+    const other = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+    await other.initialize();
+    other.createDatabase();
+    other.executeScript(script);
+    const data = other.saveDatabase();
+    other.close();
+    return data;
+  };
+
+  beforeEach(async () => {
+    manager = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+    await manager.initialize();
+    manager.createDatabase();
+    manager.executeScript(NEW);
+    manager.attachDatabase('old', await databaseOf(OLD));
+  });
+
+  afterEach(() => {
+    manager.close();
+  });
+
+  describe('diffTableData', () => {
+    it('should report rows inserted, deleted and modified by primary key', async () => {
+      const diff = await diffTableData(manager, { table: 'users', beforeSchema: 'old' });
+
+      expect(diff.keyColumns).toEqual(['id']);
+      expect(diff.rowid).toBe(false);
+      expect(diff.columns).toEqual(['id', 'name', 'photo']);
+      expect(diff.counts).toEqual({ inserted: 1, deleted: 1, modified: 2 });
+      expect(diff.truncated).toBe(false);
+      expect(diff.rows).toEqual([
+        { kind: 'deleted', key: [3], before: [3, 'Cy', null], after: null, changedColumns: [] },
+        {
+          kind: 'modified',
+          key: [1],
+          before: [1, 'Ann', new Uint8Array([1])],
+          after: [1, 'ann', new Uint8Array([1])],
+          changedColumns: ['name'],
+        },
+        {
+          kind: 'modified',
+          key: [2],
+          before: [2, 'Bob', null],
+          after: [2, 'Bob', new Uint8Array([2])],
+          changedColumns: ['photo'],
+        },
+        { kind: 'inserted', key: [4], before: null, after: [4, 'Dee', null], changedColumns: [] },
+      ]);
+    });
+
+    it('should match rows by rowid in a table without a primary key', async () => {
+      const diff = await diffTableData(manager, { table: 'logs', beforeSchema: 'old' });
+
+      expect(diff.keyColumns).toEqual(['rowid']);
+      expect(diff.rowid).toBe(true);
+      expect(diff.rows.map(({ kind, key, changedColumns }) => [kind, key, changedColumns])).toEqual(
+        [
+          ['modified', [2], ['msg']],
+          ['inserted', [3], []],
+        ]
+      );
+    });
+
+    it('should count every row when only some are returned', async () => {
+      const diff = await diffTableData(manager, { table: 'users', beforeSchema: 'old', limit: 1 });
+
+      expect(diff.rows.map((row) => row.key)).toEqual([[3], [1], [4]]);
+      expect(diff.counts).toEqual({ inserted: 1, deleted: 1, modified: 2 });
+      expect(diff.truncated).toBe(true);
+      expect(() => formatDataPatch([diff])).toThrow('The diff of "users" is limited');
+    });
+
+    it('should refuse tables that are missing or share no key', async () => {
+      await expect(diffTableData(manager, { table: 'nope', beforeSchema: 'old' })).rejects.toThrow(
+        'No table named "nope" in old'
+      );
+
+      manager.executeScript(`
+        CREATE TABLE a (x PRIMARY KEY, y) WITHOUT ROWID;
+        CREATE TABLE b (x, y PRIMARY KEY) WITHOUT ROWID;
+      `);
+      await expect(diffTableData(manager, { table: 'a', afterTable: 'b' })).rejects.toThrow(
+        'Tables "a" and "b" have no key in common'
+      );
+    });
+  });
+
+  describe('formatDataPatch', () => {
+    it('should turn the older rows into the newer ones', async () => {
+      const diffs = await diffDatabaseData(manager, { beforeSchema: 'old' });
+      expect(diffs.map((diff) => diff.table)).toEqual(['logs', 'users', 'posts']);
+
+      const patched = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+      await patched.initialize();
+      await patched.loadDatabase(await databaseOf(OLD));
+      patched.executeQuery('PRAGMA foreign_keys=ON');
+      const results = patched.executeScript(formatDataPatch(diffs));
+      expect(results.filter((result) => result.error)).toEqual([]);
+
+      manager.attachDatabase('patched', patched.saveDatabase());
+      patched.close();
+      const remaining = await diffDatabaseData(manager, { beforeSchema: 'patched' });
+      expect(remaining.map((diff) => diff.rows)).toEqual([[], [], []]);
+    });
+
+    it('should write deletes, updates and inserts, leaving generated columns out', async () => {
+      manager.executeScript(`
+        CREATE TABLE h (id INTEGER PRIMARY KEY, n INT, twice INT AS (n * 2));
+        INSERT INTO h (id, n) VALUES (1, 1), (2, 2);
+        CREATE TABLE g (id INTEGER PRIMARY KEY, n INT, twice INT AS (n * 2));
+        INSERT INTO g (id, n) VALUES (1, 2), (3, 3);
+      `);
+      const diff = await diffTableData(manager, { table: 'h', afterTable: 'g' });
+
+      expect(diff.generatedColumns).toEqual(['twice']);
+      expect(diff.rows[1].changedColumns).toEqual(['n', 'twice']);
+      expect(formatDataPatch([diff])).toBe(
+        'BEGIN TRANSACTION;\n' +
+          'PRAGMA defer_foreign_keys=ON;\n' +
+          'DELETE FROM "h" WHERE "id"=2;\n' +
+          'UPDATE "h" SET "n"=2 WHERE "id"=1;\n' +
+          'INSERT INTO "h" ("id","n") VALUES(3,3);\n' +
+          'COMMIT;\n'
+      );
+    });
+  });
+});
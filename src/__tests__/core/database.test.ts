@@ -1,4 +1,14 @@
+import initSqlJs, { Statement } from 'sql.js';
 import { DatabaseManager } from '../../core/database';
+import { QueryInterruptedError } from '../../core/errors';
+import { loadRealSqlJs } from '../utils/sqlJs';
+import { encodeJsonValue } from '../../core/jsonExport';
+import { DatabaseSchema, ExportOptions, RowBatch } from '../../types';
+
+/**
+ * The mocked sql.js database behind a manager, as set up in setup.ts
+ */
+const mockedDatabase = (manager: DatabaseManager) => jest.mocked(manager.getDatabase()!);
 
 describe('DatabaseManager', () => {
   let dbManager: DatabaseManager;
@@ -20,6 +30,38 @@ describe('DatabaseManager', () => {
       await dbManager.initialize();
       await expect(dbManager.initialize()).resolves.not.toThrow();
     });
+
+    it('should pass locateFile and wasmBinary to sql.js', async () => {
+      const locateFile = (file: string) => `/assets/${file}`;
+      const wasmBinary = new Uint8Array([0, 97, 115, 109]);
+      const manager = new DatabaseManager({ locateFile, wasmBinary });
+
+      await manager.initialize();
+
+      expect(initSqlJs).toHaveBeenLastCalledWith({ locateFile, wasmBinary });
+    });
+
+    it('should use a preloaded sql.js module without loading', async () => {
+      (initSqlJs as jest.Mock).mockClear();
+      const sqlJs = await loadRealSqlJs();
+      const manager = new DatabaseManager({ sqlJs });
+
+      await manager.initialize();
+      manager.createDatabase();
+
+      expect(initSqlJs).not.toHaveBeenCalled();
+      expect(manager.isLoaded()).toBe(true);
+      manager.close();
+    });
+
+    it('should report load failures and allow retrying', async () => {
+      (initSqlJs as jest.Mock).mockRejectedValueOnce(new Error('CSP blocked'));
+
+      await expect(dbManager.initialize()).rejects.toThrow(
+        'Failed to initialize sql.js: Error: CSP blocked'
+      );
+      await expect(dbManager.initialize()).resolves.not.toThrow();
+    });
   });
 
   describe('createDatabase', () => {
@@ -34,10 +76,1070 @@ describe('DatabaseManager', () => {
     });
   });
 
+  describe('executeQuery', () => {
+    it('should bind parameters to select statements', async () => {
+      await dbManager.initialize();
+      dbManager.createDatabase();
+      const db = mockedDatabase(dbManager);
+
+      dbManager.executeQuery('SELECT * FROM users WHERE id = ?', [1]);
+
+      const stmt = db.prepare.mock.results[0].value;
+      expect(stmt.bind).toHaveBeenCalledWith([1]);
+      expect(stmt.free).toHaveBeenCalled();
+    });
+
+    it('should bind parameters to write statements and report rows affected', async () => {
+      await dbManager.initialize();
+      dbManager.createDatabase();
+      const db = mockedDatabase(dbManager);
+      db.getRowsModified.mockReturnValueOnce(1);
+
+      const result = dbManager.executeQuery('INSERT INTO users (name) VALUES (:name)', {
+        ':name': 'Alice',
+      });
+
+      const stmt = db.prepare.mock.results[0].value;
+      expect(stmt.bind).toHaveBeenCalledWith({ ':name': 'Alice' });
+      expect(result.rowsAffected).toBe(1);
+    });
+
+    it('should return rows for any statement with result columns', async () => {
+      await dbManager.initialize();
+      dbManager.createDatabase();
+      const db = mockedDatabase(dbManager);
+      const step = jest.fn().mockReturnValueOnce(true).mockReturnValue(false);
+      db.prepare.mockReturnValueOnce({
+        bind: jest.fn(),
+        step,
+        get: jest.fn(() => [0, 'id']),
+        getColumnNames: jest.fn(() => ['cid', 'name']),
+        free: jest.fn(),
+      } as Partial<Statement> as Statement);
+
+      const result = dbManager.executeQuery('/* columns */ PRAGMA table_info(users)');
+
+      expect(result.columns).toEqual(['cid', 'name']);
+      expect(result.values).toEqual([[0, 'id']]);
+      expect(result.rowsAffected).toBeUndefined();
+    });
+
+    it('should run every statement and return the last result', async () => {
+      await dbManager.initialize();
+      dbManager.createDatabase();
+      const db = mockedDatabase(dbManager);
+
+      dbManager.executeQuery('CREATE TABLE t (x); INSERT INTO t VALUES (1)');
+
+      expect(db.prepare).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject parameters for multiple statements', async () => {
+      await dbManager.initialize();
+      dbManager.createDatabase();
+
+      expect(() => dbManager.executeQuery('SELECT ?; SELECT ?', [1])).toThrow(
+        'Bound parameters require a single statement'
+      );
+    });
+  });
+
+  describe('executeScript', () => {
+    it('should execute each statement and report per-statement results', async () => {
+      await dbManager.initialize();
+      dbManager.createDatabase();
+
+      const results = dbManager.executeScript('CREATE TABLE t (x); SELECT * FROM t;');
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({ statementIndex: 0, sql: 'CREATE TABLE t (x)' });
+      expect(results[1]).toMatchObject({ statementIndex: 1, sql: 'SELECT * FROM t' });
+    });
+
+    it('should stop at the first failing statement by default', async () => {
+      await dbManager.initialize();
+      dbManager.createDatabase();
+      const db = mockedDatabase(dbManager);
+      db.prepare.mockImplementationOnce(() => {
+        throw new Error('no such table: missing');
+      });
+
+      const results = dbManager.executeScript('DELETE FROM missing; SELECT 1;');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].error).toContain('Statement 1');
+    });
+
+    it('should continue after errors when stopOnError is false', async () => {
+      await dbManager.initialize();
+      dbManager.createDatabase();
+      const db = mockedDatabase(dbManager);
+      db.prepare.mockImplementationOnce(() => {
+        throw new Error('no such table: missing');
+      });
+
+      const results = dbManager.executeScript('DELETE FROM missing; SELECT 1;', {
+        stopOnError: false,
+      });
+
+      expect(results).toHaveLength(2);
+      expect(results[1].error).toBeUndefined();
+    });
+  });
+
+  describe('with the sql.js engine', () => {
+    let manager: DatabaseManager;
+
+    beforeEach(async () => {
+      manager = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+      await manager.initialize();
+      manager.createDatabase();
+      manager.executeQuery('CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)');
+      manager.executeQuery("INSERT INTO users (name) VALUES ('Ann'), ('Bob')");
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('should return rows for CTEs, VALUES and PRAGMA', () => {
+      expect(
+        manager.executeQuery('WITH n AS (SELECT name FROM users) SELECT * FROM n').values
+      ).toEqual([['Ann'], ['Bob']]);
+      expect(manager.executeQuery('VALUES (1), (2)').values).toEqual([[1], [2]]);
+      expect(manager.executeQuery('PRAGMA table_info(users)').values).toHaveLength(2);
+      expect(manager.executeQuery('-- leading\nSELECT count(*) FROM users').values).toEqual([[2]]);
+    });
+
+    it('should return rows and rows affected for RETURNING', () => {
+      const result = manager.executeQuery(
+        'UPDATE users SET name = upper(name) WHERE id > ? RETURNING name',
+        [0]
+      );
+      expect(result.values).toEqual([['ANN'], ['BOB']]);
+      expect(result.rowsAffected).toBe(2);
+    });
+
+    it('should not report stale row counts for DDL', () => {
+      manager.executeQuery('DELETE FROM users');
+      expect(manager.executeQuery('CREATE TABLE other (x)').rowsAffected).toBe(0);
+    });
+
+    it('should stop a query that runs past its timeout', () => {
+      const endless =
+        'WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT i FROM n';
+
+      expect(() => manager.executeQuery(endless, undefined, { timeout: 20 })).toThrow(
+        expect.objectContaining({ reason: 'timeout', message: 'Query timed out after 20 ms' })
+      );
+      // The engine is still usable afterwards
+      expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[2]]);
+    });
+
+    it('should not run queries whose signal is already aborted', () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      expect(() =>
+        manager.executeQuery("INSERT INTO users (name) VALUES ('Cy')", undefined, {
+          signal: controller.signal,
+        })
+      ).toThrow(QueryInterruptedError);
+      expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[2]]);
+    });
+
+    it('should read rows through a cursor in batches', () => {
+      manager.executeQuery("INSERT INTO users (name) VALUES ('Cy')");
+      const cursor = manager.openCursor('SELECT name FROM users WHERE id >= ? ORDER BY id', [1]);
+
+      expect(cursor.columns).toEqual(['name']);
+      expect(cursor.fetch(2)).toEqual([['Ann'], ['Bob']]);
+      expect(cursor.done).toBe(false);
+      expect(cursor.fetch(2)).toEqual([['Cy']]);
+      expect(cursor.done).toBe(true);
+      expect(cursor.fetch(2)).toEqual([]);
+    });
+
+    it('should reject cursors over several statements', () => {
+      expect(() => manager.openCursor('SELECT 1; SELECT 2')).toThrow(
+        'Cursors require a single statement'
+      );
+      expect(() => manager.openCursor('SELECT * FROM missing')).toThrow(
+        'Query execution failed: no such table: missing'
+      );
+    });
+
+    it('should stream rows in batches and stop early', async () => {
+      const sql = 'WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT i FROM n';
+      const batches: RowBatch['rows'][] = [];
+
+      for await (const batch of manager.streamQuery(sql, undefined, { batchSize: 3 })) {
+        expect(batch.columns).toEqual(['i']);
+        batches.push(batch.rows);
+        if (batches.length === 2) break;
+      }
+
+      expect(batches).toEqual([
+        [[1], [2], [3]],
+        [[4], [5], [6]],
+      ]);
+    });
+
+    it('should stop streaming when the signal aborts', async () => {
+      const controller = new AbortController();
+      const stream = manager.streamQuery('SELECT name FROM users', undefined, {
+        batchSize: 1,
+        signal: controller.signal,
+      });
+
+      expect((await stream.next()).value).toEqual({ columns: ['name'], rows: [['Ann']] });
+      controller.abort();
+      await expect(stream.next()).rejects.toThrow('Query cancelled');
+    });
+
+    it('should close open cursors with the database', () => {
+      const cursor = manager.openCursor('SELECT name FROM users');
+      manager.createDatabase();
+
+      expect(cursor.done).toBe(false);
+      expect(() => cursor.fetch()).toThrow('Cursor was closed before every row was read');
+    });
+
+    it('should fail a stream whose cursor is closed by saving', async () => {
+      const stream = manager.streamQuery('SELECT name FROM users', undefined, { batchSize: 1 });
+
+      expect((await stream.next()).value).toEqual({ columns: ['name'], rows: [['Ann']] });
+      manager.saveDatabase();
+      await expect(stream.next()).rejects.toThrow('Cursor was closed before every row was read');
+    });
+
+    it('should commit and roll back transactions', () => {
+      manager.beginTransaction();
+      manager.executeQuery("INSERT INTO users (name) VALUES ('Cy')");
+      expect(manager.getTransactionDepth()).toBe(1);
+      manager.rollback();
+      expect(manager.getTransactionDepth()).toBe(0);
+      expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[2]]);
+
+      manager.beginTransaction();
+      manager.executeQuery("INSERT INTO users (name) VALUES ('Cy')");
+      manager.commit();
+      expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[3]]);
+    });
+
+    it('should nest savepoints inside a transaction', () => {
+      manager.beginTransaction();
+      manager.executeQuery("INSERT INTO users (name) VALUES ('Cy')");
+      manager.beginTransaction();
+      manager.executeQuery("INSERT INTO users (name) VALUES ('Di')");
+      expect(manager.getTransactionDepth()).toBe(2);
+
+      manager.rollback();
+      expect(manager.getTransactionDepth()).toBe(1);
+      manager.commit();
+
+      expect(manager.executeQuery('SELECT name FROM users ORDER BY id').values).toEqual([
+        ['Ann'],
+        ['Bob'],
+        ['Cy'],
+      ]);
+    });
+
+    it('should track transactions opened with plain SQL', () => {
+      manager.executeQuery('BEGIN');
+      manager.executeQuery('SAVEPOINT manual');
+      expect(manager.getTransactionDepth()).toBe(2);
+
+      manager.commit();
+      expect(manager.getTransactionDepth()).toBe(1);
+      manager.executeQuery('COMMIT');
+      expect(manager.getTransactionDepth()).toBe(0);
+      expect(() => manager.commit()).toThrow('No transaction is open');
+    });
+
+    it('should roll back a transaction callback that throws', async () => {
+      await expect(
+        manager.transaction(async (tx) => {
+          tx.executeQuery("INSERT INTO users (name) VALUES ('Cy')");
+          await tx.transaction((inner) =>
+            inner.executeQuery("INSERT INTO users (name) VALUES ('Di')")
+          );
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      expect(manager.getTransactionDepth()).toBe(0);
+      expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[2]]);
+
+      await manager.transaction((tx) => tx.executeQuery("INSERT INTO users (name) VALUES ('Cy')"));
+      expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[3]]);
+    });
+
+    it('should refuse to save while a transaction is open', () => {
+      manager.beginTransaction();
+      expect(() => manager.saveDatabase()).toThrow(
+        'Commit or roll back the open transaction before saving'
+      );
+      manager.commit();
+      expect(manager.saveDatabase()).toBeInstanceOf(Uint8Array);
+    });
+
+    it('should forget a transaction that SQLite rolled back by itself', () => {
+      manager.beginTransaction();
+      manager.executeQuery("INSERT INTO users (name) VALUES ('Cy')");
+      expect(() => manager.executeQuery('INSERT INTO users (id) VALUES (1)')).toThrow(
+        'UNIQUE constraint failed'
+      );
+      expect(manager.getTransactionDepth()).toBe(1);
+
+      expect(() =>
+        manager.executeQuery("INSERT OR ROLLBACK INTO users (id, name) VALUES (1, 'Dup')")
+      ).toThrow('UNIQUE constraint failed');
+      expect(manager.getTransactionDepth()).toBe(0);
+      expect(() => manager.commit()).toThrow('No transaction is open');
+      expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[2]]);
+      expect(manager.saveDatabase()).toBeInstanceOf(Uint8Array);
+    });
+
+    it('should describe views, triggers and virtual tables', () => {
+      manager.executeScript(`
+        CREATE VIEW named AS SELECT id, upper(name) AS shout FROM users;
+        CREATE TABLE log (msg TEXT);
+        CREATE TRIGGER users_audit AFTER UPDATE OF name ON users
+          BEGIN INSERT INTO log VALUES (new.name); END;
+        CREATE TRIGGER named_insert INSTEAD OF INSERT ON named
+          BEGIN INSERT INTO users (name) VALUES (new.shout); END;
+        CREATE VIRTUAL TABLE docs USING fts4(title, body);
+      `);
+
+      const schema = manager.getSchema();
+
+      // fts4 shadow tables (docs_content, docs_segdir...) are internal
+      expect(schema.tables.map((t) => t.name)).toEqual(['docs', 'log', 'users']);
+      expect(schema.tables[0].virtualModule).toBe('fts4');
+      expect(schema.tables[0].columns.filter((c) => !c.hidden).map((c) => c.name)).toEqual([
+        'title',
+        'body',
+      ]);
+      expect(schema.tables[2].virtualModule).toBeUndefined();
+
+      expect(schema.views).toHaveLength(1);
+      expect(schema.views[0].name).toBe('named');
+      expect(schema.views[0].columns.map((c) => c.name)).toEqual(['id', 'shout']);
+
+      expect(schema.triggers).toEqual([
+        expect.objectContaining({
+          name: 'named_insert',
+          table: 'named',
+          timing: 'INSTEAD OF',
+          event: 'INSERT',
+        }),
+        expect.objectContaining({
+          name: 'users_audit',
+          table: 'users',
+          timing: 'AFTER',
+          event: 'UPDATE',
+        }),
+      ]);
+    });
+
+    it('should keep views whose tables were dropped', () => {
+      manager.executeQuery('CREATE TABLE tmp (x)');
+      manager.executeQuery('CREATE VIEW broken AS SELECT x FROM tmp');
+      manager.executeQuery('DROP TABLE tmp');
+
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const schema = manager.getSchema();
+      errorSpy.mockRestore();
+
+      expect(schema.views).toEqual([expect.objectContaining({ name: 'broken', columns: [] })]);
+    });
+
+    it('should describe constraint, expression and partial indexes', () => {
+      manager.executeScript(`
+        CREATE TABLE accounts (
+          id INTEGER PRIMARY KEY,
+          email TEXT UNIQUE,
+          name TEXT,
+          active INTEGER
+        );
+        CREATE INDEX idx_name ON accounts (lower(name) DESC, email COLLATE NOCASE);
+        CREATE UNIQUE INDEX idx_active ON accounts (name) WHERE active = 1;
+        CREATE TABLE tags (a TEXT, b TEXT, PRIMARY KEY (b, a)) WITHOUT ROWID;
+      `);
+
+      const indexes = manager.getTableInfo('accounts')!.indexes;
+      expect(indexes.map((index) => index.name)).toEqual([
+        'idx_active',
+        'idx_name',
+        'sqlite_autoindex_accounts_1',
+      ]);
+
+      const [active, byName, auto] = indexes;
+      expect(active).toMatchObject({
+        unique: true,
+        origin: 'c',
+        partial: true,
+        where: 'active = 1',
+      });
+      expect(byName.keyColumns).toEqual([
+        { name: null, expression: 'lower(name)', desc: true, collation: 'BINARY' },
+        { name: 'email', desc: false, collation: 'NOCASE' },
+      ]);
+      expect(byName.columns).toEqual(['lower(name)', 'email']);
+      expect(auto).toMatchObject({ unique: true, origin: 'u', columns: ['email'], sql: null });
+
+      const primaryKey = manager.getTableInfo('tags')!.indexes[0];
+      expect(primaryKey).toMatchObject({ origin: 'pk', columns: ['b', 'a'] });
+    });
+
+    it('should group composite foreign keys and read their actions', () => {
+      manager.executeScript(`
+        CREATE TABLE orgs (id INTEGER PRIMARY KEY);
+        CREATE TABLE members (org_id INTEGER, user_id INTEGER, PRIMARY KEY (org_id, user_id));
+        CREATE TABLE grants (
+          org INTEGER REFERENCES orgs ON DELETE CASCADE,
+          member_org INTEGER,
+          member_user INTEGER,
+          FOREIGN KEY (member_org, member_user) REFERENCES members (org_id, user_id)
+            ON UPDATE SET NULL
+        );
+      `);
+
+      expect(manager.getTableInfo('grants')!.foreignKeys).toEqual([
+        {
+          id: 0,
+          from: 'grants',
+          to: 'members',
+          columns: [
+            { from: 'member_org', to: 'org_id' },
+            { from: 'member_user', to: 'user_id' },
+          ],
+          onUpdate: 'SET NULL',
+          onDelete: 'NO ACTION',
+          match: 'NONE',
+        },
+        {
+          id: 1,
+          from: 'grants',
+          to: 'orgs',
+          // No column list: resolved to the parent's primary key
+          columns: [{ from: 'org', to: 'id' }],
+          onUpdate: 'NO ACTION',
+          onDelete: 'CASCADE',
+          match: 'NONE',
+        },
+      ]);
+    });
+
+    it('should describe generated, collated and checked columns', () => {
+      manager.executeScript(`
+        CREATE TABLE items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT COLLATE NOCASE CHECK (name <> ''),
+          slug TEXT AS (lower(name)),
+          total INT GENERATED ALWAYS AS (id * 2) STORED,
+          CHECK (id > 0)
+        ) STRICT;
+        CREATE TABLE pairs (b TEXT, a TEXT, PRIMARY KEY (a, b)) WITHOUT ROWID;
+      `);
+
+      const items = manager.getTableInfo('items')!;
+      expect(items).toMatchObject({ strict: true, withoutRowid: false, checks: ['id > 0'] });
+      expect(items.columns).toEqual([
+        expect.objectContaining({ name: 'id', pkOrder: 1, autoincrement: true }),
+        expect.objectContaining({ name: 'name', collation: 'NOCASE', checks: ["name <> ''"] }),
+        expect.objectContaining({
+          name: 'slug',
+          generated: 'VIRTUAL',
+          generatedExpression: 'lower(name)',
+        }),
+        expect.objectContaining({ name: 'total', generated: 'STORED' }),
+      ]);
+
+      const pairs = manager.getTableInfo('pairs')!;
+      expect(pairs).toMatchObject({ withoutRowid: true, primaryKey: ['a', 'b'] });
+      expect(pairs.columns.map((c) => c.pkOrder)).toEqual([2, 1]);
+    });
+
+    it('should count rows and report page usage without dbstat', () => {
+      manager.executeScript(`
+        CREATE TABLE tasks (id INTEGER PRIMARY KEY, done INTEGER);
+        CREATE INDEX idx_open ON tasks (id) WHERE done = 0;
+        INSERT INTO tasks (done) VALUES (0), (1), (1);
+        CREATE TABLE scratch (data BLOB);
+        INSERT INTO scratch VALUES (randomblob(100000));
+        DROP TABLE scratch;
+      `);
+
+      const stats = manager.getStatistics();
+
+      // The stock sql.js build leaves out dbstat
+      expect(stats.hasPageStatistics).toBe(false);
+      expect(stats.pageSize).toBe(4096);
+      expect(stats.sizeBytes).toBe(stats.pageSize * stats.pageCount);
+      expect(stats.freelistCount).toBeGreaterThan(20);
+      expect(stats.fragmentation).toBeCloseTo(stats.freelistCount / stats.pageCount);
+
+      expect(stats.tables.find((t) => t.name === 'tasks')).toEqual({
+        name: 'tasks',
+        schema: 'main',
+        table: 'tasks',
+        rowCount: 3,
+        pageCount: null,
+        sizeBytes: null,
+        payloadBytes: null,
+      });
+      expect(stats.indexes).toEqual([
+        expect.objectContaining({ name: 'idx_open', table: 'tasks', rowCount: 1 }),
+      ]);
+    });
+
+    it('should report page usage and unused space from dbstat', () => {
+      // Answer the dbstat query as a build that includes it would
+      const db = manager.getDatabase()!;
+      const exec = db.exec.bind(db);
+      jest.spyOn(db, 'exec').mockImplementation((sql, params) =>
+        sql.includes('dbstat')
+          ? [
+              {
+                columns: ['name', 'pages', 'size', 'payload', 'unused'],
+                values: [['users', 2, 8192, 100, 4096]],
+              },
+            ]
+          : exec(sql, params)
+      );
+
+      const stats = manager.getStatistics();
+
+      expect(stats.hasPageStatistics).toBe(true);
+      expect(stats.tables[0]).toMatchObject({ name: 'users', pageCount: 2, sizeBytes: 8192 });
+      expect(stats.fragmentation).toBeCloseTo(
+        (stats.freelistCount * stats.pageSize + 4096) / stats.sizeBytes
+      );
+    });
+
+    describe('importRows', () => {
+      it('should create a table and convert fields by its column types', () => {
+        const result = manager.importRows(
+          [
+            ['1', 'Ann', '2.5', ''],
+            ['2', 'Bob', '', 'x'],
+          ],
+          {
+            table: 'people',
+            createTable: true,
+            columns: [
+              { name: 'id', type: 'INTEGER', source: 0 },
+              { name: 'name', type: 'TEXT', source: 1 },
+              { name: 'score', type: 'REAL', source: 2 },
+            ],
+          }
+        );
+
+        expect(result).toEqual({ inserted: 2, errors: [] });
+        expect(manager.getTableInfo('people')!.columns.map((c) => c.type)).toEqual([
+          'INTEGER',
+          'TEXT',
+          'REAL',
+        ]);
+        expect(
+          manager.executeQuery('SELECT id, typeof(id), name, score FROM people').values
+        ).toEqual([
+          [1, 'integer', 'Ann', 2.5],
+          [2, 'integer', 'Bob', null],
+        ]);
+      });
+
+      it('should skip and report failing rows while inserting the rest in batches', () => {
+        const result = manager.importRows(
+          [['Cy'], ['1', 'Dup'], ['4', 'Di'], ['5', 'Ed'], ['6', 'Flo']],
+          {
+            table: 'users',
+            columns: [
+              { name: 'name', source: 1 },
+              { name: 'id', source: 0 },
+            ],
+            batchSize: 2,
+            firstRowNumber: 2,
+          }
+        );
+
+        expect(result.inserted).toBe(3);
+        expect(result.errors).toEqual([
+          { row: 2, message: 'Expected 2 fields, found 1' },
+          { row: 3, message: expect.stringContaining('UNIQUE constraint failed') },
+        ]);
+        expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[5]]);
+        expect(manager.getTransactionDepth()).toBe(0);
+      });
+
+      it('should import into an open transaction as savepoints', () => {
+        manager.beginTransaction();
+        manager.importRows([['Cy']], { table: 'users', columns: [{ name: 'name', source: 0 }] });
+        expect(manager.getTransactionDepth()).toBe(1);
+
+        manager.rollback();
+        expect(manager.executeQuery('SELECT count(*) FROM users').values).toEqual([[2]]);
+      });
+
+      it('should stop when a conflict rolls the transaction back', () => {
+        manager.executeQuery('CREATE TABLE codes (code TEXT UNIQUE ON CONFLICT ROLLBACK)');
+
+        expect(() =>
+          manager.importRows([['a'], ['b'], ['a']], {
+            table: 'codes',
+            columns: [{ name: 'code', source: 0 }],
+          })
+        ).toThrow('Row 3: UNIQUE constraint failed: codes.code; the transaction was rolled back');
+        expect(manager.getTransactionDepth()).toBe(0);
+        expect(manager.executeQuery('SELECT count(*) FROM codes').values).toEqual([[0]]);
+      });
+
+      it('should check that the table exists only when appending', () => {
+        const columns = [{ name: 'name', source: 0 }];
+
+        expect(() =>
+          manager.importRows([['x']], { table: 'USERS', createTable: true, columns })
+        ).toThrow('Table "USERS" already exists');
+        expect(() => manager.importRows([['x']], { table: 'missing', columns })).toThrow(
+          'No table named "missing"'
+        );
+        expect(() => manager.importRows([['x']], { table: 'users', columns: [] })).toThrow(
+          'No columns to import'
+        );
+      });
+    });
+
+    describe('SQL export', () => {
+      const SOURCE = `
+        PRAGMA user_version = 7;
+        CREATE TABLE authors (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL);
+        CREATE TABLE "a books" (
+          id INTEGER PRIMARY KEY,
+          author_id INTEGER REFERENCES authors (id),
+          title TEXT,
+          cover BLOB,
+          price,
+          slug TEXT GENERATED ALWAYS AS (lower(title)) VIRTUAL
+        );
+        CREATE TABLE notes (body TEXT);
+        CREATE TABLE log (entry TEXT);
+        CREATE INDEX books_title ON "a books" (title);
+        CREATE TRIGGER books_log AFTER INSERT ON "a books" BEGIN
+          INSERT INTO log VALUES (NEW.title);
+        END;
+        CREATE VIEW titles AS SELECT title FROM "a books";
+        CREATE VIEW a_titles AS SELECT upper(title) AS title FROM titles;
+        CREATE TRIGGER titles_note INSTEAD OF INSERT ON titles BEGIN
+          INSERT INTO notes VALUES (NEW.title);
+        END;
+        INSERT INTO authors (name) VALUES ('Le Guin'), ('Gone'), ('Butler');
+        DELETE FROM authors WHERE name = 'Gone';
+        INSERT INTO "a books" (id, author_id, title, cover, price) VALUES (1, 1, 'It''s "Earthsea"', X'00FF10', 2.0);
+        INSERT INTO "a books" (id, author_id, title, cover, price) VALUES (2, 3, 'Line one
+line two', NULL, 0.1 + 0.2);
+        INSERT INTO notes VALUES ('a'), ('b'), ('c');
+        DELETE FROM notes WHERE body = 'b';
+      `;
+
+      const snapshot = (target: DatabaseManager) =>
+        [
+          'SELECT * FROM authors',
+          'SELECT *, typeof(price) FROM "a books"',
+          'SELECT rowid, * FROM notes',
+          'SELECT * FROM log',
+          'SELECT * FROM sqlite_sequence',
+          'PRAGMA user_version',
+        ].map((sql) => target.executeQuery(sql).values);
+
+      it('should write a dump that restores an identical database', async () => {
+        expect(manager.executeScript(SOURCE).filter((result) => result.error)).toEqual([]);
+        const dump = manager.exportDatabase({ format: 'sql' });
+
+        const restored = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+        await restored.initialize();
+        restored.createDatabase();
+        restored.executeQuery('PRAGMA foreign_keys = ON');
+        const results = restored.executeScript(dump);
+
+        expect(results.filter((result) => result.error)).toEqual([]);
+        expect(restored.getSchema()).toEqual(manager.getSchema());
+        expect(snapshot(restored)).toEqual(snapshot(manager));
+        // Dumping the restored copy gives back the same text
+        expect(restored.exportDatabase({ format: 'sql' })).toBe(dump);
+        restored.close();
+      });
+
+      it('should order and quote the dump', () => {
+        manager.executeScript(SOURCE);
+        const lines = manager.exportDatabase({ format: 'sql' }).split('\n');
+        const position = (prefix: string) => lines.findIndex((line) => line.startsWith(prefix));
+
+        expect(lines.slice(0, 2)).toEqual(['PRAGMA foreign_keys=OFF;', 'BEGIN TRANSACTION;']);
+        expect(lines[lines.length - 1]).toBe('COMMIT;');
+        expect(position('CREATE TABLE authors')).toBeLessThan(position('CREATE TABLE "a books"'));
+        expect(lines).toContain(
+          `INSERT INTO "a books" ("id","author_id","title","cover","price") VALUES(1,1,'It''s "Earthsea"',X'00FF10',2.0);`
+        );
+        expect(lines).toContain('INSERT INTO "notes" ("rowid","body") VALUES(3,\'c\');');
+        expect(lines).toContain("INSERT INTO sqlite_sequence (name,seq) VALUES('authors',3);");
+        const lastInsert =
+          lines.length - 1 - [...lines].reverse().findIndex((line) => line.startsWith('INSERT'));
+        expect(position('CREATE INDEX')).toBeGreaterThan(lastInsert);
+        expect(position('CREATE TRIGGER')).toBeGreaterThan(lastInsert);
+        expect(position('CREATE VIEW')).toBeGreaterThan(lastInsert);
+        expect(position('CREATE VIEW titles')).toBeLessThan(position('CREATE VIEW a_titles'));
+        expect(position('CREATE VIEW a_titles')).toBeLessThan(position('CREATE TRIGGER'));
+        expect(lines).toContain('PRAGMA user_version=7;');
+      });
+
+      it('should leave out the schema or the data on request', () => {
+        const dataOnly = manager.exportDatabase({ format: 'sql', schema: false });
+        const schemaOnly = manager.exportDatabase({ format: 'sql', data: false });
+
+        expect(dataOnly).not.toContain('CREATE');
+        expect(dataOnly).toContain(`INSERT INTO "users" ("id","name") VALUES(1,'Ann');`);
+        expect(schemaOnly).toContain('CREATE TABLE users');
+        expect(schemaOnly).not.toContain('INSERT');
+      });
+    });
+
+    describe('exportChunks', () => {
+      beforeEach(() => {
+        manager.executeScript(`
+          CREATE TABLE empty (x);
+          CREATE TABLE files (name TEXT, data BLOB);
+          INSERT INTO files VALUES ('a.bin', X'0102'), ('b.bin', NULL), ('c.bin', X'');
+        `);
+      });
+
+      it('should yield chunks that join into the full export', () => {
+        const cases: ExportOptions[] = [
+          { format: 'sql' },
+          { format: 'json' },
+          { format: 'csv', table: 'files' },
+        ];
+        cases.forEach((options) => {
+          const chunks = Array.from(manager.exportChunks({ ...options, batchSize: 1 }));
+
+          expect(chunks.length).toBeGreaterThan(3);
+          expect(chunks.map((chunk) => chunk.text).join('')).toBe(manager.exportDatabase(options));
+        });
+      });
+
+      it('should write CSV as one escaped file per table', () => {
+        manager.executeQuery(
+          `INSERT INTO users (name) VALUES ('Smith, "Jo"'), ('two' || char(10) || 'lines')`
+        );
+        const files: Record<string, string> = {};
+        for (const { file, text } of manager.exportChunks({
+          format: 'csv',
+          batchSize: 2,
+          csv: { nullValue: 'NULL' },
+        })) {
+          files[file!] = (files[file!] ?? '') + text;
+        }
+
+        expect(files).toEqual({
+          'empty.csv': 'x\r\n',
+          'files.csv': 'name,data\r\na.bin,0102\r\nb.bin,NULL\r\nc.bin,\r\n',
+          'users.csv': 'id,name\r\n1,Ann\r\n2,Bob\r\n3,"Smith, ""Jo"""\r\n4,"two\nlines"\r\n',
+        });
+      });
+
+      it('should export a single table as CSV text', () => {
+        const csv = { delimiter: '\t', header: false, lineEnding: '\n' } as const;
+
+        expect(manager.exportDatabase({ format: 'csv', table: 'users', csv })).toBe(
+          '1\tAnn\n2\tBob\n'
+        );
+        expect(manager.exportChunks({ format: 'tsv', table: 'users', csv }).next().value).toEqual(
+          expect.objectContaining({ file: 'users.tsv' })
+        );
+        expect(() => manager.exportDatabase({ format: 'csv' })).toThrow(
+          'CSV exports write one file per table'
+        );
+        expect(() => manager.exportDatabase({ format: 'csv', table: 'nope' })).toThrow(
+          'No table named "nope"'
+        );
+      });
+
+      it('should lay JSON out as JSON.stringify does', () => {
+        const json = Array.from(manager.exportChunks({ format: 'json', batchSize: 2 }))
+          .map((chunk) => chunk.text)
+          .join('');
+        const expected = {
+          formatVersion: 1,
+          schema: null,
+          data: {
+            files: [
+              ['a.bin', new Uint8Array([1, 2])],
+              ['b.bin', null],
+              ['c.bin', new Uint8Array()],
+            ],
+            users: [
+              [1, 'Ann'],
+              [2, 'Bob'],
+            ],
+          },
+        };
+
+        expect(manager.exportDatabase({ format: 'json', schema: false })).toBe(
+          JSON.stringify(expected, encodeJsonValue, 2)
+        );
+        expect(JSON.parse(json).schema.tables).toHaveLength(3);
+        expect(manager.exportDatabase({ format: 'json', data: false })).toBe(
+          JSON.stringify({ ...expected, schema: JSON.parse(json).schema, data: {} }, null, 2)
+        );
+      });
+
+      it('should report rows written out of the rows counted', () => {
+        const progress = Array.from(manager.exportChunks({ batchSize: 2 })).map(
+          (chunk) => chunk.progress
+        );
+
+        expect(progress.filter((step) => step.table)).toEqual([
+          { table: 'files', rows: 2, totalRows: 5 },
+          { table: 'files', rows: 3, totalRows: 5 },
+          { table: 'users', rows: 5, totalRows: 5 },
+        ]);
+        expect(progress[progress.length - 1]).toEqual({ table: null, rows: 5, totalRows: 5 });
+      });
+
+      it('should stop a stream when its signal aborts and free the cursor', async () => {
+        const controller = new AbortController();
+        const chunks = manager.streamExport({ batchSize: 1, signal: controller.signal });
+
+        await chunks.next();
+        controller.abort();
+
+        await expect(chunks.next()).rejects.toThrow(QueryInterruptedError);
+        expect(() => manager.executeQuery('DROP TABLE files')).not.toThrow();
+      });
+    });
+
+    describe('importJSON', () => {
+      const createSource = async () => {
+        const source = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+        await source.initialize();
+        source.createDatabase();
+        source.executeScript(`
+          PRAGMA foreign_keys = ON;
+          PRAGMA user_version = 3;
+          CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+          CREATE TABLE books (
+            id INTEGER PRIMARY KEY,
+            author_id INTEGER REFERENCES authors (id),
+            title TEXT,
+            cover BLOB,
+            slug TEXT GENERATED ALWAYS AS (lower(title)) VIRTUAL
+          );
+          CREATE INDEX books_title ON books (title);
+          CREATE TABLE log (entry TEXT);
+          CREATE TRIGGER books_log AFTER INSERT ON books BEGIN
+            INSERT INTO log VALUES (NEW.title);
+          END;
+          CREATE VIEW titles AS SELECT title FROM books;
+          CREATE VIEW a_titles AS SELECT upper(title) AS title FROM titles;
+          CREATE TRIGGER titles_add INSTEAD OF INSERT ON titles BEGIN
+            INSERT INTO books (title) VALUES (NEW.title);
+          END;
+          INSERT INTO authors VALUES (1, 'Le Guin');
+          INSERT INTO books (id, author_id, title, cover) VALUES (1, 1, 'Earthsea', X'00FF');
+        `);
+        return source;
+      };
+
+      it('should round-trip a JSON export', async () => {
+        const source = await createSource();
+        const exported = source.exportDatabase({ format: 'json' });
+        manager.executeQuery('PRAGMA foreign_keys = ON');
+
+        const result = manager.importJSON(exported);
+
+        expect(result).toEqual({ tables: ['authors', 'books', 'log'], rows: 3 });
+        const strip = ({ tables, views, triggers, version }: DatabaseSchema) => ({
+          tables: tables.filter((t) => t.name !== 'users'),
+          views,
+          triggers,
+          version,
+        });
+        expect(strip(manager.getSchema())).toEqual(strip(source.getSchema()));
+        expect(manager.executeQuery('SELECT title, hex(cover), slug FROM books').values).toEqual([
+          ['Earthsea', '00FF', 'earthsea'],
+        ]);
+        // The trigger was created after the rows, so the log holds only the exported entry
+        expect(manager.executeQuery('SELECT entry FROM log').values).toEqual([['Earthsea']]);
+        manager.executeQuery("INSERT INTO titles VALUES ('Kindred')");
+        expect(manager.executeQuery('SELECT title FROM a_titles').values).toEqual([
+          ['EARTHSEA'],
+          ['KINDRED'],
+        ]);
+        source.close();
+      });
+
+      it('should roll everything back when a step fails', async () => {
+        const source = await createSource();
+        const file = JSON.parse(source.exportDatabase({ format: 'json' }));
+        file.data.books.push([2, 1, 'Short row']);
+
+        expect(() => manager.importJSON(file)).toThrow(
+          'Invalid JSON export: data.books[1] has 3 values, expected 5'
+        );
+        expect(manager.getSchema().tables.map((t) => t.name)).toEqual(['users']);
+        expect(manager.getTransactionDepth()).toBe(0);
+
+        file.data.books.pop();
+        file.data.books.push([2, 9, 'Orphan', null, null]);
+        manager.executeQuery('PRAGMA foreign_keys = ON');
+        expect(() => manager.importJSON(file)).toThrow('FOREIGN KEY constraint failed');
+        expect(manager.getSchema().tables.map((t) => t.name)).toEqual(['users']);
+        source.close();
+      });
+
+      it('should insert rows into existing tables without a schema block', () => {
+        const result = manager.importJSON({
+          formatVersion: 1,
+          schema: null,
+          data: { users: [[3, 'Cy']] },
+        });
+
+        expect(result).toEqual({ tables: ['users'], rows: 1 });
+        expect(manager.executeQuery('SELECT name FROM users WHERE id = 3').values).toEqual([
+          ['Cy'],
+        ]);
+        expect(() =>
+          manager.importJSON({ formatVersion: 1, schema: null, data: { missing: [] } })
+        ).toThrow('No table named "missing"');
+      });
+
+      it('should read blobs from exports made before they were base64 encoded', () => {
+        manager.executeQuery('CREATE TABLE files (data BLOB)');
+        // Earlier exports stringified blobs as plain Uint8Arrays
+        const exported = JSON.stringify({
+          schema: null,
+          data: { files: [[new Uint8Array([0, 255])]] },
+        });
+
+        manager.importJSON(exported);
+
+        expect(manager.executeQuery('SELECT hex(data) FROM files').values).toEqual([['00FF']]);
+      });
+    });
+
+    describe('attached databases', () => {
+      let reference: Uint8Array;
+
+      beforeEach(async () => {
+        const sqlJs = await loadRealSqlJs();
+        const db = new sqlJs.Database();
+        db.run(`
+          CREATE TABLE countries (id INTEGER PRIMARY KEY, code TEXT UNIQUE);
+          CREATE TABLE cities (id INTEGER PRIMARY KEY, country_id INTEGER REFERENCES countries (id));
+          CREATE VIEW codes AS SELECT code FROM countries;
+          INSERT INTO countries (code) VALUES ('NZ'), ('FR');
+        `);
+        reference = db.export();
+        db.close();
+      });
+
+      it('should attach a database and join across files', () => {
+        manager.executeQuery('ALTER TABLE users ADD COLUMN country_id INTEGER');
+        manager.executeQuery('UPDATE users SET country_id = id');
+
+        manager.attachDatabase('ref', reference);
+
+        const result = manager.executeQuery(
+          'SELECT u.name, c.code FROM users u JOIN ref.countries c ON c.id = u.country_id'
+        );
+        expect(result.values).toEqual([
+          ['Ann', 'NZ'],
+          ['Bob', 'FR'],
+        ]);
+      });
+
+      it('should describe attached tables with their schema', () => {
+        manager.attachDatabase('ref', reference);
+
+        const schema = manager.getSchema();
+        expect(schema.databases).toEqual(['main', 'ref']);
+        expect(schema.tables.map((t) => `${t.schema}.${t.name}`)).toEqual([
+          'main.users',
+          'ref.cities',
+          'ref.countries',
+        ]);
+        expect(schema.views).toEqual([expect.objectContaining({ name: 'codes', schema: 'ref' })]);
+
+        const cities = manager.getTableInfo('cities', 'ref')!;
+        expect(cities.foreignKeys).toEqual([expect.objectContaining({ to: 'countries' })]);
+        expect(manager.getTableInfo('cities')).toBeNull();
+        expect(manager.getTableInfo('countries', 'ref')!.indexes).toHaveLength(1);
+
+        const stats = manager.getStatistics();
+        expect(stats.tables).toContainEqual(
+          expect.objectContaining({ name: 'countries', schema: 'ref', rowCount: 2 })
+        );
+      });
+
+      it('should save an attached database and keep it attached after saving main', async () => {
+        manager.attachDatabase('ref', reference);
+        manager.executeQuery("INSERT INTO ref.countries (code) VALUES ('JP')");
+
+        manager.saveDatabase();
+        expect(manager.executeQuery('SELECT count(*) FROM ref.countries').values).toEqual([[3]]);
+
+        const saved = manager.saveDatabase('ref');
+        const other = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+        await other.initialize();
+        await other.loadDatabase(saved);
+        expect(other.executeQuery('SELECT code FROM countries ORDER BY id').values).toEqual([
+          ['NZ'],
+          ['FR'],
+          ['JP'],
+        ]);
+        other.close();
+      });
+
+      it('should reject taken names and invalid files, and detach', () => {
+        manager.attachDatabase('ref', reference);
+
+        expect(() => manager.attachDatabase('REF', reference)).toThrow(
+          'A database named "REF" is already open'
+        );
+        expect(() => manager.attachDatabase('main', reference)).toThrow('already open');
+        expect(() => manager.attachDatabase('junk', new Uint8Array(4096).fill(7))).toThrow(
+          'Failed to attach database'
+        );
+
+        manager.detachDatabase('ref');
+        expect(manager.getSchema().databases).toEqual(['main']);
+        expect(() => manager.executeQuery('SELECT * FROM ref.countries')).toThrow();
+      });
+    });
+
+    it('should mark the interrupted statement and stop the script', () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const results = manager.executeScript('SELECT 1; SELECT 2', { signal: controller.signal });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].interrupted).toBe('cancelled');
+      expect(results[0].error).toBe('Statement 1: Query cancelled');
+    });
+  });
+
   describe('getSchema', () => {
     it('should return empty schema when no database loaded', () => {
       const schema = dbManager.getSchema();
-      expect(schema).toEqual({ tables: [], version: '0.0.0' });
+      expect(schema).toEqual({
+        tables: [],
+        views: [],
+        triggers: [],
+        databases: [],
+        version: '0.0.0',
+      });
     });
   });
 
@@ -47,4 +1149,3 @@ describe('DatabaseManager', () => {
     });
   });
 });
-
@@ -0,0 +1,111 @@
+import { WritableStream as NodeWritableStream } from 'stream/web';
+import { TextEncoder, TextDecoder } from 'util';
+import { DatabaseManager } from '../../core/database';
+import { exportToBlob, exportToStream } from '../../core/exportStream';
+import { QueryInterruptedError } from '../../core/errors';
+import { ExportProgress } from '../../types';
+import { loadRealSqlJs } from '../utils/sqlJs';
+import { readZip } from '../utils/zip';
+
+Object.assign(globalThis, { TextEncoder });
+
+/**
+ * A writable stream of strings that keeps what was written to it
+ */
+function createSink() {
+  const sink = { written: [] as string[], closed: false, aborted: null as unknown };
+  const stream = new NodeWritableStream<string>({
+    write: (chunk) => {
+      sink.written.push(chunk);
+    },
+    close: () => {
+      sink.closed = true;
+    },
+    abort: (reason) => {
+      sink.aborted = reason;
+    },
+  });
+  return { sink, stream: stream as unknown as WritableStream<string> };
+}
+
+const readBlob = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const readText = async (blob: Blob) => new TextDecoder().decode(await readBlob(blob));
+
+describe('exportStream', () => {
+  let manager: DatabaseManager;
+
+  beforeEach(async () => {
+    manager = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+    await manager.initialize();
+    manager.createDatabase();
+    manager.executeScript(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      INSERT INTO users (name) VALUES ('Ann'), ('Bob'), ('Cy');
+    `);
+  });
+
+  afterEach(() => {
+    manager.close();
+  });
+
+  it('should build a Blob of the export and report progress', async () => {
+    const progress: ExportProgress[] = [];
+
+    const blob = await exportToBlob(manager, {
+      format: 'json',
+      batchSize: 2,
+      onProgress: (step) => progress.push(step),
+    });
+
+    expect(blob.type).toBe('application/json');
+    expect(await readText(blob)).toBe(manager.exportDatabase({ format: 'json' }));
+    expect(progress.map((step) => step.rows)).toEqual([2, 3, 3]);
+    expect(progress.every((step) => step.totalRows === 3)).toBe(true);
+  });
+
+  it('should bundle a CSV export of every table into a zip', async () => {
+    manager.executeQuery('CREATE TABLE "a/b" (x)');
+
+    const blob = await exportToBlob(manager, { format: 'csv', batchSize: 2, csv: { bom: true } });
+    const files = readZip(new Uint8Array(await readBlob(blob)));
+
+    expect(blob.type).toBe('application/zip');
+    expect(Object.keys(files)).toEqual(['a_b.csv', 'users.csv']);
+    // Keep the byte order mark when decoding, to see that it was written
+    const decoder = new TextDecoder('utf-8', { ignoreBOM: true });
+    expect(decoder.decode(files['users.csv'])).toBe('\ufeffid,name\r\n1,Ann\r\n2,Bob\r\n3,Cy\r\n');
+    expect(decoder.decode(files['a_b.csv'])).toBe('\ufeffx\r\n');
+  });
+
+  it('should write an export to a stream and close it', async () => {
+    const { sink, stream } = createSink();
+
+    await exportToStream(manager, stream, { batchSize: 1 });
+
+    expect(sink.written.length).toBeGreaterThan(3);
+    expect(sink.written.join('')).toBe(manager.exportDatabase());
+    expect(sink.closed).toBe(true);
+  });
+
+  it('should abort the stream when the export is cancelled', async () => {
+    const { sink, stream } = createSink();
+    const controller = new AbortController();
+
+    const exporting = exportToStream(manager, stream, {
+      batchSize: 1,
+      signal: controller.signal,
+      onProgress: ({ rows }) => rows === 1 && controller.abort(),
+    });
+
+    await expect(exporting).rejects.toThrow(QueryInterruptedError);
+    expect(sink.aborted).toBeInstanceOf(QueryInterruptedError);
+    expect(sink.closed).toBe(false);
+  });
+});
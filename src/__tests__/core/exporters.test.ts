@@ -0,0 +1,200 @@
+import { DatabaseManager } from '../../core/database';
+import {
+  exportResult,
+  getExporter,
+  getExporters,
+  registerExporter,
+  unregisterExporter,
+} from '../../core/exporters';
+import { QueryResult, ResultExporter } from '../../types';
+import { loadRealSqlJs } from '../utils/sqlJs';
+
+const result: QueryResult = {
+  columns: ['id', 'name', 'id'],
+  values: [
+    [1, 'Ann | "A" <b>', 10],
+    [2, null, new Uint8Array([1, 255])],
+  ],
+};
+
+const empty: QueryResult = { columns: ['id', 'name'], values: [] };
+
+// Writes one line per row naming the table, to check what exporters are given
+const tagExporter: ResultExporter = {
+  id: 'tag',
+  label: 'Tagged',
+  extension: '.tag',
+  mimeType: 'text/plain',
+  begin: ({ table, columns }) => `${table}: ${columns.join(' ')}\n`,
+  rows: (rows, _target, offset) => rows.map((row, i) => `${offset + i} ${row[0]}\n`).join(''),
+  end: (_target, count) => `${count} rows\n`,
+};
+
+describe('exporters', () => {
+  afterEach(() => {
+    unregisterExporter('tag');
+  });
+
+  describe('built-in formats', () => {
+    it('should list every built-in format', () => {
+      expect(getExporters().map((exporter) => exporter.id)).toEqual([
+        'csv',
+        'tsv',
+        'ndjson',
+        'json-array',
+        'markdown',
+        'html',
+        'sql-insert',
+      ]);
+    });
+
+    it('should write CSV and TSV records', () => {
+      expect(exportResult(result, 'csv')).toBe(
+        'id,name,id\r\n1,"Ann | ""A"" <b>",10\r\n2,,01FF\r\n'
+      );
+      expect(exportResult(result, 'tsv', { csv: { lineEnding: '\n', header: false } })).toBe(
+        '1\t"Ann | ""A"" <b>"\t10\n2\t\t01FF\n'
+      );
+    });
+
+    it('should write NDJSON with repeated columns numbered', () => {
+      expect(exportResult(result, 'ndjson')).toBe(
+        '{"id":1,"name":"Ann | \\"A\\" <b>","id_2":10}\n' +
+          '{"id":2,"name":null,"id_2":{"$blob":"Af8="}}\n'
+      );
+      expect(exportResult(empty, 'ndjson')).toBe('');
+    });
+
+    it('should write a JSON array of objects', () => {
+      const json = exportResult(result, 'json-array');
+
+      expect(JSON.parse(json)).toEqual([
+        { id: 1, name: 'Ann | "A" <b>', id_2: 10 },
+        { id: 2, name: null, id_2: { $blob: 'Af8=' } },
+      ]);
+      expect(json.split('\n')).toHaveLength(5);
+      expect(JSON.parse(exportResult(empty, 'json-array'))).toEqual([]);
+    });
+
+    it('should write an escaped Markdown table', () => {
+      expect(exportResult(result, 'markdown')).toBe(
+        '| id | name | id |\n' +
+          '| --- | --- | --- |\n' +
+          '| 1 | Ann \\| "A" <b> | 10 |\n' +
+          '| 2 | *NULL* | 01FF |\n'
+      );
+      expect(exportResult({ columns: ['a'], values: [['one\ntwo']] }, 'markdown')).toContain(
+        '| one<br>two |'
+      );
+    });
+
+    it('should write an escaped HTML table', () => {
+      const html = exportResult(result, 'html');
+
+      expect(html).toContain('<tr><th>id</th><th>name</th><th>id</th></tr>');
+      expect(html).toContain(
+        '<tr><td>1</td><td>Ann | &quot;A&quot; &lt;b&gt;</td><td>10</td></tr>'
+      );
+      expect(html).toContain('<td class="null">NULL</td><td>01FF</td>');
+      expect(html.startsWith('<table>\n')).toBe(true);
+      expect(html.endsWith('</tbody>\n</table>\n')).toBe(true);
+    });
+
+    it('should write INSERT statements into the named table', () => {
+      const rows = {
+        columns: ['id', 'name'],
+        values: [
+          [1, "O'Hara"],
+          [2, null],
+        ],
+      };
+
+      expect(exportResult(rows, 'sql-insert', { table: 'people' })).toBe(
+        `INSERT INTO "people" ("id","name") VALUES(1,'O''Hara');\n` +
+          `INSERT INTO "people" ("id","name") VALUES(2,NULL);\n`
+      );
+      expect(exportResult(rows, 'sql-insert')).toContain('INSERT INTO "result"');
+    });
+  });
+
+  describe('registry', () => {
+    it('should use a registered format until it is removed', () => {
+      registerExporter(tagExporter);
+
+      expect(getExporter('tag')).toBe(tagExporter);
+      expect(exportResult(result, 'tag')).toBe('null: id name id\n0 1\n1 2\n2 rows\n');
+      expect(unregisterExporter('tag')).toBe(true);
+      expect(() => exportResult(result, 'tag')).toThrow('Unknown export format "tag"');
+    });
+
+    it('should refuse names already taken', () => {
+      registerExporter(tagExporter);
+
+      expect(() => registerExporter(tagExporter)).toThrow('"tag" is already registered');
+      expect(() => registerExporter({ ...tagExporter, id: 'csv' })).toThrow('already registered');
+      expect(() => registerExporter({ ...tagExporter, id: 'sql' })).toThrow('already registered');
+    });
+  });
+
+  describe('database exports', () => {
+    let manager: DatabaseManager;
+
+    beforeEach(async () => {
+      manager = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+      await manager.initialize();
+      manager.createDatabase();
+      manager.executeScript(`
+        CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+        INSERT INTO users (name) VALUES ('Ann'), ('Bob'), ('Cy');
+        CREATE TABLE empty (x);
+      `);
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('should write each table to its own file in batches', () => {
+      registerExporter(tagExporter);
+      const chunks = Array.from(manager.exportChunks({ format: 'tag', batchSize: 2 }));
+      const files: Record<string, string> = {};
+      chunks.forEach(({ file, text }) => {
+        files[file!] = (files[file!] ?? '') + text;
+      });
+
+      expect(files).toEqual({
+        'empty.tag': 'empty: x\n0 rows\n',
+        'users.tag': 'users: id name\n0 1\n1 2\n2 3\n3 rows\n',
+      });
+      expect(chunks.map((chunk) => chunk.progress.rows)).toEqual([0, 0, 0, 2, 3, 3]);
+    });
+
+    it('should export one table as text matching a query result export', () => {
+      const rows = manager.executeQuery('SELECT id, name FROM users');
+
+      ['ndjson', 'json-array', 'markdown', 'html', 'sql-insert'].forEach((format) => {
+        expect(manager.exportDatabase({ format, table: 'users' })).toBe(
+          exportResult(rows, format, { table: 'users' })
+        );
+      });
+      expect(() => manager.exportDatabase({ format: 'markdown' })).toThrow(
+        'Markdown table exports write one file per table'
+      );
+      expect(() => manager.exportDatabase({ format: 'nope', table: 'users' })).toThrow(
+        'Unknown export format "nope"'
+      );
+    });
+
+    it('should write INSERT statements that load back', () => {
+      const inserts = manager.exportDatabase({ format: 'sql-insert', table: 'users' });
+      manager.executeQuery('DELETE FROM users');
+      manager.executeScript(inserts);
+
+      expect(manager.executeQuery('SELECT name FROM users ORDER BY id').values).toEqual([
+        ['Ann'],
+        ['Bob'],
+        ['Cy'],
+      ]);
+    });
+  });
+});
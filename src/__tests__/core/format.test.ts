@@ -0,0 +1,28 @@
+import { formatBytes, formatPercent, formatHex } from '../../core/format';
+
+describe('format', () => {
+  describe('formatBytes', () => {
+    it('should keep small sizes in bytes', () => {
+      expect(formatBytes(0)).toBe('0 B');
+      expect(formatBytes(512)).toBe('512 B');
+    });
+
+    it('should scale to the largest whole unit', () => {
+      expect(formatBytes(49152)).toBe('48.0 KB');
+      expect(formatBytes(1.5 * 1024 * 1024)).toBe('1.5 MB');
+    });
+  });
+
+  describe('formatPercent', () => {
+    it('should show one decimal place', () => {
+      expect(formatPercent(0.0342)).toBe('3.4%');
+    });
+  });
+
+  describe('formatHex', () => {
+    it('should write two uppercase digits per byte', () => {
+      expect(formatHex(new Uint8Array([0, 10, 255]))).toBe('000AFF');
+      expect(formatHex(new Uint8Array())).toBe('');
+    });
+  });
+});
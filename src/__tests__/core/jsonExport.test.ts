@@ -0,0 +1,83 @@
+import {
+  JSON_EXPORT_VERSION,
+  encodeJsonValue,
+  decodeJsonValue,
+  parseJsonExport,
+} from '../../core/jsonExport';
+
+describe('jsonExport', () => {
+  describe('values', () => {
+    it('should round-trip blobs through base64', () => {
+      const bytes = new Uint8Array([0, 1, 254, 255]);
+      const json = JSON.stringify({ value: bytes }, encodeJsonValue);
+
+      expect(json).toBe('{"value":{"$blob":"AAH+/w=="}}');
+      expect(decodeJsonValue(JSON.parse(json).value)).toEqual(bytes);
+    });
+
+    it('should read blobs written as indexed bytes by earlier exports', () => {
+      const json = JSON.stringify({ value: new Uint8Array([0, 1, 255]) });
+
+      expect(json).toBe('{"value":{"0":0,"1":1,"2":255}}');
+      expect(decodeJsonValue(JSON.parse(json).value)).toEqual(new Uint8Array([0, 1, 255]));
+      expect(decodeJsonValue({})).toEqual(new Uint8Array([]));
+      expect(() => decodeJsonValue({ 0: 1, 2: 3 })).toThrow('Unsupported value');
+      expect(() => decodeJsonValue({ 0: 256 })).toThrow('Unsupported value');
+    });
+
+    it('should keep scalars, turn booleans into integers and reject other objects', () => {
+      expect(decodeJsonValue('x')).toBe('x');
+      expect(decodeJsonValue(1.5)).toBe(1.5);
+      expect(decodeJsonValue(null)).toBeNull();
+      expect(decodeJsonValue(true)).toBe(1);
+      expect(() => decodeJsonValue({ a: 1 })).toThrow('Unsupported value: {"a":1}');
+      expect(() => decodeJsonValue([1])).toThrow('Unsupported value');
+    });
+  });
+
+  describe('parseJsonExport', () => {
+    it('should treat files without a format version as version 1', () => {
+      const file = parseJsonExport('{"schema": null, "data": {"t": [[1]]}}');
+
+      expect(file).toEqual({ formatVersion: 1, schema: null, data: { t: [[1]] } });
+    });
+
+    it('should fill in optional schema lists', () => {
+      const file = parseJsonExport(
+        JSON.stringify({
+          formatVersion: JSON_EXPORT_VERSION,
+          schema: { tables: [{ name: 't', sql: 'CREATE TABLE t (x)', columns: [] }] },
+          data: {},
+        })
+      );
+
+      expect(file.schema!.tables[0]).toMatchObject({ indexes: [], foreignKeys: [] });
+      expect(file.schema!.views).toEqual([]);
+      expect(file.schema!.triggers).toEqual([]);
+    });
+
+    it('should reject newer versions', () => {
+      expect(() => parseJsonExport({ formatVersion: 99, schema: null, data: {} })).toThrow(
+        `JSON export format version 99 is newer than the supported version ${JSON_EXPORT_VERSION}`
+      );
+    });
+
+    it('should describe what is malformed', () => {
+      expect(() => parseJsonExport('{')).toThrow('Invalid JSON export:');
+      expect(() => parseJsonExport('[]')).toThrow('expected an object with schema and data');
+      expect(() => parseJsonExport('{"formatVersion": "1"}')).toThrow(
+        'formatVersion must be a positive integer'
+      );
+      expect(() => parseJsonExport('{"schema": {"tables": [{"name": "t"}]}}')).toThrow(
+        'schema.tables[0] needs a name, sql and columns'
+      );
+      expect(() => parseJsonExport('{"schema": {"tables": [], "views": [1]}}')).toThrow(
+        'schema.views must be an array of objects with sql'
+      );
+      expect(() => parseJsonExport('{"data": {"t": [1, 2]}}')).toThrow(
+        'data.t must be an array of rows'
+      );
+    });
+  });
+});
+
@@ -0,0 +1,194 @@
+import { DatabasePersistence, MemoryPersistenceAdapter } from '../../core/persistence';
+import { DatabaseManager } from '../../core/database';
+import { loadRealSqlJs } from '../utils/sqlJs';
+
+describe('persistence', () => {
+  describe('MemoryPersistenceAdapter', () => {
+    it('should save, list, load and remove databases', async () => {
+      const adapter = new MemoryPersistenceAdapter();
+      await adapter.save('notes', new Uint8Array([1, 2, 3]));
+
+      expect(await adapter.list()).toEqual([
+        { name: 'notes', size: 3, updatedAt: expect.any(Number) },
+      ]);
+      expect(await adapter.load('notes')).toEqual(new Uint8Array([1, 2, 3]));
+      expect(await adapter.load('missing')).toBeNull();
+
+      await adapter.remove('notes');
+      expect(await adapter.list()).toEqual([]);
+    });
+
+    it('should hand out copies of stored bytes', async () => {
+      const adapter = new MemoryPersistenceAdapter();
+      const data = new Uint8Array([1]);
+      await adapter.save('db', data);
+      data[0] = 9;
+
+      const loaded = (await adapter.load('db'))!;
+      loaded[0] = 7;
+      expect(await adapter.load('db')).toEqual(new Uint8Array([1]));
+    });
+  });
+
+  describe('DatabasePersistence', () => {
+    let manager: DatabaseManager;
+    let adapter: MemoryPersistenceAdapter;
+    let persistence: DatabasePersistence;
+    let onChange: jest.Mock;
+
+    beforeEach(async () => {
+      localStorage.clear();
+      manager = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+      await manager.initialize();
+      manager.createDatabase();
+      manager.executeQuery('CREATE TABLE notes (body TEXT)');
+
+      adapter = new MemoryPersistenceAdapter();
+      onChange = jest.fn();
+      persistence = new DatabasePersistence(adapter, { autosaveDelay: 50, onChange });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      manager.close();
+    });
+
+    const storedRows = async (name: string) => {
+      const other = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+      await other.initialize();
+      await other.loadDatabase((await adapter.load(name))!);
+      const rows = other.executeQuery('SELECT body FROM notes').values;
+      other.close();
+      return rows;
+    };
+
+    it('should store the database and remember it for reopening', async () => {
+      await expect(persistence.save(manager)).rejects.toThrow('Name the database to store it');
+
+      await persistence.save(manager, 'notes');
+
+      expect(persistence.currentName).toBe('notes');
+      expect(persistence.getLastOpened()).toBe('notes');
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(await storedRows('notes')).toEqual([]);
+    });
+
+    it('should open a stored database', async () => {
+      manager.executeQuery("INSERT INTO notes VALUES ('kept')");
+      await persistence.save(manager, 'notes');
+      manager.createDatabase();
+
+      await persistence.open(manager, 'notes');
+
+      expect(manager.executeQuery('SELECT body FROM notes').values).toEqual([['kept']]);
+      await expect(persistence.open(manager, 'missing')).rejects.toThrow(
+        'No stored database named "missing"'
+      );
+    });
+
+    it('should read a stored database without opening it', async () => {
+      await persistence.save(manager, 'notes');
+      manager.createDatabase();
+
+      const schema = await manager.readSchema(await persistence.read('notes'));
+
+      expect(schema.tables.map((table) => table.name)).toEqual(['notes']);
+      expect(manager.getSchema().tables).toEqual([]);
+      await expect(persistence.read('missing')).rejects.toThrow(
+        'No stored database named "missing"'
+      );
+    });
+
+    it('should autosave once writes settle', async () => {
+      await persistence.save(manager, 'notes');
+      jest.useFakeTimers();
+
+      manager.executeQuery("INSERT INTO notes VALUES ('a')");
+      persistence.scheduleSave(manager);
+      manager.executeQuery("INSERT INTO notes VALUES ('b')");
+      persistence.scheduleSave(manager);
+      jest.advanceTimersByTime(50);
+      jest.useRealTimers();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onChange).toHaveBeenCalledTimes(2);
+      expect(await storedRows('notes')).toEqual([['a'], ['b']]);
+    });
+
+    it('should not autosave an unnamed database or an open transaction', async () => {
+      persistence.scheduleSave(manager);
+      await persistence.flush();
+      expect(await adapter.list()).toEqual([]);
+
+      await persistence.save(manager, 'notes');
+      manager.beginTransaction();
+      manager.executeQuery("INSERT INTO notes VALUES ('uncommitted')");
+      persistence.scheduleSave(manager);
+      await persistence.flush();
+      manager.commit();
+
+      expect(await storedRows('notes')).toEqual([]);
+    });
+
+    it('should postpone autosaving while a cursor is open', async () => {
+      const wait = () => new Promise((resolve) => setTimeout(resolve, 120));
+      await persistence.save(manager, 'notes');
+      manager.executeQuery("INSERT INTO notes VALUES ('a')");
+      const cursor = manager.openCursor('SELECT body FROM notes');
+
+      persistence.scheduleSave(manager);
+      await wait();
+      expect(await storedRows('notes')).toEqual([]);
+
+      expect(cursor.fetch()).toEqual([['a']]);
+      await wait();
+      expect(await storedRows('notes')).toEqual([['a']]);
+    });
+
+    it('should postpone autosaving while a TEMP table exists', async () => {
+      const wait = () => new Promise((resolve) => setTimeout(resolve, 120));
+      await persistence.save(manager, 'notes');
+      manager.executeQuery('CREATE TEMP TABLE scratch (x)');
+      manager.executeQuery("INSERT INTO notes VALUES ('a')");
+
+      persistence.scheduleSave(manager);
+      await wait();
+      expect(await storedRows('notes')).toEqual([]);
+      expect(manager.executeQuery('SELECT count(*) FROM scratch').values).toEqual([[0]]);
+
+      manager.executeQuery('DROP TABLE scratch');
+      await wait();
+      expect(await storedRows('notes')).toEqual([['a']]);
+    });
+
+    it('should keep the connection PRAGMAs when saving', async () => {
+      manager.executeQuery('PRAGMA foreign_keys=ON');
+
+      await persistence.save(manager, 'notes');
+
+      expect(manager.executeQuery('PRAGMA foreign_keys').values).toEqual([[1]]);
+    });
+
+    it('should save pending changes before detaching', async () => {
+      await persistence.save(manager, 'notes');
+      manager.executeQuery("INSERT INTO notes VALUES ('pending')");
+      persistence.scheduleSave(manager);
+
+      await persistence.detach();
+
+      expect(persistence.currentName).toBeNull();
+      expect(await storedRows('notes')).toEqual([['pending']]);
+    });
+
+    it('should forget a removed database', async () => {
+      await persistence.save(manager, 'notes');
+
+      await persistence.remove('notes');
+
+      expect(persistence.currentName).toBeNull();
+      expect(persistence.getLastOpened()).toBeNull();
+      expect(await adapter.list()).toEqual([]);
+    });
+  });
+});
+
@@ -5,6 +5,7 @@ describe('QueryHistoryManager', () => {
   let historyManager: QueryHistoryManager;
 
   beforeEach(() => {
+    localStorage.clear();
     historyManager = new QueryHistoryManager(10);
   });
 
@@ -35,6 +36,19 @@ describe('QueryHistoryManager', () => {
       expect(history[0].result).toEqual(result);
     });
 
+    it('should record parameters', () => {
+      historyManager.add('SELECT * FROM users WHERE id = ?', 1, undefined, undefined, [42]);
+      const history = historyManager.getAll();
+      expect(history[0].params).toEqual([42]);
+    });
+
+    it('should keep runs of the same query with different parameters', () => {
+      historyManager.add('SELECT * FROM users WHERE id = ?', 1, undefined, undefined, [1]);
+      historyManager.add('SELECT * FROM users WHERE id = ?', 1, undefined, undefined, [2]);
+      historyManager.add('SELECT * FROM users WHERE id = ?', 1, undefined, undefined, [2]);
+      expect(historyManager.getAll()).toHaveLength(2);
+    });
+
     it('should add error to history', () => {
       historyManager.add('SELECT * FROM invalid', 1, undefined, 'Table not found');
       const history = historyManager.getAll();
@@ -53,6 +67,24 @@ describe('QueryHistoryManager', () => {
     });
   });
 
+  describe('storage', () => {
+    it('should reload history saved under the same key', () => {
+      historyManager.add('SELECT 1', 1);
+
+      expect(new QueryHistoryManager(10).getAll()).toHaveLength(1);
+    });
+
+    it('should keep histories with different keys apart', () => {
+      const other = new QueryHistoryManager(10, 'sqlite-visualizer-history:other');
+      other.add('SELECT 2', 1);
+
+      expect(new QueryHistoryManager(10).getAll()).toHaveLength(0);
+      expect(new QueryHistoryManager(10, 'sqlite-visualizer-history:other').getAll()).toHaveLength(
+        1
+      );
+    });
+  });
+
   describe('clear', () => {
     it('should clear all history', () => {
       historyManager.add('SELECT 1', 1);
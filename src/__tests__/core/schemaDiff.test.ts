@@ -0,0 +1,254 @@
+import { DatabaseManager } from '../../core/database';
+import {
+  countSchemaChanges,
+  diffLines,
+  diffSchemas,
+  formatCreateTable,
+  getObjectDdl,
+  normalizeSql,
+} from '../../core/schemaDiff';
+import { DatabaseSchema } from '../../types';
+import { loadRealSqlJs } from '../utils/sqlJs';
+
+const BASE = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, email TEXT UNIQUE);
+  CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id), body TEXT);
+  CREATE INDEX posts_user ON posts (user_id);
+  CREATE VIEW named AS SELECT id, name FROM users;
+  CREATE TRIGGER touch AFTER UPDATE ON users BEGIN SELECT 1; END;
+`;
+
+describe('schemaDiff', () => {
+  let manager: DatabaseManager;
+
+  const schemaOf = async (script: string): Promise<DatabaseSchema> => {
+    const other = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+    await other.initialize();
+    other.createDatabase();
+    other.executeScript(script);
+    const schema = other.getSchema();
+    other.close();
+    return schema;
+  };
+
+  beforeEach(async () => {
+    manager = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+    await manager.initialize();
+  });
+
+  afterEach(() => {
+    manager.close();
+  });
+
+  describe('diffSchemas', () => {
+    it('should find no changes between identical schemas', async () => {
+      const diff = diffSchemas(await schemaOf(BASE), await schemaOf(BASE));
+
+      expect(diff).toEqual({ tables: [], views: [], triggers: [] });
+      expect(countSchemaChanges(diff)).toEqual({ added: 0, removed: 0, changed: 0 });
+    });
+
+    it('should ignore layout, and the case of names and types', async () => {
+      const diff = diffSchemas(
+        await schemaOf(BASE),
+        await schemaOf(`
+          CREATE TABLE Users (
+            id integer PRIMARY KEY,
+            name text NOT NULL,
+            email text UNIQUE
+          );
+          CREATE TABLE posts (id INTEGER PRIMARY KEY,  user_id INTEGER REFERENCES users (id), body TEXT);
+          CREATE INDEX posts_user ON posts(user_id);
+          CREATE VIEW named AS SELECT id,name FROM users;
+          CREATE TRIGGER touch AFTER UPDATE ON users
+          BEGIN
+            SELECT 1;
+          END;
+        `)
+      );
+
+      expect(diff).toEqual({ tables: [], views: [], triggers: [] });
+    });
+
+    it('should report added, removed and changed objects', async () => {
+      const diff = diffSchemas(
+        await schemaOf(BASE),
+        await schemaOf(`
+          CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, email TEXT UNIQUE);
+          CREATE TABLE tags (name TEXT);
+          CREATE VIEW named AS SELECT id, name AS label FROM users;
+          CREATE VIEW emails AS SELECT email FROM users;
+          CREATE TRIGGER touch BEFORE UPDATE ON users BEGIN SELECT 1; END;
+        `)
+      );
+
+      expect(diff.tables.map(({ name, kind }) => [name, kind])).toEqual([
+        ['posts', 'removed'],
+        ['tags', 'added'],
+      ]);
+      expect(diff.tables[0].after).toBeNull();
+      expect(diff.tables[1].before).toBeNull();
+      expect(diff.views.map(({ name, kind, changes }) => [name, kind, changes])).toEqual([
+        ['emails', 'added', []],
+        ['named', 'changed', ['sql', 'columns']],
+      ]);
+      expect(diff.triggers.map(({ name, changes }) => [name, changes])).toEqual([
+        ['touch', ['timing', 'sql']],
+      ]);
+      expect(countSchemaChanges(diff)).toEqual({ added: 2, removed: 1, changed: 2 });
+    });
+
+    it('should report changes to columns, indexes and foreign keys', async () => {
+      const diff = diffSchemas(
+        await schemaOf(BASE),
+        await schemaOf(`
+          CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE, name TEXT, age INT DEFAULT 0);
+          CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id) ON DELETE CASCADE, body TEXT);
+          CREATE UNIQUE INDEX posts_user ON posts (user_id, body);
+          CREATE VIEW named AS SELECT id, name FROM users;
+          CREATE TRIGGER touch AFTER UPDATE ON users BEGIN SELECT 1; END;
+        `)
+      );
+      const [posts, users] = diff.tables;
+
+      expect(users.kind).toBe('changed');
+      expect(users.changes).toEqual([]);
+      expect(users.columns.map(({ name, kind, changes }) => [name, kind, changes])).toEqual([
+        ['email', 'changed', ['position']],
+        ['name', 'changed', ['notnull', 'position']],
+        ['age', 'added', []],
+      ]);
+      expect(users.indexes).toEqual([]);
+
+      expect(posts.indexes.map(({ name, changes }) => [name, changes])).toEqual([
+        ['posts_user', ['unique', 'keyColumns']],
+      ]);
+      expect(posts.foreignKeys.map(({ name, changes }) => [name, changes])).toEqual([
+        ['(user_id) → users', ['onDelete']],
+      ]);
+    });
+
+    it('should report whitespace changed inside string literals', async () => {
+      const diff = diffSchemas(
+        await schemaOf("CREATE TABLE t (a DEFAULT 'x  y', b CHECK (b <> 'p  q'))"),
+        await schemaOf("CREATE TABLE t (a DEFAULT 'x y', b CHECK (b <> 'p q'))")
+      );
+
+      expect(diff.tables[0].columns.map(({ name, changes }) => [name, changes])).toEqual([
+        ['a', ['dflt_value']],
+        ['b', ['checks']],
+      ]);
+    });
+
+    it('should match automatic indexes by their columns', async () => {
+      const diff = diffSchemas(
+        await schemaOf('CREATE TABLE t (a UNIQUE, b UNIQUE)'),
+        await schemaOf('CREATE TABLE t (b UNIQUE, a)')
+      );
+
+      expect(diff.tables[0].indexes.map(({ name, kind }) => [name, kind])).toEqual([
+        ['sqlite_autoindex_t_1', 'removed'],
+      ]);
+    });
+
+    it('should report a changed definition the other fields do not cover', async () => {
+      const diff = diffSchemas(
+        await schemaOf('CREATE TABLE t (a INTEGER PRIMARY KEY)'),
+        await schemaOf('CREATE TABLE t (a INTEGER PRIMARY KEY ON CONFLICT REPLACE)')
+      );
+
+      expect(diff.tables.map(({ name, changes }) => [name, changes])).toEqual([['t', ['sql']]]);
+    });
+
+    it('should compare the named schema on each side', async () => {
+      const before = await schemaOf(BASE);
+      const after = {
+        ...before,
+        tables: before.tables.map((table) => ({ ...table, schema: 'old' })),
+      };
+
+      expect(diffSchemas(before, after, { afterSchema: 'old' }).tables).toEqual([]);
+      expect(diffSchemas(after, before, { beforeSchema: 'old' }).tables).toEqual([]);
+      expect(diffSchemas(before, after).tables.map(({ name, kind }) => [name, kind])).toEqual([
+        ['posts', 'removed'],
+        ['users', 'removed'],
+      ]);
+    });
+  });
+
+  describe('DDL', () => {
+    it('should collapse whitespace in SQL', () => {
+      expect(normalizeSql('CREATE  TABLE t (\n  a ,\n  b\n) ;')).toBe('CREATE TABLE t(a,b);');
+    });
+
+    it('should keep whitespace inside quoted strings and identifiers', () => {
+      expect(
+        normalizeSql(`CREATE TABLE "a  b" (x DEFAULT 'it''s  ( 1 )' , -- it's
+  [y  z])`)
+      ).toBe(`CREATE TABLE "a  b"(x DEFAULT 'it''s  ( 1 )',-- it's [y  z])`);
+    });
+
+    it('should lay a CREATE TABLE out one column per line', () => {
+      expect(
+        formatCreateTable(`CREATE TABLE "a,b" (x DEFAULT ',', y CHECK (y IN (1, 2)), -- x, y
+z)`)
+      ).toBe(`CREATE TABLE "a,b" (\n  x DEFAULT ',',\n  y CHECK (y IN (1, 2)),\n  -- x, y\nz\n)`);
+      expect(formatCreateTable('CREATE VIRTUAL TABLE t USING fts5')).toBe(
+        'CREATE VIRTUAL TABLE t USING fts5'
+      );
+    });
+
+    it("should give a table's statements followed by its indexes", async () => {
+      const schema = await schemaOf(BASE);
+      const posts = schema.tables.find((table) => table.name === 'posts')!;
+
+      expect(getObjectDdl(posts)).toBe(
+        'CREATE TABLE posts (\n' +
+          '  id INTEGER PRIMARY KEY,\n' +
+          '  user_id INTEGER REFERENCES users(id),\n' +
+          '  body TEXT\n' +
+          ');\n' +
+          'CREATE INDEX posts_user ON posts (user_id);'
+      );
+      expect(getObjectDdl(schema.views[0])).toBe(
+        'CREATE VIEW named AS SELECT id, name FROM users;'
+      );
+    });
+
+    it('should pair differing lines side by side', () => {
+      expect(diffLines('a\nb\nc\nd', 'a\nB\nc\nd\ne')).toEqual([
+        { before: 'a', after: 'a', kind: 'same' },
+        { before: 'b', after: 'B', kind: 'changed' },
+        { before: 'c', after: 'c', kind: 'same' },
+        { before: 'd', after: 'd', kind: 'same' },
+        { before: null, after: 'e', kind: 'added' },
+      ]);
+      expect(diffLines('a\nb', '')).toEqual([
+        { before: 'a', after: null, kind: 'removed' },
+        { before: 'b', after: null, kind: 'removed' },
+      ]);
+    });
+  });
+
+  describe('readSchema', () => {
+    it('should read the schema of a database file without opening it', async () => {
+      const other = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+      await other.initialize();
+      other.createDatabase();
+      other.executeScript(BASE);
+      const data = other.saveDatabase();
+      other.close();
+
+      const schema = await manager.readSchema(data);
+
+      expect(schema.tables.map((table) => table.name)).toEqual(['posts', 'users']);
+      expect(manager.isLoaded()).toBe(false);
+    });
+
+    it('should reject a file that is not a database', async () => {
+      await expect(manager.readSchema(new Uint8Array(1024).fill(65))).rejects.toThrow(
+        'Failed to read database'
+      );
+    });
+  });
+});
@@ -14,6 +14,7 @@ describe('SQLAutocomplete', () => {
         tables: [
           {
             name: 'users',
+            schema: 'main',
             sql: 'CREATE TABLE users...',
             columns: [
               { name: 'id', type: 'INTEGER', notnull: true, dflt_value: null, pk: true },
@@ -21,8 +22,15 @@ describe('SQLAutocomplete', () => {
             ],
             indexes: [],
             foreignKeys: [],
+            primaryKey: ['id'],
+            checks: [],
+            strict: false,
+            withoutRowid: false,
           },
         ],
+        views: [],
+        triggers: [],
+        databases: ['main'],
         version: '1.0.0',
       };
 
@@ -44,12 +52,20 @@ describe('SQLAutocomplete', () => {
         tables: [
           {
             name: 'users',
+            schema: 'main',
             sql: 'CREATE TABLE users...',
             columns: [],
             indexes: [],
             foreignKeys: [],
+            primaryKey: [],
+            checks: [],
+            strict: false,
+            withoutRowid: false,
           },
         ],
+        views: [],
+        triggers: [],
+        databases: ['main'],
         version: '1.0.0',
       };
       autocomplete.updateSchema(schema);
@@ -57,6 +73,119 @@ describe('SQLAutocomplete', () => {
       const suggestions = autocomplete.getSuggestions('SELECT * FROM ', 15);
       expect(suggestions.some((s) => s.label === 'users' && s.type === 'table')).toBe(true);
     });
+
+    it('should suggest views after FROM and their columns after WHERE', () => {
+      autocomplete.updateSchema({
+        tables: [],
+        views: [
+          {
+            name: 'active_users',
+            schema: 'main',
+            sql: 'CREATE VIEW active_users AS ...',
+            columns: [
+              { name: 'email', type: '', notnull: false, dflt_value: null, pk: false },
+            ],
+          },
+        ],
+        triggers: [],
+        databases: ['main'],
+        version: '1.0.0',
+      });
+
+      expect(autocomplete.getSuggestions('SELECT * FROM act', 17)).toContainEqual({
+        label: 'active_users',
+        type: 'view',
+      });
+      const query = 'SELECT * FROM active_users WHERE em';
+      expect(autocomplete.getSuggestions(query, query.length)).toContainEqual({
+        label: 'email',
+        type: 'column',
+      });
+    });
+
+    it('should suggest triggers after DROP TRIGGER', () => {
+      autocomplete.updateSchema({
+        tables: [],
+        views: [],
+        triggers: [
+          {
+            name: 'users_audit',
+            schema: 'main',
+            table: 'users',
+            sql: 'CREATE TRIGGER users_audit ...',
+            timing: 'AFTER',
+            event: 'UPDATE',
+          },
+        ],
+        databases: ['main'],
+        version: '1.0.0',
+      });
+
+      expect(autocomplete.getSuggestions('DROP TRIGGER IF EXISTS us', 25)).toContainEqual({
+        label: 'users_audit',
+        type: 'trigger',
+      });
+    });
+
+    describe('with an attached database', () => {
+      const column = (name: string) => ({
+        name,
+        type: 'TEXT',
+        notnull: false,
+        dflt_value: null,
+        pk: false,
+      });
+      const table = (schema: string, name: string, columns: string[]) => ({
+        name,
+        schema,
+        sql: '',
+        columns: columns.map(column),
+        indexes: [],
+        foreignKeys: [],
+        primaryKey: [],
+        checks: [],
+        strict: false,
+        withoutRowid: false,
+      });
+
+      beforeEach(() => {
+        autocomplete.updateSchema({
+          tables: [table('main', 'users', ['name']), table('ref', 'countries', ['code'])],
+          views: [{ name: 'codes', schema: 'ref', sql: '', columns: [column('code')] }],
+          triggers: [],
+          databases: ['main', 'ref'],
+          version: '1.0.0',
+        });
+      });
+
+      it('should suggest qualified tables and schema names after FROM', () => {
+        const suggestions = autocomplete.getSuggestions('SELECT * FROM ', 14);
+
+        expect(suggestions).toContainEqual({ label: 'users', type: 'table' });
+        expect(suggestions).toContainEqual({ label: 'ref.countries', type: 'table' });
+        expect(suggestions).toContainEqual({ label: 'ref', type: 'schema' });
+      });
+
+      it('should suggest the tables and views of a schema after its name', () => {
+        const query = 'SELECT * FROM users JOIN ref.';
+
+        expect(autocomplete.getSuggestions(query, query.length)).toEqual([
+          { label: 'countries', type: 'table' },
+          { label: 'codes', type: 'view' },
+        ]);
+        expect(autocomplete.getSuggestions('SELECT * FROM ref.cou', 21)).toEqual([
+          { label: 'countries', type: 'table' },
+        ]);
+      });
+
+      it('should suggest columns of schema-qualified tables', () => {
+        const query = 'SELECT * FROM ref.countries WHERE co';
+
+        expect(autocomplete.getSuggestions(query, query.length)).toContainEqual({
+          label: 'code',
+          type: 'column',
+        });
+      });
+    });
   });
 });
-
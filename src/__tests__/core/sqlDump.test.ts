@@ -0,0 +1,114 @@
+import { DatabaseManager } from '../../core/database';
+import { runSqlDump } from '../../core/sqlDump';
+import { QueryInterruptedError } from '../../core/errors';
+import { loadRealSqlJs } from '../utils/sqlJs';
+
+// Shaped like the output of sqlite3's .dump command
+const DUMP = `PRAGMA foreign_keys=OFF;
+BEGIN TRANSACTION;
+CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+INSERT INTO users VALUES(1,'Ann; the first');
+INSERT INTO users VALUES(2,'Bob');
+CREATE TABLE log (entry TEXT);
+CREATE TRIGGER users_log AFTER INSERT ON users BEGIN
+  INSERT INTO log VALUES (NEW.name);
+END;
+COMMIT;
+`;
+
+describe('runSqlDump', () => {
+  let manager: DatabaseManager;
+
+  beforeEach(async () => {
+    manager = new DatabaseManager({ sqlJs: await loadRealSqlJs() });
+    await manager.initialize();
+    manager.createDatabase();
+  });
+
+  afterEach(() => {
+    manager.close();
+  });
+
+  it('should run a dump in batches and report progress', async () => {
+    const progress: number[] = [];
+
+    const result = await runSqlDump(manager, DUMP, {
+      batchSize: 3,
+      onProgress: ({ executed, total }) => progress.push(executed / total),
+    });
+
+    expect(result).toEqual({ executed: 8, total: 8, errors: [], stopped: false });
+    expect(progress).toEqual([0, 3 / 8, 6 / 8, 1]);
+    expect(manager.executeQuery('SELECT name FROM users ORDER BY id').values).toEqual([
+      ['Ann; the first'],
+      ['Bob'],
+    ]);
+    expect(manager.getSchema().triggers).toHaveLength(1);
+    expect(manager.getTransactionDepth()).toBe(0);
+  });
+
+  it('should stop at the first error and roll back the dump transaction', async () => {
+    const script = DUMP.replace("VALUES(2,'Bob')", "VALUES(2,'Bob', 'extra')");
+
+    const result = await runSqlDump(manager, script, { batchSize: 2 });
+
+    expect(result.stopped).toBe(true);
+    expect(result.executed).toBe(4);
+    expect(result.errors).toEqual([
+      {
+        line: 5,
+        sql: "INSERT INTO users VALUES(2,'Bob', 'extra')",
+        message: expect.stringContaining('table users has 2 columns but 3 values were supplied'),
+      },
+    ]);
+    expect(manager.getTransactionDepth()).toBe(0);
+    expect(manager.getSchema().tables).toEqual([]);
+  });
+
+  it('should report every failing line and run the rest when continuing', async () => {
+    const script =
+      'CREATE TABLE t (x);\n\nINSERT INTO missing VALUES (1);\n' +
+      'INSERT INTO t VALUES (1);\n/* note */ SELEC 2;\nINSERT INTO t VALUES (2);';
+
+    const result = await runSqlDump(manager, script, { stopOnError: false });
+
+    expect(result.stopped).toBe(false);
+    expect(result.executed).toBe(3);
+    expect(result.errors.map((error) => error.line)).toEqual([3, 5]);
+    expect(manager.executeQuery('SELECT count(*) FROM t').values).toEqual([[2]]);
+  });
+
+  it('should load an exported SQL file', async () => {
+    manager.executeScript(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE INDEX users_name ON users (name);
+      INSERT INTO users (name) VALUES ('Ann'), ('O''Brien');
+    `);
+    const exported = manager.exportDatabase({ format: 'sql' });
+    manager.createDatabase();
+
+    const result = await runSqlDump(manager, exported);
+
+    expect(result.errors).toEqual([]);
+    expect(manager.executeQuery('SELECT name FROM users ORDER BY id').values).toEqual([
+      ['Ann'],
+      ["O'Brien"],
+    ]);
+    expect(manager.getTableInfo('users')!.indexes).toHaveLength(1);
+  });
+
+  it('should stop and roll back when cancelled', async () => {
+    const controller = new AbortController();
+
+    const loading = runSqlDump(manager, DUMP, {
+      batchSize: 2,
+      signal: controller.signal,
+      onProgress: ({ executed }) => executed >= 2 && controller.abort(),
+    });
+
+    await expect(loading).rejects.toThrow(QueryInterruptedError);
+    expect(manager.getTransactionDepth()).toBe(0);
+    expect(manager.getSchema().tables).toEqual([]);
+  });
+});
+
@@ -0,0 +1,203 @@
+import {
+  splitStatements,
+  stripLeadingComments,
+  classifyStatement,
+  classifyStatements,
+  isWriteKind,
+  tokenize,
+  getVirtualTableModule,
+  describeTrigger,
+  orderByViewReferences,
+  parseIndexDefinition,
+  parseTableDefinition,
+} from '../../core/sqlParser';
+
+describe('sqlParser', () => {
+  describe('splitStatements', () => {
+    it('should split statements on semicolons', () => {
+      const statements = splitStatements('SELECT 1; SELECT 2;\nSELECT 3');
+      expect(statements.map((s) => s.sql)).toEqual(['SELECT 1', 'SELECT 2', 'SELECT 3']);
+    });
+
+    it('should report the starting line of each statement', () => {
+      const statements = splitStatements('SELECT 1;\n\nSELECT 2;');
+      expect(statements.map((s) => s.line)).toEqual([1, 3]);
+    });
+
+    it('should ignore semicolons in strings, identifiers and comments', () => {
+      const script = [
+        "INSERT INTO t VALUES ('a;b', \"c;d\");",
+        '-- comment; here',
+        'SELECT [x;y] FROM t /* ; */;',
+      ].join('\n');
+      const statements = splitStatements(script);
+      expect(statements).toHaveLength(2);
+      expect(statements[1].sql).toBe('-- comment; here\nSELECT [x;y] FROM t /* ; */');
+    });
+
+    it('should handle escaped quotes', () => {
+      const statements = splitStatements("SELECT 'it''s; fine'; SELECT 2");
+      expect(statements.map((s) => s.sql)).toEqual(["SELECT 'it''s; fine'", 'SELECT 2']);
+    });
+
+    it('should keep trigger bodies in one statement', () => {
+      const script = `CREATE TRIGGER trg AFTER INSERT ON t BEGIN
+        UPDATE t SET x = CASE WHEN new.y > 0 THEN 1 ELSE 0 END;
+        DELETE FROM log;
+      END;
+      SELECT 1;`;
+      const statements = splitStatements(script);
+      expect(statements).toHaveLength(2);
+      expect(statements[0].sql.endsWith('END')).toBe(true);
+      expect(statements[1].sql).toBe('SELECT 1');
+    });
+
+    it('should skip empty and comment-only statements', () => {
+      expect(splitStatements(';;  -- only a comment\n;')).toEqual([]);
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should skip comments and keep strings and identifiers whole', () => {
+      const tokens = tokenize(`SELECT "a b", 'x -- y' -- trailing\nFROM t`);
+      expect(tokens.map((t) => t.value)).toEqual(['SELECT', '"a b"', ',', "'x -- y'", 'FROM', 't']);
+      expect(tokens[1].type).toBe('identifier');
+      expect(tokens[3].type).toBe('string');
+    });
+  });
+
+  describe('classifyStatement', () => {
+    it.each([
+      ['SELECT 1', 'SELECT', 'query'],
+      ['VALUES (1), (2)', 'VALUES', 'query'],
+      ['-- note\n/* x */ select 1', 'SELECT', 'query'],
+      ['PRAGMA table_info(users)', 'PRAGMA', 'pragma'],
+      ['INSERT INTO t VALUES (1) RETURNING id', 'INSERT', 'dml'],
+      ['CREATE TABLE t (x)', 'CREATE', 'ddl'],
+      ['BEGIN TRANSACTION', 'BEGIN', 'transaction'],
+      ['VACUUM', 'VACUUM', 'other'],
+    ])('should classify %s', (sql, keyword, kind) => {
+      expect(classifyStatement(sql)).toEqual({ keyword, kind });
+    });
+
+    it('should look through WITH clauses to the main statement', () => {
+      expect(classifyStatement('WITH x AS (SELECT 1) SELECT * FROM x')).toEqual({
+        keyword: 'SELECT',
+        kind: 'query',
+      });
+      expect(
+        classifyStatement('WITH RECURSIVE old(id) AS (SELECT id FROM t) DELETE FROM t')
+      ).toEqual({ keyword: 'DELETE', kind: 'dml' });
+    });
+
+    it('should classify every statement of a script', () => {
+      const kinds = classifyStatements('SELECT 1; EXPLAIN SELECT 2; DELETE FROM t; -- done');
+
+      expect(kinds).toEqual(['query', 'explain', 'dml']);
+      expect(kinds.map(isWriteKind)).toEqual([false, false, true]);
+    });
+  });
+
+  describe('stripLeadingComments', () => {
+    it('should remove leading comments and whitespace', () => {
+      expect(stripLeadingComments('  -- note\n /* block */ SELECT 1')).toBe('SELECT 1');
+    });
+  });
+
+  describe('getVirtualTableModule', () => {
+    it('should return the lower-cased module name', () => {
+      expect(getVirtualTableModule('CREATE VIRTUAL TABLE docs USING FTS5(title, body)')).toBe(
+        'fts5'
+      );
+      expect(
+        getVirtualTableModule('CREATE VIRTUAL TABLE IF NOT EXISTS "geo" USING rtree(id, x1, x2)')
+      ).toBe('rtree');
+    });
+
+    it('should ignore ordinary tables', () => {
+      expect(getVirtualTableModule('CREATE TABLE using_table (x)')).toBeUndefined();
+    });
+  });
+
+  describe('describeTrigger', () => {
+    it('should read timing and event', () => {
+      expect(describeTrigger('CREATE TRIGGER t AFTER DELETE ON users BEGIN SELECT 1; END')).toEqual(
+        { timing: 'AFTER', event: 'DELETE' }
+      );
+      expect(
+        describeTrigger('CREATE TRIGGER t INSTEAD OF UPDATE OF name ON v BEGIN SELECT 1; END')
+      ).toEqual({ timing: 'INSTEAD OF', event: 'UPDATE' });
+    });
+
+    it('should default to BEFORE and ignore words in the body', () => {
+      expect(
+        describeTrigger('CREATE TRIGGER insert_log INSERT ON users BEGIN DELETE FROM log; END')
+      ).toEqual({ timing: 'BEFORE', event: 'INSERT' });
+    });
+  });
+
+  describe('orderByViewReferences', () => {
+    it('should put each view after the views it names', () => {
+      const views = [
+        { name: 'a', sql: 'CREATE VIEW a AS SELECT * FROM "B Two" JOIN c' },
+        { name: 'B Two', sql: 'CREATE VIEW "B Two" AS SELECT * FROM [C]' },
+        { name: 'c', sql: 'CREATE VIEW c AS SELECT 1' },
+        { name: 'd', sql: "CREATE VIEW d AS SELECT 'a' FROM t" },
+      ];
+
+      expect(orderByViewReferences(views).map((view) => view.name)).toEqual([
+        'c',
+        'B Two',
+        'a',
+        'd',
+      ]);
+    });
+  });
+
+  describe('parseTableDefinition', () => {
+    it('should read column collations, checks, generated expressions and AUTOINCREMENT', () => {
+      const definition = parseTableDefinition(`CREATE TABLE t (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        "Name" VARCHAR(20) DEFAULT ('x') COLLATE NOCASE CHECK (length("Name") > 0),
+        upper_name TEXT GENERATED ALWAYS AS (upper("Name")) STORED,
+        CONSTRAINT positive CHECK (id > 0),
+        UNIQUE (id, "Name")
+      ) STRICT, WITHOUT ROWID`);
+
+      expect(definition.columns.get('id')).toEqual({ checks: [], autoincrement: true });
+      expect(definition.columns.get('name')).toEqual({
+        collation: 'NOCASE',
+        checks: ['length("Name") > 0'],
+        autoincrement: false,
+      });
+      expect(definition.columns.get('upper_name')?.generated).toBe('upper("Name")');
+      expect(definition.checks).toEqual(['id > 0']);
+      expect(definition.strict).toBe(true);
+      expect(definition.withoutRowid).toBe(true);
+    });
+
+    it('should declare nothing for CREATE TABLE ... AS SELECT', () => {
+      const definition = parseTableDefinition('CREATE TABLE copy AS SELECT max(a) FROM t');
+      expect(definition.columns.size).toBe(0);
+      expect(definition.strict).toBe(false);
+    });
+  });
+
+  describe('parseIndexDefinition', () => {
+    it('should strip collation and sort order from each term', () => {
+      expect(
+        parseIndexDefinition(
+          'CREATE INDEX i ON t ("first name" COLLATE NOCASE, substr(x, 1, 2) DESC, y ASC)'
+        )
+      ).toEqual({ terms: ['"first name"', 'substr(x, 1, 2)', 'y'] });
+    });
+
+    it('should read the WHERE clause of a partial index', () => {
+      expect(parseIndexDefinition('CREATE UNIQUE INDEX i ON t (a) WHERE b IN (1, 2);')).toEqual({
+        terms: ['a'],
+        where: 'b IN (1, 2)',
+      });
+    });
+  });
+});
+
@@ -0,0 +1,228 @@
+import {
+  quoteIdentifier,
+  quoteQualified,
+  qualifiedName,
+  getAttachName,
+  unquoteIdentifier,
+  parseBindParams,
+  getColumnFlags,
+  describeColumn,
+  formatIndexKey,
+  describeIndex,
+  getForeignKeyActions,
+  describeForeignKey,
+  orderByForeignKeys,
+  formatSqlLiteral,
+} from '../../core/sqlUtils';
+import { ForeignKeyInfo } from '../../types';
+
+describe('sqlUtils', () => {
+  describe('quoteIdentifier', () => {
+    it('should wrap identifiers in double quotes', () => {
+      expect(quoteIdentifier('users')).toBe('"users"');
+    });
+
+    it('should escape embedded double quotes', () => {
+      expect(quoteIdentifier('my "table"')).toBe('"my ""table"""');
+    });
+  });
+
+  describe('qualified names', () => {
+    it('should quote schema and name separately', () => {
+      expect(quoteQualified('ref', 'my table')).toBe('"ref"."my table"');
+    });
+
+    it('should qualify names outside the main database', () => {
+      expect(qualifiedName({ schema: 'main', name: 'users' })).toBe('users');
+      expect(qualifiedName({ schema: 'ref', name: 'countries' })).toBe('ref.countries');
+    });
+
+    it('should name an attached file after it, avoiding names in use', () => {
+      expect(getAttachName('app v2.sqlite', [])).toBe('app_v2');
+      expect(getAttachName('2024.db', [])).toBe('_2024');
+      expect(getAttachName('Main.db', ['main_2'])).toBe('Main_3');
+    });
+  });
+
+  describe('orderByForeignKeys', () => {
+    const table = (name: string, ...parents: string[]) => ({
+      name,
+      foreignKeys: parents.map((to) => ({ to }) as ForeignKeyInfo),
+    });
+
+    it('should put referenced tables first and keep the order otherwise', () => {
+      const ordered = orderByForeignKeys([
+        table('a_items', 'orders', 'products'),
+        table('orders', 'Users'),
+        table('products'),
+        table('users'),
+      ]);
+
+      expect(ordered.map((t) => t.name)).toEqual(['users', 'orders', 'products', 'a_items']);
+    });
+
+    it('should tolerate cycles, self references and unknown tables', () => {
+      const ordered = orderByForeignKeys([
+        table('a', 'b'),
+        table('b', 'a'),
+        table('tree', 'tree', 'missing'),
+      ]);
+
+      expect(ordered.map((t) => t.name)).toEqual(['b', 'a', 'tree']);
+    });
+  });
+
+  describe('unquoteIdentifier', () => {
+    it('should strip each quoting style', () => {
+      expect(unquoteIdentifier('"my table"')).toBe('my table');
+      expect(unquoteIdentifier('`x`')).toBe('x');
+      expect(unquoteIdentifier('[x y]')).toBe('x y');
+      expect(unquoteIdentifier("'x'")).toBe('x');
+      expect(unquoteIdentifier('plain')).toBe('plain');
+    });
+
+    it('should undouble embedded quotes', () => {
+      expect(unquoteIdentifier('"say ""hi"""')).toBe('say "hi"');
+    });
+  });
+
+  describe('column descriptions', () => {
+    const column = {
+      name: 'slug',
+      type: 'TEXT',
+      notnull: true,
+      dflt_value: null,
+      pk: false,
+      generated: 'STORED' as const,
+      generatedExpression: 'lower(name)',
+      collation: 'NOCASE',
+      checks: ["slug <> ''"],
+    };
+
+    it('should list the flags a column declares', () => {
+      expect(getColumnFlags(column)).toEqual(['GENERATED STORED', 'COLLATE NOCASE', 'CHECK']);
+      expect(
+        getColumnFlags({ ...column, generated: undefined, collation: undefined, checks: [] })
+      ).toEqual([]);
+    });
+
+    it('should describe a column in DDL form', () => {
+      expect(describeColumn(column)).toBe(
+        "slug TEXT NOT NULL COLLATE NOCASE CHECK (slug <> '') GENERATED ALWAYS AS (lower(name)) STORED"
+      );
+      expect(
+        describeColumn({
+          name: 'id',
+          type: 'INTEGER',
+          notnull: false,
+          dflt_value: null,
+          pk: true,
+          autoincrement: true,
+        })
+      ).toBe('id INTEGER PRIMARY KEY AUTOINCREMENT');
+    });
+  });
+
+  describe('formatIndexKey', () => {
+    it('should show collations and DESC only when they differ from the default', () => {
+      const index = {
+        name: 'i',
+        unique: false,
+        columns: ['lower(name)', 'email'],
+        keyColumns: [
+          { name: null, expression: 'lower(name)', desc: true, collation: 'BINARY' },
+          { name: 'email', desc: false, collation: 'NOCASE' },
+        ],
+        origin: 'c' as const,
+        partial: false,
+        sql: null,
+      };
+      expect(formatIndexKey(index)).toBe('lower(name) DESC, email COLLATE NOCASE');
+    });
+  });
+
+  describe('describeIndex', () => {
+    const base = {
+      name: 'i',
+      unique: true,
+      columns: ['email'],
+      keyColumns: [{ name: 'email', desc: false, collation: 'BINARY' }],
+      partial: false,
+      sql: null,
+    };
+
+    it('should include the WHERE clause of a partial index', () => {
+      expect(describeIndex({ ...base, origin: 'c', partial: true, where: 'active = 1' })).toBe(
+        'UNIQUE INDEX i (email) WHERE active = 1'
+      );
+    });
+
+    it('should name the constraint an automatic index enforces', () => {
+      expect(describeIndex({ ...base, origin: 'pk' })).toBe('UNIQUE INDEX i (email) [PRIMARY KEY]');
+    });
+  });
+
+  describe('foreign keys', () => {
+    const fk = {
+      id: 0,
+      from: 'grants',
+      to: 'members',
+      columns: [
+        { from: 'member_org', to: 'org_id' },
+        { from: 'member_user', to: 'user_id' },
+      ],
+      onUpdate: 'NO ACTION' as const,
+      onDelete: 'CASCADE' as const,
+      match: 'NONE',
+    };
+
+    it('should list only actions other than NO ACTION', () => {
+      expect(getForeignKeyActions(fk)).toEqual(['ON DELETE CASCADE']);
+      expect(getForeignKeyActions({ ...fk, onDelete: 'NO ACTION' })).toEqual([]);
+    });
+
+    it('should describe every column pair', () => {
+      expect(describeForeignKey(fk)).toBe(
+        '(member_org, member_user) → members(org_id, user_id) ON DELETE CASCADE'
+      );
+    });
+  });
+
+  describe('parseBindParams', () => {
+    it('should return undefined for blank input', () => {
+      expect(parseBindParams('  ')).toBeUndefined();
+    });
+
+    it('should parse positional parameters', () => {
+      expect(parseBindParams('[1, "Alice", null]')).toEqual([1, 'Alice', null]);
+    });
+
+    it('should parse named parameters', () => {
+      expect(parseBindParams('{":id": 1, "$name": "Bob"}')).toEqual({ ':id': 1, $name: 'Bob' });
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseBindParams('[1,')).toThrow('Invalid parameters JSON');
+    });
+
+    it('should reject scalars and nested values', () => {
+      expect(() => parseBindParams('5')).toThrow('must be a JSON array or object');
+      expect(() => parseBindParams('[[1]]')).toThrow('Unsupported parameter value');
+    });
+  });
+
+  describe('formatSqlLiteral', () => {
+    it('should write values as quote() does', () => {
+      expect(formatSqlLiteral(null)).toBe('NULL');
+      expect(formatSqlLiteral(42)).toBe('42');
+      expect(formatSqlLiteral(-1.5)).toBe('-1.5');
+      expect(formatSqlLiteral("it's")).toBe("'it''s'");
+      expect(formatSqlLiteral(new Uint8Array([0, 171]))).toBe("X'00AB'");
+    });
+
+    it('should write infinities as out of range reals', () => {
+      expect(formatSqlLiteral(Infinity)).toBe('9.0e+999');
+      expect(formatSqlLiteral(-Infinity)).toBe('-9.0e+999');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { TransactionTracker, runTransaction, TransactionControl } from '../../core/transaction';
+
+describe('transaction', () => {
+  describe('TransactionTracker', () => {
+    let tracker: TransactionTracker;
+
+    beforeEach(() => {
+      tracker = new TransactionTracker();
+    });
+
+    it('should follow BEGIN, COMMIT and ROLLBACK', () => {
+      tracker.apply('BEGIN IMMEDIATE');
+      expect(tracker.depth).toBe(1);
+      tracker.apply('COMMIT');
+      expect(tracker.depth).toBe(0);
+
+      tracker.apply('begin transaction');
+      tracker.apply('END');
+      expect(tracker.depth).toBe(0);
+
+      tracker.apply('BEGIN');
+      tracker.apply('ROLLBACK TRANSACTION');
+      expect(tracker.depth).toBe(0);
+    });
+
+    it('should follow nested savepoints by name', () => {
+      tracker.apply('BEGIN');
+      tracker.apply('SAVEPOINT a');
+      tracker.apply('SAVEPOINT "B"');
+      tracker.apply('SAVEPOINT c');
+      expect(tracker.depth).toBe(4);
+      expect(tracker.innermostSavepoint).toBe('c');
+
+      // Rolling back keeps the savepoint open
+      tracker.apply('ROLLBACK TO SAVEPOINT b');
+      expect(tracker.depth).toBe(3);
+      expect(tracker.innermostSavepoint).toBe('b');
+
+      // Releasing an outer savepoint releases the inner ones
+      tracker.apply('RELEASE A');
+      expect(tracker.depth).toBe(1);
+      expect(tracker.innermostSavepoint).toBeNull();
+    });
+
+    it('should treat a savepoint outside a transaction as starting one', () => {
+      tracker.apply('SAVEPOINT outer');
+      expect(tracker.depth).toBe(1);
+      tracker.apply('RELEASE SAVEPOINT outer');
+      expect(tracker.depth).toBe(0);
+    });
+  });
+
+  describe('runTransaction', () => {
+    function createControl(): TransactionControl & { log: string[] } {
+      let depth = 0;
+      const log: string[] = [];
+      return {
+        log,
+        beginTransaction: () => {
+          depth++;
+          log.push('begin');
+        },
+        commit: () => {
+          depth--;
+          log.push('commit');
+        },
+        rollback: () => {
+          depth--;
+          log.push('rollback');
+        },
+        getTransactionDepth: () => depth,
+      };
+    }
+
+    it('should commit when the callback resolves', async () => {
+      const control = createControl();
+      await expect(runTransaction(control, 'tx', async (tx) => `${tx}!`)).resolves.toBe('tx!');
+      expect(control.log).toEqual(['begin', 'commit']);
+    });
+
+    it('should roll back every level the callback opened when it throws', async () => {
+      const control = createControl();
+      const failing = runTransaction(control, null, async () => {
+        await control.beginTransaction();
+        throw new Error('boom');
+      });
+
+      await expect(failing).rejects.toThrow('boom');
+      expect(control.log).toEqual(['begin', 'begin', 'rollback', 'rollback']);
+      expect(control.getTransactionDepth()).toBe(0);
+    });
+  });
+});
+
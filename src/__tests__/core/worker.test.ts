@@ -0,0 +1,308 @@
+import { exposeDatabaseWorker } from '../../core/worker';
+import { WorkerDatabaseManager } from '../../core/workerClient';
+import { QueryInterruptedError } from '../../core/errors';
+import { loadRealSqlJs } from '../utils/sqlJs';
+import { createWorkerPair } from '../utils/worker';
+
+describe('WorkerDatabaseManager', () => {
+  let client: WorkerDatabaseManager;
+  let pair: ReturnType<typeof createWorkerPair>;
+
+  beforeEach(async () => {
+    pair = createWorkerPair();
+    exposeDatabaseWorker(pair.scope, { sqlJs: await loadRealSqlJs() });
+    client = new WorkerDatabaseManager(pair.worker);
+    await client.initialize();
+  });
+
+  it('should execute queries in the worker', async () => {
+    await client.createDatabase();
+    expect(client.isLoaded()).toBe(true);
+
+    await client.executeQuery('CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)');
+    await client.executeQuery('INSERT INTO users (name) VALUES (?)', ['Ann']);
+    const result = await client.executeQuery('SELECT name FROM users');
+
+    expect(result.values).toEqual([['Ann']]);
+    const schema = await client.getSchema();
+    expect(schema.tables.map((t) => t.name)).toEqual(['users']);
+  });
+
+  it('should round-trip binary databases', async () => {
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+    const bytes = await client.saveDatabase();
+
+    await client.loadDatabase(bytes);
+
+    expect((await client.getTableInfo('t'))?.columns.map((c) => c.name)).toEqual(['x']);
+  });
+
+  it('should attach databases in the worker', async () => {
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+    const reference = await client.saveDatabase();
+
+    await client.attachDatabase('ref', reference);
+    await client.executeQuery('INSERT INTO ref.t VALUES (1)');
+
+    expect((await client.getSchema()).databases).toEqual(['main', 'ref']);
+    expect(await client.getTableInfo('t', 'ref')).toMatchObject({ schema: 'ref' });
+    expect((await client.executeQuery('SELECT x FROM ref.t')).values).toEqual([[1]]);
+
+    await client.detachDatabase('ref');
+    expect((await client.getSchema()).databases).toEqual(['main']);
+  });
+
+  it('should stream rows in batches from the worker', async () => {
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+    await client.executeQuery('INSERT INTO t VALUES (1), (2), (3)');
+
+    const batches = [];
+    for await (const batch of client.streamQuery('SELECT x FROM t', undefined, { batchSize: 2 })) {
+      batches.push(batch);
+    }
+
+    expect(batches).toEqual([
+      { columns: ['x'], rows: [[1], [2]] },
+      { columns: ['x'], rows: [[3]] },
+    ]);
+  });
+
+  it('should close the worker cursor when iteration stops early', async () => {
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+    await client.executeQuery('INSERT INTO t VALUES (1), (2), (3)');
+
+    for await (const batch of client.streamQuery('SELECT x FROM t', undefined, { batchSize: 1 })) {
+      expect(batch.rows).toEqual([[1]]);
+      break;
+    }
+
+    // A write would fail with "database table is locked" if the cursor were still open
+    await expect(client.executeQuery('DROP TABLE t')).resolves.toBeDefined();
+  });
+
+  it('should fail a stream whose worker cursor is closed by saving', async () => {
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+    await client.executeQuery('INSERT INTO t VALUES (1), (2), (3)');
+    const stream = client.streamQuery('SELECT x FROM t', undefined, { batchSize: 1 });
+
+    expect((await stream.next()).value).toEqual({ columns: ['x'], rows: [[1]] });
+    await client.saveDatabase();
+    await expect(stream.next()).rejects.toThrow('Cursor was closed before every row was read');
+  });
+
+  it('should stream an export in chunks from the worker', async () => {
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+    await client.executeQuery("INSERT INTO t VALUES (1), ('two'), (X'03')");
+
+    const chunks = [];
+    for await (const chunk of client.streamExport({ format: 'sql', batchSize: 1 })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((chunk) => chunk.text).join('')).toBe(await client.exportDatabase());
+    expect(chunks.filter((chunk) => chunk.progress.table === 't')).toHaveLength(3);
+  });
+
+  it('should close the worker export when iteration stops early', async () => {
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+    await client.executeQuery('INSERT INTO t VALUES (1), (2), (3)');
+
+    for await (const chunk of client.streamExport({ batchSize: 1 })) {
+      if (chunk.progress.rows) {
+        break;
+      }
+    }
+
+    await expect(client.executeQuery('DROP TABLE t')).resolves.toBeDefined();
+  });
+
+  it('should run transactions in the worker', async () => {
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+
+    await expect(
+      client.transaction(async (tx) => {
+        await tx.executeQuery('INSERT INTO t VALUES (1)');
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    await client.transaction((tx) => tx.executeQuery('INSERT INTO t VALUES (2)'));
+
+    expect((await client.executeQuery('SELECT x FROM t')).values).toEqual([[2]]);
+    expect(await client.getTransactionDepth()).toBe(0);
+  });
+
+  it('should reject with the worker error message', async () => {
+    await client.createDatabase();
+    await expect(client.executeQuery('SELECT * FROM missing')).rejects.toThrow(
+      'no such table: missing'
+    );
+  });
+
+  it('should fail pending calls when the worker errors or terminates', async () => {
+    const first = client.getSchema();
+    pair.emitError('script failed');
+    await expect(first).rejects.toThrow('Database worker error: script failed');
+
+    const second = client.getSchema();
+    client.terminate();
+    await expect(second).rejects.toThrow('Database worker terminated');
+    expect(pair.worker.terminate).toHaveBeenCalled();
+  });
+});
+
+describe('WorkerDatabaseManager with a worker factory', () => {
+  let client: WorkerDatabaseManager;
+  let pairs: Array<ReturnType<typeof createWorkerPair>>;
+
+  beforeEach(async () => {
+    const sqlJs = await loadRealSqlJs();
+    pairs = [];
+    client = new WorkerDatabaseManager(() => {
+      const pair = createWorkerPair();
+      exposeDatabaseWorker(pair.scope, { sqlJs });
+      pairs.push(pair);
+      return pair.worker;
+    });
+    await client.initialize();
+    await client.createDatabase();
+    await client.executeQuery('CREATE TABLE t (x)');
+    await client.executeQuery('INSERT INTO t VALUES (1)');
+  });
+
+  it('should report that queries can be cancelled', () => {
+    expect(client.canCancel()).toBe(true);
+    expect(new WorkerDatabaseManager(createWorkerPair().worker).canCancel()).toBe(false);
+  });
+
+  it('should restart the worker on cancel and restore the last checkpoint', async () => {
+    const controller = new AbortController();
+    // A cancellable call saves a checkpoint first, as the table has changed
+    await client.executeQuery('SELECT 1', undefined, { signal: controller.signal });
+    pairs[0].stall();
+
+    const running = client.executeQuery('INSERT INTO t VALUES (2)', undefined, {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(running).rejects.toBeInstanceOf(QueryInterruptedError);
+    await expect(running).rejects.toMatchObject({ reason: 'cancelled' });
+    expect(pairs[0].worker.terminate).toHaveBeenCalled();
+    expect(pairs).toHaveLength(2);
+
+    const result = await client.executeQuery('SELECT x FROM t');
+    expect(result.values).toEqual([[1]]);
+    expect(client.isLoaded()).toBe(true);
+  });
+
+  it('should discard an open transaction when restarting', async () => {
+    await client.beginTransaction();
+    await client.executeQuery('INSERT INTO t VALUES (2)');
+    expect(await client.getTransactionDepth()).toBe(1);
+
+    const controller = new AbortController();
+    pairs[0].stall();
+    const running = client.executeQuery('SELECT x FROM t', undefined, {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    await expect(running).rejects.toThrow('Query cancelled');
+
+    expect(await client.getTransactionDepth()).toBe(0);
+    expect((await client.executeQuery('SELECT x FROM t')).values).toEqual([[1]]);
+  });
+
+  it('should keep TEMP tables and PRAGMAs when every call can be cancelled', async () => {
+    const options = { signal: new AbortController().signal };
+    await client.executeQuery('PRAGMA foreign_keys=ON', undefined, options);
+    await client.executeQuery('CREATE TEMP TABLE scratch (x)', undefined, options);
+    await client.executeQuery('INSERT INTO scratch VALUES (1)', undefined, options);
+    await client.executeQuery('INSERT INTO t VALUES (2)', undefined, options);
+
+    expect((await client.executeQuery('SELECT x FROM scratch', undefined, options)).values).toEqual(
+      [[1]]
+    );
+    expect((await client.executeQuery('PRAGMA foreign_keys', undefined, options)).values).toEqual([
+      [1],
+    ]);
+  });
+
+  it('should apply the connection PRAGMAs again after restarting', async () => {
+    await client.executeQuery('PRAGMA foreign_keys=ON');
+    const controller = new AbortController();
+    await client.executeQuery('SELECT 1', undefined, { signal: controller.signal });
+    pairs[0].stall('executeQuery');
+
+    const running = client.executeQuery('SELECT x FROM t', undefined, {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort();
+
+    await expect(running).rejects.toThrow('Query cancelled');
+    expect(pairs).toHaveLength(2);
+    expect((await client.executeQuery('PRAGMA foreign_keys')).values).toEqual([[1]]);
+  });
+
+  it('should not restore a checkpoint older than a write in a failed query', async () => {
+    await client.executeQuery('SELECT 1', undefined, { signal: new AbortController().signal });
+    await expect(
+      client.executeQuery('INSERT INTO t VALUES (2); SELECT * FROM missing')
+    ).rejects.toThrow();
+
+    const controller = new AbortController();
+    // Saves a fresh checkpoint including the row written before the failure
+    await client.executeQuery('SELECT 1', undefined, { signal: controller.signal });
+    pairs[0].stall('executeQuery');
+    const running = client.executeQuery('SELECT x FROM t', undefined, {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort();
+
+    await expect(running).rejects.toThrow('Query cancelled');
+    expect((await client.executeQuery('SELECT x FROM t')).values).toEqual([[1], [2]]);
+  });
+
+  it('should not save a checkpoint while a cursor is open', async () => {
+    await client.executeQuery('INSERT INTO t VALUES (2), (3)');
+    const batches = client.streamQuery('SELECT x FROM t', undefined, { batchSize: 1 });
+    const rows = [(await batches.next()).value!.rows];
+
+    await client.executeQuery('INSERT INTO t VALUES (4)', undefined, {
+      signal: new AbortController().signal,
+    });
+    for await (const batch of batches) {
+      rows.push(batch.rows);
+    }
+
+    expect(rows).toEqual([[[1]], [[2]], [[3]], [[4]]]);
+  });
+
+  it('should fail other calls in flight when restarting', async () => {
+    const controller = new AbortController();
+    await client.executeQuery('SELECT 1', undefined, { signal: controller.signal });
+    pairs[0].stall();
+
+    const running = client.executeQuery('SELECT x FROM t', undefined, {
+      signal: controller.signal,
+    });
+    const schema = client.getSchema();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(running).rejects.toThrow('Query cancelled');
+    await expect(schema).rejects.toThrow('Database worker restarted');
+  });
+});
+
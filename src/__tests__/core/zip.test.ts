@@ -0,0 +1,63 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { ZipWriter, crc32, toFileNames } from '../../core/zip';
+import { readZip } from '../utils/zip';
+
+Object.assign(globalThis, { TextEncoder });
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('zip', () => {
+  describe('crc32', () => {
+    it('should compute CRC-32 in one pass or across parts', () => {
+      expect(crc32(encode('123456789'))).toBe(0xcbf43926);
+      expect(crc32(encode('6789'), crc32(encode('12345')))).toBe(0xcbf43926);
+      expect(crc32(new Uint8Array())).toBe(0);
+    });
+  });
+
+  describe('toFileNames', () => {
+    it('should replace characters file systems reject and suffix clashing names', () => {
+      expect(
+        toFileNames(['users', 'a/b', 'A:B', 'Users', '', '..hidden', 'tab\there'], '.csv')
+      ).toEqual([
+        'users.csv',
+        'a_b.csv',
+        'A_B_2.csv',
+        'Users_2.csv',
+        '_.csv',
+        '_hidden.csv',
+        'tab_here.csv',
+      ]);
+    });
+  });
+
+  describe('ZipWriter', () => {
+    it('should write files that read back with their names and contents', () => {
+      const zip = new ZipWriter(new Date(2024, 4, 17, 13, 45, 30));
+      const parts = [
+        ...zip.addFile('users.csv', [encode('id,name\r\n'), encode('1,Ann\r\n')]),
+        ...zip.addFile('empty.csv', []),
+        ...zip.addFile('données.csv', [encode('é')]),
+        zip.finish(),
+      ];
+      const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+      parts.reduce((offset, part) => {
+        bytes.set(part, offset);
+        return offset + part.length;
+      }, 0);
+
+      const files = readZip(bytes);
+      const text = (name: string) => new TextDecoder().decode(files[name]);
+
+      expect(Object.keys(files)).toEqual(['users.csv', 'empty.csv', 'données.csv']);
+      expect(text('users.csv')).toBe('id,name\r\n1,Ann\r\n');
+      expect(text('empty.csv')).toBe('');
+      expect(text('données.csv')).toBe('é');
+      // CRC of the stored bytes, and the modification time in DOS format
+      const view = new DataView(bytes.buffer);
+      expect(view.getUint32(14, true)).toBe(crc32(encode('id,name\r\n1,Ann\r\n')));
+      expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+      expect(view.getUint16(12, true)).toBe((44 << 9) | (5 << 5) | 17);
+    });
+  });
+});
@@ -10,12 +10,14 @@ jest.mock('sql.js', () => {
         Database: jest.fn().mockImplementation(() => ({
           exec: jest.fn(() => []),
           prepare: jest.fn(() => ({
+            bind: jest.fn(() => true),
             step: jest.fn(() => false),
             get: jest.fn(() => []),
             getColumnNames: jest.fn(() => []),
             free: jest.fn(),
           })),
           run: jest.fn(),
+          getRowsModified: jest.fn(() => 0),
           export: jest.fn(() => new Uint8Array()),
           close: jest.fn(),
         })),
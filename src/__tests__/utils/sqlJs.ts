@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+import type { SqlJsStatic } from 'sql.js';
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load the real sql.js engine (bypassing the global mock in setup.ts)
+ * from the local WASM binary, shared across tests
+ */
+export function loadRealSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    const actual = jest.requireActual('sql.js');
+    const initSqlJs = actual.default || actual;
+    const wasmBinary = fs.readFileSync(
+      path.join(__dirname, '../../../node_modules/sql.js/dist/sql-wasm.wasm')
+    );
+    sqlJsPromise = initSqlJs({ wasmBinary });
+  }
+  return sqlJsPromise!;
+}
+
@@ -0,0 +1,43 @@
+import { WorkerMethod, WorkerRequest, WorkerScope } from '../../core/worker';
+import { WorkerLike } from '../../core/workerClient';
+
+type Listener = (event: { data?: unknown; message?: string }) => void;
+
+/**
+ * Connect a client and a worker scope through asynchronous in-memory messaging
+ */
+export function createWorkerPair() {
+  const clientListeners: Record<string, Listener[]> = { message: [], error: [] };
+  const workerListeners: Listener[] = [];
+
+  const scope: WorkerScope = {
+    addEventListener: (_type, listener) => workerListeners.push(listener as Listener),
+    postMessage: (message) =>
+      setTimeout(() => clientListeners.message.forEach((l) => l({ data: message })), 0),
+  };
+
+  // While stalled the worker never answers, like one stuck in a long query
+  let stalled: WorkerMethod | boolean = false;
+
+  const worker: WorkerLike & { terminate: jest.Mock } = {
+    addEventListener: (type, listener) => clientListeners[type].push(listener),
+    postMessage: (message) =>
+      setTimeout(() => {
+        const { method } = message as WorkerRequest;
+        if (stalled !== true && stalled !== method) {
+          workerListeners.forEach((l) => l({ data: message }));
+        }
+      }, 0),
+    terminate: jest.fn(),
+  };
+
+  return {
+    scope,
+    worker,
+    /** Stop answering every request, or only requests for `method` */
+    stall: (method?: WorkerMethod) => {
+      stalled = method ?? true;
+    },
+    emitError: (message: string) => clientListeners.error.forEach((l) => l({ message })),
+  };
+}
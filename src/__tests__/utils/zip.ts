@@ -0,0 +1,34 @@
+import { TextDecoder } from 'util';
+
+/**
+ * Read the files of a zip with stored (uncompressed) entries, checking that the
+ * central directory and the local headers agree
+ */
+export function readZip(bytes: Uint8Array): Record<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  const files: Record<string, Uint8Array> = {};
+  let position = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = new TextDecoder().decode(
+      bytes.subarray(position + 46, position + 46 + nameLength)
+    );
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint16(offset + 8, true)).toBe(0);
+    expect(view.getUint32(offset + 18, true)).toBe(size);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    files[name] = bytes.slice(start, start + size);
+    position += 46 + nameLength;
+  }
+
+  return files;
+}
@@ -0,0 +1,450 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import styled from 'styled-components';
+import { useSQLite } from '../../context/SQLiteContext';
+import { formatDataPatch } from '../../core/dataDiff';
+import { formatHex } from '../../core/format';
+import { getAttachName } from '../../core/sqlUtils';
+import { RowChangeKind, RowDiff, SqlValue, TableDataDiff } from '../../types';
+import { theme } from '../../styles/theme';
+
+// Rows of each kind shown; counts and patches cover every row
+const MAX_SHOWN_ROWS = 1000;
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  height: 100%;
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.md};
+  overflow: hidden;
+  background: ${theme.colors.white};
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing.md};
+  padding: ${theme.spacing.md};
+  border-bottom: 1px solid ${theme.colors.border};
+  background: ${theme.colors.light};
+  flex-wrap: wrap;
+`;
+
+const Label = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing.sm};
+  font-size: 14px;
+  color: ${theme.colors.text};
+`;
+
+const Select = styled.select`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.sm};
+  background: ${theme.colors.white};
+  font-size: 14px;
+  cursor: pointer;
+  min-width: 140px;
+`;
+
+const Button = styled.button`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  background: ${theme.colors.white};
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.sm};
+  cursor: pointer;
+  font-size: 14px;
+  transition: all 0.2s ease;
+
+  &:hover:not(:disabled) {
+    background: ${theme.colors.light};
+    border-color: ${theme.colors.primary};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const FileInput = styled.input`
+  display: none;
+`;
+
+const Summary = styled.div`
+  margin-left: auto;
+  font-size: 12px;
+  color: ${theme.colors.textLight};
+`;
+
+const TableContainer = styled.div`
+  flex: 1;
+  overflow: auto;
+  position: relative;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 13px;
+`;
+
+const TableHeader = styled.thead`
+  background: ${theme.colors.light};
+  position: sticky;
+  top: 0;
+  z-index: 10;
+`;
+
+const TableHeaderCell = styled.th`
+  padding: ${theme.spacing.md};
+  text-align: left;
+  font-weight: 600;
+  border-bottom: 2px solid ${theme.colors.border};
+  white-space: nowrap;
+`;
+
+const ColumnMeta = styled.div`
+  font-size: 10px;
+  font-weight: normal;
+  color: ${theme.colors.textLight};
+`;
+
+const TableRow = styled.tr<{ kind: RowChangeKind }>`
+  background: ${(props) => ROW_TINTS[props.kind]};
+`;
+
+const TableCell = styled.td<{ changed?: boolean }>`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  border-bottom: 1px solid ${theme.colors.border};
+  font-family: ${theme.fonts.mono};
+  font-size: 12px;
+  background: ${(props) => (props.changed ? CHANGED_TINT : 'transparent')};
+`;
+
+const KindCell = styled(TableCell)<{ kind: RowChangeKind }>`
+  width: 16px;
+  font-weight: 600;
+  color: ${(props) => KIND_COLORS[props.kind]};
+`;
+
+const OldValue = styled.div`
+  color: ${theme.colors.danger};
+  text-decoration: line-through;
+`;
+
+const Null = styled.span`
+  color: ${theme.colors.textLight};
+  font-style: italic;
+`;
+
+const Footer = styled.div`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  border-top: 1px solid ${theme.colors.border};
+  background: ${theme.colors.light};
+  font-size: 12px;
+  color: ${theme.colors.textLight};
+`;
+
+const EmptyState = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+  color: ${theme.colors.textLight};
+  padding: ${theme.spacing.xxl};
+`;
+
+const ErrorMessage = styled.div`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  background: #fee;
+  color: ${theme.colors.danger};
+  font-size: 14px;
+`;
+
+const KIND_COLORS: Record<RowChangeKind, string> = {
+  inserted: theme.colors.success,
+  deleted: theme.colors.danger,
+  modified: theme.colors.warning,
+};
+
+const KIND_SYMBOLS: Record<RowChangeKind, string> = {
+  inserted: '+',
+  deleted: '−',
+  modified: '~',
+};
+
+const ROW_TINTS: Record<RowChangeKind, string> = {
+  inserted: '#dcfce7',
+  deleted: '#fee2e2',
+  modified: 'transparent',
+};
+
+const CHANGED_TINT = '#fef3c7';
+
+const renderValue = (value: SqlValue) =>
+  value === null ? (
+    <Null>NULL</Null>
+  ) : value instanceof Uint8Array ? (
+    formatHex(value)
+  ) : (
+    String(value)
+  );
+
+interface DataDiffViewProps {
+  /** Table to compare, in both databases */
+  tableName?: string;
+  /** Database holding the older rows; defaults to the first attached database */
+  beforeSchema?: string;
+  /** Database holding the newer rows; defaults to main */
+  afterSchema?: string;
+  /** Named connection to use; defaults to the provider's active connection */
+  connection?: string;
+}
+
+/**
+ * DataDiffView - Compares the rows of a table in two databases attached side by
+ * side, highlighting changed values, and exports the differences as a SQL patch
+ */
+export const DataDiffView: React.FC<DataDiffViewProps> = ({
+  tableName,
+  beforeSchema,
+  afterSchema,
+  connection,
+}) => {
+  const { getSchema, isLoaded, attachDatabase, diffTableData, diffDatabaseData } =
+    useSQLite(connection);
+  const schema = getSchema();
+  const attachedNames = schema.databases.filter((name) => name !== 'main');
+  const [before, setBefore] = useState(beforeSchema || '');
+  const [after, setAfter] = useState(afterSchema || 'main');
+  const [selectedTable, setSelectedTable] = useState(tableName || '');
+  const [shown, setShown] = useState<RowChangeKind | ''>('');
+  const [diff, setDiff] = useState<TableDataDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Until a database is chosen, compare the first attached copy with main
+  const beforeName = before || attachedNames[0] || 'main';
+
+  const tables = useMemo(() => {
+    const inBefore = new Set(
+      schema.tables
+        .filter((table) => table.schema === beforeName)
+        .map((table) => table.name.toLowerCase())
+    );
+    return schema.tables
+      .filter((table) => table.schema === after && inBefore.has(table.name.toLowerCase()))
+      .map((table) => table.name);
+  }, [schema, beforeName, after]);
+  const table = tables.includes(selectedTable) ? selectedTable : tables[0] || '';
+
+  useEffect(() => {
+    if (!isLoaded || !table || beforeName === after) {
+      setDiff(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setDiff(null);
+    setIsLoading(true);
+    setError(null);
+    const beforeTable =
+      schema.tables.find(
+        (candidate) =>
+          candidate.schema === beforeName && candidate.name.toLowerCase() === table.toLowerCase()
+      )?.name ?? table;
+    diffTableData({
+      table: beforeTable,
+      afterTable: table,
+      beforeSchema: beforeName,
+      afterSchema: after,
+      limit: MAX_SHOWN_ROWS,
+      signal: controller.signal,
+    })
+      .then(setDiff)
+      .catch((err: any) => {
+        if (!controller.signal.aborted) {
+          setDiff(null);
+          setError(err.message || 'Failed to compare rows');
+        }
+      })
+      .finally(() => !controller.signal.aborted && setIsLoading(false));
+
+    return () => controller.abort();
+  }, [isLoaded, schema, table, beforeName, after, diffTableData]);
+
+  const handleAttachSelect = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      const name = getAttachName(file.name, attachedNames);
+      try {
+        await attachDatabase(name, await file.arrayBuffer());
+        setBefore(name);
+      } catch (err: any) {
+        setError(`Failed to attach database: ${err.message}`);
+      }
+    },
+    [attachDatabase, attachedNames]
+  );
+
+  const handleExportPatch = useCallback(async () => {
+    try {
+      const diffs = await diffDatabaseData({ beforeSchema: beforeName, afterSchema: after });
+      const blob = new Blob([formatDataPatch(diffs)], { type: 'application/sql' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${beforeName}_to_${after}.sql`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(`Failed to write patch: ${err.message}`);
+    }
+  }, [diffDatabaseData, beforeName, after]);
+
+  const renderCell = (row: RowDiff, index: number) => {
+    const name = diff!.columns[index];
+    if (row.kind !== 'modified' || !row.changedColumns.includes(name)) {
+      return <TableCell key={name}>{renderValue((row.after ?? row.before)![index])}</TableCell>;
+    }
+    return (
+      <TableCell key={name} changed>
+        <OldValue>{renderValue(row.before![index])}</OldValue>
+        {renderValue(row.after![index])}
+      </TableCell>
+    );
+  };
+
+  if (!isLoaded) {
+    return (
+      <Container>
+        <EmptyState>Load a database to compare its rows</EmptyState>
+      </Container>
+    );
+  }
+
+  const rows = diff ? diff.rows.filter((row) => !shown || row.kind === shown) : [];
+  const counts = diff?.counts;
+  const databases = schema.databases.length ? schema.databases : ['main'];
+
+  return (
+    <Container>
+      <Toolbar>
+        <Label>
+          Before
+          <Select value={beforeName} onChange={(e) => setBefore(e.target.value)}>
+            {databases.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </Select>
+        </Label>
+        <Label>
+          After
+          <Select value={after} onChange={(e) => setAfter(e.target.value)}>
+            {databases.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </Select>
+        </Label>
+        <Button onClick={() => fileInputRef.current?.click()}>Attach Copy...</Button>
+        <FileInput
+          ref={fileInputRef}
+          type="file"
+          accept=".db,.sqlite,.sqlite3"
+          onChange={handleAttachSelect}
+        />
+        <Select
+          value={table}
+          onChange={(e) => setSelectedTable(e.target.value)}
+          disabled={!tables.length}
+        >
+          {!tables.length && <option value="">No tables in common</option>}
+          {tables.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </Select>
+        <Select value={shown} onChange={(e) => setShown(e.target.value as RowChangeKind | '')}>
+          <option value="">All changes</option>
+          <option value="inserted">Inserted</option>
+          <option value="deleted">Deleted</option>
+          <option value="modified">Modified</option>
+        </Select>
+        <Button onClick={handleExportPatch} disabled={beforeName === after || !tables.length}>
+          Export SQL Patch
+        </Button>
+        {counts && (
+          <Summary>
+            {counts.inserted.toLocaleString()} inserted · {counts.deleted.toLocaleString()} deleted
+            · {counts.modified.toLocaleString()} modified
+          </Summary>
+        )}
+      </Toolbar>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+
+      {beforeName === after ? (
+        <EmptyState>Attach a copy of the database, or choose two databases to compare</EmptyState>
+      ) : !table ? (
+        <EmptyState>
+          {beforeName} and {after} have no tables in common
+        </EmptyState>
+      ) : isLoading ? (
+        <EmptyState>Comparing rows...</EmptyState>
+      ) : diff && !diff.rows.length ? (
+        <EmptyState>
+          The rows of {table} are the same in {beforeName} and {after}
+        </EmptyState>
+      ) : diff ? (
+        <>
+          <TableContainer>
+            <Table>
+              <TableHeader>
+                <tr>
+                  <TableHeaderCell />
+                  {diff.rowid && <TableHeaderCell>{diff.keyColumns[0]}</TableHeaderCell>}
+                  {diff.columns.map((name) => (
+                    <TableHeaderCell key={name}>
+                      {name}
+                      {diff.keyColumns.includes(name) && <ColumnMeta>Key</ColumnMeta>}
+                    </TableHeaderCell>
+                  ))}
+                </tr>
+              </TableHeader>
+              <tbody>
+                {rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex} kind={row.kind}>
+                    <KindCell kind={row.kind} title={row.kind}>
+                      {KIND_SYMBOLS[row.kind]}
+                    </KindCell>
+                    {diff.rowid && <TableCell>{renderValue(row.key[0])}</TableCell>}
+                    {diff.columns.map((_name, index) => renderCell(row, index))}
+                  </TableRow>
+                ))}
+              </tbody>
+            </Table>
+          </TableContainer>
+          {diff.truncated && (
+            <Footer>
+              Showing the first {MAX_SHOWN_ROWS.toLocaleString()} rows of each kind; the patch
+              covers every row
+            </Footer>
+          )}
+        </>
+      ) : null}
+    </Container>
+  );
+};
+
@@ -1,8 +1,20 @@
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import styled from 'styled-components';
 import { useSQLite } from '../../context/SQLiteContext';
+import {
+  quoteIdentifier,
+  quoteQualified,
+  qualifiedName,
+  getColumnFlags,
+  describeColumn,
+} from '../../core/sqlUtils';
+import { exportResultToBlob, getExporter, getExporters } from '../../core/exporters';
+import { ColumnInfo, DatabaseSchema, TableInfo, ViewInfo } from '../../types';
 import { theme } from '../../styles/theme';
 
+// Rows kept in memory for client-side filtering and sorting
+const MAX_LOADED_ROWS = 10000;
+
 const Container = styled.div`
   display: flex;
   flex-direction: column;
@@ -111,6 +123,27 @@ const TableHeaderCell = styled.th<{ sortable?: boolean; sorted?: 'asc' | 'desc'
   }
 `;
 
+const ColumnMeta = styled.div`
+  font-size: 10px;
+  font-weight: normal;
+  color: ${theme.colors.textLight};
+`;
+
+/**
+ * Type, key position and constraint flags shown under a column header
+ */
+function getColumnMeta(column: ColumnInfo, compositeKey: boolean): string {
+  const key = column.pk && (compositeKey ? `PK ${column.pkOrder}` : 'PK');
+  return [column.type, key, ...getColumnFlags(column)].filter(Boolean).join(' · ');
+}
+
+/**
+ * Table or view selected by its qualified name (bare for the main database)
+ */
+function findSource(schema: DatabaseSchema, key: string): TableInfo | ViewInfo | undefined {
+  return [...schema.tables, ...schema.views].find((source) => qualifiedName(source) === key);
+}
+
 const TableCell = styled.td`
   padding: ${theme.spacing.sm} ${theme.spacing.md};
   border-bottom: 1px solid ${theme.colors.border};
@@ -178,8 +211,11 @@ const EmptyState = styled.div`
 `;
 
 interface DataExplorerProps {
+  /** Table or view to show; schema.name for one in an attached database */
   tableName?: string;
   onTableChange?: (tableName: string) => void;
+  /** Named connection to use; defaults to the provider's active connection */
+  connection?: string;
 }
 
 type SortConfig = {
@@ -190,9 +226,15 @@ type SortConfig = {
 /**
  * DataExplorer - Table viewer with filtering, sorting, and pagination
  */
-export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableChange }) => {
-  const { getSchema, executeQuery, db } = useSQLite();
+export const DataExplorer: React.FC<DataExplorerProps> = ({
+  tableName,
+  onTableChange,
+  connection,
+}) => {
+  const { getSchema, streamQuery, isLoaded } = useSQLite(connection);
   const [selectedTable, setSelectedTable] = useState<string>(tableName || '');
+  // Database whose tables are listed; empty for all of them
+  const [database, setDatabase] = useState<string>('');
   const [data, setData] = useState<any[][]>([]);
   const [columns, setColumns] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -202,19 +244,32 @@ export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableCh
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(50);
   const [selectedRow, setSelectedRow] = useState<number | null>(null);
+  const [exportFormat, setExportFormat] = useState('csv');
+  // Identifies the latest load so a superseded stream stops
+  const loadIdRef = useRef(0);
 
   const schema = getSchema();
-  const tables = schema.tables.map((t) => t.name);
-
-  // Load table data when table changes
+  const inDatabase = (source: TableInfo | ViewInfo) => !database || source.schema === database;
+  const tables = schema.tables.filter(inDatabase);
+  const views = schema.views.filter(inDatabase);
+
+  // Schema details for the selected table's columns, by name
+  const columnInfo = useMemo(() => {
+    const source = findSource(schema, selectedTable);
+    return new Map((source?.columns || []).map((column) => [column.name, column]));
+  }, [schema, selectedTable]);
+  const compositeKey = Array.from(columnInfo.values()).filter((column) => column.pk).length > 1;
+
+  // Load table data when the table changes, or when a database is loaded or its
+  // schema re-read, which gives a new schema object
   useEffect(() => {
-    if (selectedTable && db) {
+    if (selectedTable && isLoaded) {
       loadTableData(selectedTable);
     } else {
       setData([]);
       setColumns([]);
     }
-  }, [selectedTable, db]);
+  }, [selectedTable, isLoaded, schema]);
 
   // Update when prop changes
   useEffect(() => {
@@ -225,23 +280,48 @@ export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableCh
 
   const loadTableData = useCallback(
     async (table: string) => {
+      const loadId = ++loadIdRef.current;
       setIsLoading(true);
       setError(null);
+      setData([]);
+      setCurrentPage(1);
 
       try {
-        const result = await executeQuery(`SELECT * FROM ${table} LIMIT 10000`);
-        setColumns(result.columns);
-        setData(result.values);
-        setCurrentPage(1);
+        // Show the first batch right away and append the rest as it streams in
+        let loaded = 0;
+        const source = findSource(getSchema(), table);
+        const from = source ? quoteQualified(source.schema, source.name) : quoteIdentifier(table);
+        for await (const batch of streamQuery(`SELECT * FROM ${from}`)) {
+          if (loadId !== loadIdRef.current) break;
+
+          const rows = batch.rows.slice(0, MAX_LOADED_ROWS - loaded);
+          loaded += rows.length;
+          setColumns(batch.columns);
+          setData((previous) => previous.concat(rows));
+          setIsLoading(false);
+
+          if (loaded >= MAX_LOADED_ROWS) break;
+        }
+
+        if (loadId === loadIdRef.current && loaded === 0) {
+          // No rows; take the column names from the schema
+          // Hidden columns are not part of SELECT *
+          const visible = source ? source.columns.filter((c) => !c.hidden) : [];
+          setColumns(visible.map((c) => c.name));
+        }
       } catch (err: any) {
-        setError(err.message || 'Failed to load table data');
-        setData([]);
-        setColumns([]);
+        if (loadId === loadIdRef.current) {
+          setError(err.message || 'Failed to load table data');
+          setData([]);
+          setColumns([]);
+        }
       } finally {
-        setIsLoading(false);
+        if (loadId === loadIdRef.current) {
+          setIsLoading(false);
+        }
       }
     },
-    [executeQuery]
+    [streamQuery, getSchema]
   );
 
   const handleTableChange = useCallback(
@@ -255,6 +335,17 @@ export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableCh
     [onTableChange]
   );
 
+  const handleDatabaseChange = useCallback(
+    (newDatabase: string) => {
+      setDatabase(newDatabase);
+      const source = findSource(getSchema(), selectedTable);
+      if (newDatabase && source && source.schema !== newDatabase) {
+        handleTableChange('');
+      }
+    },
+    [getSchema, selectedTable, handleTableChange]
+  );
+
   // Filter and sort data
   const processedData = useMemo(() => {
     let processed = [...data];
@@ -325,24 +416,20 @@ export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableCh
   const handleExport = useCallback(() => {
     if (processedData.length === 0) return;
 
-    // Export as CSV
-    const csvRows: string[] = [];
-    csvRows.push(columns.join(','));
-    processedData.forEach((row) => {
-      csvRows.push(row.map((cell) => (cell === null ? '' : String(cell))).join(','));
+    // Formats that name the rows, like INSERT statements, get the bare table name
+    const source = findSource(getSchema(), selectedTable);
+    const blob = exportResultToBlob({ columns, values: processedData }, exportFormat, {
+      table: source?.name || selectedTable,
     });
-
-    const csv = csvRows.join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${selectedTable || 'data'}.csv`;
+    a.download = `${selectedTable || 'data'}${getExporter(exportFormat).extension}`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [processedData, columns, selectedTable]);
+  }, [processedData, columns, selectedTable, exportFormat, getSchema]);
 
-  if (!db) {
+  if (!isLoaded) {
     return (
       <Container>
         <EmptyState>Load or create a database to explore data</EmptyState>
@@ -350,7 +437,7 @@ export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableCh
     );
   }
 
-  if (tables.length === 0) {
+  if (schema.tables.length === 0 && schema.views.length === 0) {
     return (
       <Container>
         <EmptyState>No tables in database</EmptyState>
@@ -361,13 +448,40 @@ export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableCh
   return (
     <Container>
       <Toolbar>
+        {schema.databases.length > 1 && (
+          <Select
+            value={database}
+            onChange={(e) => handleDatabaseChange(e.target.value)}
+            style={{ minWidth: '140px' }}
+          >
+            <option value="">All databases</option>
+            {schema.databases.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </Select>
+        )}
+
         <Select value={selectedTable} onChange={(e) => handleTableChange(e.target.value)}>
           <option value="">Select a table...</option>
-          {tables.map((table) => (
-            <option key={table} value={table}>
-              {table}
-            </option>
-          ))}
+          <optgroup label="Tables">
+            {tables.map((table) => (
+              <option key={qualifiedName(table)} value={qualifiedName(table)}>
+                {database ? table.name : qualifiedName(table)}
+                {table.virtualModule && ` (${table.virtualModule})`}
+              </option>
+            ))}
+          </optgroup>
+          {views.length > 0 && (
+            <optgroup label="Views">
+              {views.map((view) => (
+                <option key={qualifiedName(view)} value={qualifiedName(view)}>
+                  {database ? view.name : qualifiedName(view)}
+                </option>
+              ))}
+            </optgroup>
+          )}
         </Select>
 
         <Input
@@ -380,8 +494,15 @@ export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableCh
           }}
         />
 
+        <Select value={exportFormat} onChange={(e) => setExportFormat(e.target.value)}>
+          {getExporters().map((exporter) => (
+            <option key={exporter.id} value={exporter.id}>
+              {exporter.label}
+            </option>
+          ))}
+        </Select>
         <Button onClick={handleExport} disabled={processedData.length === 0}>
-          Export CSV
+          Export
         </Button>
 
         <div style={{ marginLeft: 'auto', fontSize: '12px', color: theme.colors.textLight }}>
@@ -405,16 +526,22 @@ export const DataExplorer: React.FC<DataExplorerProps> = ({ tableName, onTableCh
             <Table>
               <TableHeader>
                 <tr>
-                  {columns.map((column) => (
-                    <TableHeaderCell
-                      key={column}
-                      sortable
-                      sorted={sortConfig?.column === column ? sortConfig.direction : undefined}
-                      onClick={() => handleSort(column)}
-                    >
-                      {column}
-                    </TableHeaderCell>
-                  ))}
+                  {columns.map((column) => {
+                    const info = columnInfo.get(column);
+
+                    return (
+                      <TableHeaderCell
+                        key={column}
+                        sortable
+                        sorted={sortConfig?.column === column ? sortConfig.direction : undefined}
+                        onClick={() => handleSort(column)}
+                        title={info && describeColumn(info)}
+                      >
+                        {column}
+                        {info && <ColumnMeta>{getColumnMeta(info, compositeKey)}</ColumnMeta>}
+                      </TableHeaderCell>
+                    );
+                  })}
                 </tr>
               </TableHeader>
               <tbody>
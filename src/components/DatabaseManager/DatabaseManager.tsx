@@ -1,6 +1,22 @@
 import React, { useCallback, useRef } from 'react';
 import styled from 'styled-components';
 import { useSQLite } from '../../context/SQLiteContext';
+import { formatBytes, formatPercent } from '../../core/format';
+import { readCSV, CsvTable, resolveCsvWriteOptions } from '../../core/csv';
+import { getExporters, isResultFormat } from '../../core/exporters';
+import { getAttachName } from '../../core/sqlUtils';
+import {
+  CsvWriteOptions,
+  DatabaseSchema,
+  DatabaseStatistics,
+  ExportProgress,
+  ImportColumn,
+  ImportOptions,
+  ImportResult,
+  ObjectStatistics,
+  SqlDumpError,
+  SqlDumpProgress,
+} from '../../types';
 import { theme } from '../../styles/theme';
 
 const Container = styled.div`
@@ -93,9 +109,485 @@ const StatusMessage = styled.div<{ type?: 'success' | 'error' }>`
       : theme.colors.text};
 `;
 
+const StorageSummary = styled.div`
+  font-size: 14px;
+  color: ${theme.colors.text};
+`;
+
+const StorageNote = styled.div`
+  font-size: 12px;
+  color: ${theme.colors.textLight};
+`;
+
+const StorageTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 13px;
+
+  th,
+  td {
+    padding: ${theme.spacing.xs} ${theme.spacing.sm};
+    border-bottom: 1px solid ${theme.colors.border};
+    text-align: right;
+  }
+
+  th:first-child,
+  td:first-child {
+    text-align: left;
+  }
+
+  th {
+    font-weight: 600;
+    background: ${theme.colors.light};
+  }
+`;
+
+const AttachedList = styled.ul`
+  margin: 0;
+  padding: 0;
+  list-style: none;
+  font-size: 14px;
+`;
+
+const AttachedItem = styled.li`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing.sm};
+  padding: ${theme.spacing.xs} 0;
+  border-bottom: 1px solid ${theme.colors.border};
+
+  code {
+    flex: 1;
+  }
+`;
+
+const NameInput = styled.input`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.sm};
+  font-size: 14px;
+`;
+
+const Label = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing.xs};
+  font-size: 14px;
+  color: ${theme.colors.text};
+`;
+
+const PreviewScroll = styled.div`
+  overflow-x: auto;
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.sm};
+`;
+
+const PreviewTable = styled.table`
+  border-collapse: collapse;
+  font-size: 13px;
+  white-space: nowrap;
+
+  th,
+  td {
+    padding: ${theme.spacing.xs} ${theme.spacing.sm};
+    border-bottom: 1px solid ${theme.colors.border};
+    text-align: left;
+  }
+
+  th {
+    font-weight: 600;
+    background: ${theme.colors.light};
+  }
+
+  td {
+    max-width: 240px;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+`;
+
+const ErrorList = styled.ul`
+  margin: 0;
+  padding-left: ${theme.spacing.lg};
+  max-height: 160px;
+  overflow-y: auto;
+  font-size: 13px;
+  color: ${theme.colors.danger};
+`;
+
+const IndexName = styled.span`
+  padding-left: ${theme.spacing.md};
+  color: ${theme.colors.textLight};
+`;
+
+/**
+ * A storage table row; sizes read "-" when dbstat is unavailable
+ */
+const StorageRow: React.FC<{ stats: ObjectStatistics; isIndex?: boolean }> = ({
+  stats,
+  isIndex,
+}) => (
+  <tr>
+    <td>
+      {isIndex ? (
+        <IndexName>{stats.name}</IndexName>
+      ) : stats.schema === 'main' ? (
+        stats.name
+      ) : (
+        `${stats.schema}.${stats.name}`
+      )}
+    </td>
+    <td>{stats.rowCount === null ? '-' : stats.rowCount.toLocaleString()}</td>
+    <td>{stats.pageCount === null ? '-' : stats.pageCount.toLocaleString()}</td>
+    <td>{stats.sizeBytes === null ? '-' : formatBytes(stats.sizeBytes)}</td>
+  </tr>
+);
+
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+
+/**
+ * Whether a file holds SQL text to run rather than a database file: .sql files,
+ * and files without the SQLite header and a database extension
+ */
+const isSqlDump = (fileName: string, bytes: Uint8Array): boolean => {
+  if (/\.sql$/i.test(fileName)) return true;
+  const hasHeader = String.fromCharCode(...Array.from(bytes.subarray(0, 16))) === SQLITE_HEADER;
+  return bytes.length > 0 && !hasHeader && !/\.(db|sqlite3?)$/i.test(fileName);
+};
+
+const downloadBytes = (data: Uint8Array, fileName: string) => {
+  const blob = new Blob([data as BlobPart], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+  { value: '|', label: 'Pipe' },
+];
+
+const IMPORT_TYPES = ['INTEGER', 'REAL', 'TEXT', 'NUMERIC', 'BLOB'];
+
+// Rows shown in the import preview, and row errors listed after an import
+const PREVIEW_ROWS = 5;
+const LISTED_ERRORS = 50;
+
+interface CsvImportWizardProps {
+  fileName: string;
+  text: string;
+  schema: DatabaseSchema;
+  importRows: (rows: string[][], options: ImportOptions) => Promise<ImportResult>;
+  onStatus: (text: string, type: 'success' | 'error') => void;
+  onClose: () => void;
+}
+
+/**
+ * Parse a CSV or TSV file, then map its columns onto a new or existing table
+ * and import it, listing the rows that could not be inserted
+ */
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({
+  fileName,
+  text,
+  schema,
+  importRows,
+  onStatus,
+  onClose,
+}) => {
+  // Empty delimiter and null header mean "detect"
+  const [delimiter, setDelimiter] = React.useState(/\.tsv$/i.test(fileName) ? '\t' : '');
+  const [header, setHeader] = React.useState<boolean | null>(null);
+  const [createTable, setCreateTable] = React.useState(true);
+  const [tableName, setTableName] = React.useState(
+    fileName.replace(/\.[^.]*$/, '').trim() || 'imported'
+  );
+  const [targetTable, setTargetTable] = React.useState('');
+  const [names, setNames] = React.useState<string[]>([]);
+  const [types, setTypes] = React.useState<string[]>([]);
+  const [targets, setTargets] = React.useState<string[]>([]);
+  const [importing, setImporting] = React.useState(false);
+  const [result, setResult] = React.useState<ImportResult | null>(null);
+
+  const [parsed, parseError] = React.useMemo((): [CsvTable | null, string | null] => {
+    try {
+      return [
+        readCSV(text, { delimiter: delimiter || undefined, header: header ?? undefined }),
+        null,
+      ];
+    } catch (err: any) {
+      return [null, err.message];
+    }
+  }, [text, delimiter, header]);
+
+  const tables = schema.tables.filter((table) => table.schema === 'main' && !table.virtualModule);
+  const target = tables.find((table) => table.name === targetTable) || null;
+
+  // Start from the file's column names and inferred types
+  React.useEffect(() => {
+    setNames(parsed ? parsed.columns : []);
+    setTypes(parsed ? parsed.affinities : []);
+    setResult(null);
+  }, [parsed]);
+
+  // Match file columns to the table's columns by name, or by position without a header
+  React.useEffect(() => {
+    if (!parsed || !target) {
+      setTargets([]);
+      return;
+    }
+    const columnNames = target.columns
+      .filter((column) => !column.generated)
+      .map((column) => column.name);
+    setTargets(
+      parsed.columns.map((name, index) => {
+        if (!parsed.header) {
+          return columnNames[index] || '';
+        }
+        return columnNames.find((column) => column.toLowerCase() === name.toLowerCase()) || '';
+      })
+    );
+  }, [parsed, target]);
+
+  const mapping: ImportColumn[] = parsed
+    ? parsed.columns.flatMap((_, source): ImportColumn[] => {
+        if (createTable) {
+          const name = names[source]?.trim();
+          return name ? [{ name, type: types[source], source }] : [];
+        }
+        return targets[source] ? [{ name: targets[source], source }] : [];
+      })
+    : [];
+
+  const mappingError = (() => {
+    if (!parsed) return null;
+    if (!parsed.rows.length) return 'The file has no data rows';
+    if (createTable && !tableName.trim()) return 'Enter a name for the new table';
+    if (!createTable && !target) return 'Choose a table to import into';
+    if (!mapping.length) return 'Choose at least one column to import';
+    const used = mapping.map((column) => column.name.toLowerCase());
+    if (new Set(used).size !== used.length) return 'Each table column can be filled only once';
+    return null;
+  })();
+
+  const handleImport = async () => {
+    if (!parsed || mappingError) return;
+
+    setImporting(true);
+    setResult(null);
+    try {
+      const imported = await importRows(parsed.rows, {
+        table: createTable ? tableName.trim() : targetTable,
+        createTable,
+        columns: mapping,
+        firstRowNumber: parsed.header ? 2 : 1,
+      });
+      setResult(imported);
+      onStatus(
+        `Imported ${imported.inserted.toLocaleString()} rows from ${fileName}` +
+          (imported.errors.length ? `; ${imported.errors.length.toLocaleString()} failed` : ''),
+        imported.errors.length ? 'error' : 'success'
+      );
+      if (createTable) {
+        // Importing again appends rather than failing on the now existing table
+        setCreateTable(false);
+        setTargetTable(tableName.trim());
+      }
+    } catch (err: any) {
+      onStatus(`Failed to import ${fileName}: ${err.message}`, 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <ButtonGroup>
+        <Label>
+          Delimiter
+          <Select value={delimiter} onChange={(e) => setDelimiter(e.target.value)}>
+            <option value="">
+              Detect
+              {parsed &&
+                !delimiter &&
+                ` (${
+                  DELIMITER_OPTIONS.find((option) => option.value === parsed.delimiter)?.label
+                })`}
+            </option>
+            {DELIMITER_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+        </Label>
+        <Label>
+          <input
+            type="checkbox"
+            checked={parsed ? parsed.header : Boolean(header)}
+            onChange={(e) => setHeader(e.target.checked)}
+          />
+          First row is a header
+        </Label>
+      </ButtonGroup>
+
+      {parseError && <StatusMessage type="error">{parseError}</StatusMessage>}
+
+      {parsed && (
+        <>
+          <StorageNote>
+            {fileName}: {parsed.rows.length.toLocaleString()} rows, {parsed.columns.length} columns
+          </StorageNote>
+
+          <ButtonGroup>
+            <Select
+              value={createTable ? 'create' : 'append'}
+              onChange={(e) => setCreateTable(e.target.value === 'create')}
+            >
+              <option value="create">New table</option>
+              <option value="append">Existing table</option>
+            </Select>
+            {createTable ? (
+              <NameInput
+                type="text"
+                placeholder="Table name"
+                value={tableName}
+                onChange={(e) => setTableName(e.target.value)}
+              />
+            ) : (
+              <Select value={targetTable} onChange={(e) => setTargetTable(e.target.value)}>
+                <option value="">Choose a table...</option>
+                {tables.map((table) => (
+                  <option key={table.name} value={table.name}>
+                    {table.name}
+                  </option>
+                ))}
+              </Select>
+            )}
+          </ButtonGroup>
+
+          <PreviewScroll>
+            <PreviewTable>
+              <thead>
+                <tr>
+                  {parsed.columns.map((column, index) => (
+                    <th key={index}>
+                      {createTable ? (
+                        <>
+                          <NameInput
+                            type="text"
+                            aria-label={`Name for ${column}`}
+                            placeholder="Skip"
+                            value={names[index] ?? ''}
+                            onChange={(e) =>
+                              setNames(
+                                names.map((name, i) => (i === index ? e.target.value : name))
+                              )
+                            }
+                          />
+                          <Select
+                            aria-label={`Type for ${column}`}
+                            value={types[index] ?? 'TEXT'}
+                            onChange={(e) =>
+                              setTypes(
+                                types.map((type, i) => (i === index ? e.target.value : type))
+                              )
+                            }
+                          >
+                            {IMPORT_TYPES.map((type) => (
+                              <option key={type} value={type}>
+                                {type}
+                              </option>
+                            ))}
+                          </Select>
+                        </>
+                      ) : (
+                        <>
+                          <div>{column}</div>
+                          <Select
+                            aria-label={`Column for ${column}`}
+                            value={targets[index] ?? ''}
+                            onChange={(e) =>
+                              setTargets(
+                                parsed.columns.map((_, i) =>
+                                  i === index ? e.target.value : targets[i] || ''
+                                )
+                              )
+                            }
+                            disabled={!target}
+                          >
+                            <option value="">Skip</option>
+                            {target?.columns
+                              .filter((tableColumn) => !tableColumn.generated)
+                              .map((tableColumn) => (
+                                <option key={tableColumn.name} value={tableColumn.name}>
+                                  {tableColumn.name}
+                                </option>
+                              ))}
+                          </Select>
+                        </>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {parsed.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {parsed.columns.map((_, index) => (
+                      <td key={index}>{row[index] ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </PreviewTable>
+          </PreviewScroll>
+
+          {mappingError && <StorageNote>{mappingError}</StorageNote>}
+        </>
+      )}
+
+      <ButtonGroup>
+        <Button
+          variant="primary"
+          onClick={handleImport}
+          disabled={!parsed || Boolean(mappingError) || importing}
+        >
+          {importing ? 'Importing...' : 'Import'}
+        </Button>
+        <Button onClick={onClose} disabled={importing}>
+          Close
+        </Button>
+      </ButtonGroup>
+
+      {result && result.errors.length > 0 && (
+        <>
+          <StorageNote>
+            {result.errors.length.toLocaleString()} rows were not imported
+            {result.errors.length > LISTED_ERRORS && `; the first ${LISTED_ERRORS} are listed`}:
+          </StorageNote>
+          <ErrorList>
+            {result.errors.slice(0, LISTED_ERRORS).map((rowError) => (
+              <li key={rowError.row}>
+                Row {rowError.row}: {rowError.message}
+              </li>
+            ))}
+          </ErrorList>
+        </>
+      )}
+    </>
+  );
+};
+
 interface DatabaseManagerProps {
   onDatabaseLoaded?: () => void;
   onDatabaseCreated?: () => void;
+  /** Named connection to use; defaults to the provider's active connection */
+  connection?: string;
 }
 
 /**
@@ -104,36 +596,121 @@ interface DatabaseManagerProps {
 export const DatabaseManager: React.FC<DatabaseManagerProps> = ({
   onDatabaseLoaded,
   onDatabaseCreated,
+  connection,
 }) => {
   const {
     loadDatabase,
+    loadSQLDump,
+    cancelQuery,
     createDatabase,
-    exportDatabase,
+    exportToBlob,
+    importRows,
+    importJSON,
     saveDatabase,
-    db,
+    attachDatabase,
+    detachDatabase,
+    canPersist,
+    storedDatabases,
+    storedDatabaseName,
+    storeDatabase,
+    openStoredDatabase,
+    deleteStoredDatabase,
+    isLoaded,
+    isInitialized,
+    initError,
     isLoading,
     error,
-  } = useSQLite();
+    getSchema,
+    getStatistics,
+  } = useSQLite(connection);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [exportFormat, setExportFormat] = React.useState<'sql' | 'json' | 'csv'>('sql');
+  const attachInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+  const [exportFormat, setExportFormat] = React.useState('sql');
   const [statusMessage, setStatusMessage] = React.useState<{
     text: string;
     type?: 'success' | 'error';
   } | null>(null);
 
+  const [statistics, setStatistics] = React.useState<DatabaseStatistics | null>(null);
+  const [continueOnError, setContinueOnError] = React.useState(false);
+  const [dumpProgress, setDumpProgress] = React.useState<SqlDumpProgress | null>(null);
+  const [dumpErrors, setDumpErrors] = React.useState<SqlDumpError[]>([]);
+  const [exportProgress, setExportProgress] = React.useState<ExportProgress | null>(null);
+  const [csvOptions, setCsvOptions] = React.useState(() => resolveCsvWriteOptions());
+  const [storeName, setStoreName] = React.useState('');
+  const [importFile, setImportFile] = React.useState<{ name: string; text: string } | null>(null);
+
+  // Suggest the name the open database is already stored under
+  React.useEffect(() => {
+    setStoreName(storedDatabaseName || '');
+  }, [storedDatabaseName]);
+
+  const loadStatistics = useCallback(async () => {
+    try {
+      setStatistics(await getStatistics());
+    } catch (err: any) {
+      setStatistics(null);
+      setStatusMessage({ text: `Failed to read statistics: ${err.message}`, type: 'error' });
+    }
+  }, [getStatistics]);
+
+  // Re-read sizes when a database is loaded or its tables change, but not after every
+  // write, as counting reads every row; Refresh catches up with those
+  const schema = getSchema();
+  const tableNames = React.useMemo(
+    () => schema.tables.map((table) => `${table.schema}.${table.name}`).join('\n'),
+    [schema]
+  );
+  React.useEffect(() => {
+    if (isLoaded) {
+      loadStatistics();
+    } else {
+      setStatistics(null);
+    }
+  }, [isLoaded, tableNames, loadStatistics]);
+
   const handleFileSelect = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
 
+      setDumpErrors([]);
       try {
-        const arrayBuffer = await file.arrayBuffer();
-        await loadDatabase(arrayBuffer);
-        setStatusMessage({ text: `Database loaded: ${file.name}`, type: 'success' });
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        if (isSqlDump(file.name, bytes)) {
+          const script = new TextDecoder().decode(bytes);
+          setDumpProgress({ executed: 0, total: 0 });
+          const result = await loadSQLDump(script, {
+            stopOnError: !continueOnError,
+            onProgress: setDumpProgress,
+          });
+          setDumpErrors(result.errors);
+          if (result.stopped) {
+            setStatusMessage({
+              text: `Stopped ${file.name} at line ${result.errors[0].line} after ${result.executed.toLocaleString()} statements`,
+              type: 'error',
+            });
+          } else {
+            const failed = result.errors.length
+              ? `; ${result.errors.length.toLocaleString()} failed`
+              : '';
+            setStatusMessage({
+              text: `Ran ${result.executed.toLocaleString()} statements from ${file.name}${failed}`,
+              type: result.errors.length ? 'error' : 'success',
+            });
+          }
+        } else {
+          await loadDatabase(bytes);
+          setStatusMessage({ text: `Database loaded: ${file.name}`, type: 'success' });
+        }
         onDatabaseLoaded?.();
       } catch (err: any) {
         setStatusMessage({ text: `Failed to load database: ${err.message}`, type: 'error' });
+      } finally {
+        setDumpProgress(null);
       }
 
       // Reset input
@@ -141,16 +718,111 @@ export const DatabaseManager: React.FC<DatabaseManagerProps> = ({
         fileInputRef.current.value = '';
       }
     },
-    [loadDatabase, onDatabaseLoaded]
+    [loadDatabase, loadSQLDump, continueOnError, onDatabaseLoaded]
   );
 
   const handleLoadClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
-  const handleCreate = useCallback(() => {
+  const attachedNames = schema.databases.filter((name) => name !== 'main');
+
+  const handleAttachSelect = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+
+      const name = getAttachName(file.name, attachedNames);
+      try {
+        const arrayBuffer = await file.arrayBuffer();
+        await attachDatabase(name, arrayBuffer);
+        setStatusMessage({ text: `Attached ${file.name} as "${name}"`, type: 'success' });
+      } catch (err: any) {
+        setStatusMessage({ text: `Failed to attach database: ${err.message}`, type: 'error' });
+      }
+
+      if (attachInputRef.current) {
+        attachInputRef.current.value = '';
+      }
+    },
+    [attachDatabase, attachedNames]
+  );
+
+  const handleDetach = useCallback(
+    async (name: string) => {
+      try {
+        await detachDatabase(name);
+        setStatusMessage({ text: `Detached "${name}"`, type: 'success' });
+      } catch (err: any) {
+        setStatusMessage({ text: `Failed to detach database: ${err.message}`, type: 'error' });
+      }
+    },
+    [detachDatabase]
+  );
+
+  const handleSaveAttached = useCallback(
+    async (name: string) => {
+      try {
+        downloadBytes(await saveDatabase(name), `${name}.db`);
+        setStatusMessage({ text: `Database "${name}" saved successfully`, type: 'success' });
+      } catch (err: any) {
+        setStatusMessage({ text: `Failed to save database: ${err.message}`, type: 'error' });
+      }
+    },
+    [saveDatabase]
+  );
+
+  const handleImportSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setImportFile({ name: file.name, text: await file.text() });
+    } catch (err: any) {
+      setStatusMessage({ text: `Failed to read ${file.name}: ${err.message}`, type: 'error' });
+    }
+
+    if (importInputRef.current) {
+      importInputRef.current.value = '';
+    }
+  }, []);
+
+  const handleJsonSelect = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+
+      try {
+        const { tables, rows } = await importJSON(await file.text());
+        setStatusMessage({
+          text: `Imported ${rows.toLocaleString()} rows into ${tables.length} tables from ${file.name}`,
+          type: 'success',
+        });
+      } catch (err: any) {
+        setStatusMessage({ text: `Failed to import ${file.name}: ${err.message}`, type: 'error' });
+      }
+
+      if (jsonInputRef.current) {
+        jsonInputRef.current.value = '';
+      }
+    },
+    [importJSON]
+  );
+
+  const handleImportStatus = useCallback((text: string, type: 'success' | 'error') => {
+    setStatusMessage({ text, type });
+  }, []);
+
+  // A different database would not have the tables the wizard was set up for
+  React.useEffect(() => {
+    if (!isLoaded) {
+      setImportFile(null);
+    }
+  }, [isLoaded]);
+
+  const handleCreate = useCallback(async () => {
     try {
-      createDatabase();
+      await createDatabase();
       setStatusMessage({ text: 'New database created successfully', type: 'success' });
       onDatabaseCreated?.();
     } catch (err: any) {
@@ -158,49 +830,94 @@ export const DatabaseManager: React.FC<DatabaseManagerProps> = ({
     }
   }, [createDatabase, onDatabaseCreated]);
 
-  const handleExport = useCallback(() => {
-    if (!db) {
+  const handleExport = useCallback(async () => {
+    if (!isLoaded) {
       setStatusMessage({ text: 'No database loaded', type: 'error' });
       return;
     }
 
     try {
-      const exported = exportDatabase({ format: exportFormat, schema: true, data: true });
-      const blob = new Blob([exported], {
-        type: exportFormat === 'json' ? 'application/json' : 'text/plain',
+      setExportProgress({ table: null, rows: 0, totalRows: 0 });
+      const blob = await exportToBlob({
+        format: exportFormat,
+        schema: true,
+        data: true,
+        csv: csvOptions,
+        onProgress: setExportProgress,
       });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `database_export.${exportFormat === 'json' ? 'json' : exportFormat === 'csv' ? 'csv' : 'sql'}`;
+      // Result formats are written one file per table, bundled in a zip
+      a.download = `database_export.${isResultFormat(exportFormat) ? 'zip' : exportFormat}`;
       a.click();
       URL.revokeObjectURL(url);
       setStatusMessage({ text: 'Database exported successfully', type: 'success' });
     } catch (err: any) {
       setStatusMessage({ text: `Failed to export database: ${err.message}`, type: 'error' });
+    } finally {
+      setExportProgress(null);
     }
-  }, [db, exportDatabase, exportFormat]);
+  }, [isLoaded, exportToBlob, exportFormat, csvOptions]);
+
+  const updateCsvOptions = (changes: CsvWriteOptions) =>
+    setCsvOptions((current) => ({ ...current, ...changes }));
 
-  const handleSave = useCallback(() => {
-    if (!db) {
+  const handleSave = useCallback(async () => {
+    if (!isLoaded) {
       setStatusMessage({ text: 'No database loaded', type: 'error' });
       return;
     }
 
     try {
-      const data = saveDatabase();
-      const blob = new Blob([data as BlobPart], { type: 'application/octet-stream' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'database.db';
-      a.click();
-      URL.revokeObjectURL(url);
+      downloadBytes(await saveDatabase(), 'database.db');
       setStatusMessage({ text: 'Database saved successfully', type: 'success' });
     } catch (err: any) {
       setStatusMessage({ text: `Failed to save database: ${err.message}`, type: 'error' });
     }
-  }, [db, saveDatabase]);
+  }, [isLoaded, saveDatabase]);
+
+  const handleStore = useCallback(async () => {
+    const name = storeName.trim();
+    if (!name) {
+      setStatusMessage({ text: 'Enter a name to store the database under', type: 'error' });
+      return;
+    }
+
+    try {
+      await storeDatabase(name);
+      setStatusMessage({ text: `Database stored as "${name}"`, type: 'success' });
+    } catch (err: any) {
+      setStatusMessage({ text: `Failed to store database: ${err.message}`, type: 'error' });
+    }
+  }, [storeName, storeDatabase]);
+
+  const handleOpenStored = useCallback(
+    async (name: string) => {
+      try {
+        await openStoredDatabase(name);
+        setStatusMessage({ text: `Opened "${name}"`, type: 'success' });
+        onDatabaseLoaded?.();
+      } catch (err: any) {
+        setStatusMessage({ text: `Failed to open database: ${err.message}`, type: 'error' });
+      }
+    },
+    [openStoredDatabase, onDatabaseLoaded]
+  );
+
+  const handleDeleteStored = useCallback(
+    async (name: string) => {
+      if (!window.confirm(`Delete the stored database "${name}"?`)) return;
+
+      try {
+        await deleteStoredDatabase(name);
+        setStatusMessage({ text: `Deleted "${name}"`, type: 'success' });
+      } catch (err: any) {
+        setStatusMessage({ text: `Failed to delete database: ${err.message}`, type: 'error' });
+      }
+    },
+    [deleteStoredDatabase]
+  );
 
   // Clear status message after 5 seconds
   React.useEffect(() => {
@@ -216,34 +933,306 @@ export const DatabaseManager: React.FC<DatabaseManagerProps> = ({
         <SectionTitle>Database Operations</SectionTitle>
         <ButtonGroup>
           <Button variant="primary" onClick={handleLoadClick} disabled={isLoading}>
-            Load Database (.db file)
+            Load Database (.db or .sql file)
           </Button>
           <FileInput
             ref={fileInputRef}
             type="file"
-            accept=".db,.sqlite,.sqlite3"
+            accept=".db,.sqlite,.sqlite3,.sql"
             onChange={handleFileSelect}
           />
-          <Button variant="primary" onClick={handleCreate} disabled={isLoading}>
+          <Button variant="primary" onClick={handleCreate} disabled={isLoading || !isInitialized}>
             Create New Database
           </Button>
+          <Label>
+            <input
+              type="checkbox"
+              checked={continueOnError}
+              onChange={(e) => setContinueOnError(e.target.checked)}
+            />
+            Continue past errors in .sql files
+          </Label>
         </ButtonGroup>
+        {dumpProgress && (
+          <ButtonGroup>
+            <StatusMessage>
+              Running SQL dump: {dumpProgress.executed.toLocaleString()} of{' '}
+              {dumpProgress.total.toLocaleString()} statements
+            </StatusMessage>
+            <Button variant="danger" onClick={cancelQuery}>
+              Cancel
+            </Button>
+          </ButtonGroup>
+        )}
+        {dumpErrors.length > 0 && (
+          <>
+            <StorageNote>
+              {dumpErrors.length.toLocaleString()} statements failed
+              {dumpErrors.length > LISTED_ERRORS && `; the first ${LISTED_ERRORS} are listed`}:
+            </StorageNote>
+            <ErrorList>
+              {dumpErrors.slice(0, LISTED_ERRORS).map((dumpError, index) => (
+                <li key={index} title={dumpError.sql}>
+                  Line {dumpError.line}: {dumpError.message}
+                </li>
+              ))}
+            </ErrorList>
+          </>
+        )}
       </Section>
 
-      {db && (
+      {canPersist && (
+        <Section>
+          <SectionTitle>Browser Storage</SectionTitle>
+          {storedDatabases.length > 0 ? (
+            <AttachedList>
+              {storedDatabases.map((stored) => (
+                <AttachedItem key={stored.name}>
+                  <code>
+                    {stored.name}
+                    {stored.name === storedDatabaseName && ' (open, autosaved)'}
+                  </code>
+                  <StorageNote>
+                    {formatBytes(stored.size)} · {new Date(stored.updatedAt).toLocaleString()}
+                  </StorageNote>
+                  <Button
+                    onClick={() => handleOpenStored(stored.name)}
+                    disabled={isLoading || !isInitialized}
+                  >
+                    Open
+                  </Button>
+                  <Button variant="danger" onClick={() => handleDeleteStored(stored.name)}>
+                    Delete
+                  </Button>
+                </AttachedItem>
+              ))}
+            </AttachedList>
+          ) : (
+            <StorageNote>No stored databases yet.</StorageNote>
+          )}
+          {isLoaded && (
+            <ButtonGroup>
+              <NameInput
+                type="text"
+                placeholder="Name"
+                value={storeName}
+                onChange={(e) => setStoreName(e.target.value)}
+              />
+              <Button onClick={handleStore}>
+                {storedDatabaseName && storeName.trim() === storedDatabaseName
+                  ? 'Save now'
+                  : 'Store in browser'}
+              </Button>
+            </ButtonGroup>
+          )}
+        </Section>
+      )}
+
+      {isLoaded && (
         <>
+          <Section>
+            <SectionTitle>Attached Databases</SectionTitle>
+            {attachedNames.length > 0 && (
+              <AttachedList>
+                {attachedNames.map((name) => (
+                  <AttachedItem key={name}>
+                    <code>{name}</code>
+                    <Button onClick={() => handleSaveAttached(name)}>Save</Button>
+                    <Button variant="danger" onClick={() => handleDetach(name)}>
+                      Detach
+                    </Button>
+                  </AttachedItem>
+                ))}
+              </AttachedList>
+            )}
+            <StorageNote>
+              Tables of an attached file are queried as name.table, and can be joined with the main
+              database.
+            </StorageNote>
+            <ButtonGroup>
+              <Button onClick={() => attachInputRef.current?.click()} disabled={isLoading}>
+                Attach Database (.db file)
+              </Button>
+              <FileInput
+                ref={attachInputRef}
+                type="file"
+                accept=".db,.sqlite,.sqlite3"
+                onChange={handleAttachSelect}
+              />
+            </ButtonGroup>
+          </Section>
+
+          <Section>
+            <SectionTitle>Import</SectionTitle>
+            {importFile ? (
+              <CsvImportWizard
+                key={importFile.name}
+                fileName={importFile.name}
+                text={importFile.text}
+                schema={schema}
+                importRows={importRows}
+                onStatus={handleImportStatus}
+                onClose={() => setImportFile(null)}
+              />
+            ) : (
+              <ButtonGroup>
+                <Button onClick={() => importInputRef.current?.click()} disabled={isLoading}>
+                  CSV / TSV File
+                </Button>
+                <Button onClick={() => jsonInputRef.current?.click()} disabled={isLoading}>
+                  JSON Export
+                </Button>
+              </ButtonGroup>
+            )}
+            <FileInput
+              ref={importInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              onChange={handleImportSelect}
+            />
+            <FileInput
+              ref={jsonInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleJsonSelect}
+            />
+          </Section>
+
           <Section>
             <SectionTitle>Export Database</SectionTitle>
             <ButtonGroup>
-              <Select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as any)}>
+              <Select value={exportFormat} onChange={(e) => setExportFormat(e.target.value)}>
                 <option value="sql">SQL</option>
                 <option value="json">JSON</option>
-                <option value="csv">CSV</option>
+                <optgroup label="Each table as">
+                  {getExporters().map((exporter) => (
+                    <option key={exporter.id} value={exporter.id}>
+                      {exporter.label}
+                    </option>
+                  ))}
+                </optgroup>
               </Select>
-              <Button onClick={handleExport}>Export</Button>
+              <Button onClick={handleExport} disabled={Boolean(exportProgress)}>
+                Export
+              </Button>
             </ButtonGroup>
+            {(exportFormat === 'csv' || exportFormat === 'tsv') && (
+              <ButtonGroup>
+                {exportFormat === 'csv' && (
+                  <Label>
+                    Delimiter
+                    <Select
+                      value={csvOptions.delimiter}
+                      onChange={(e) => updateCsvOptions({ delimiter: e.target.value })}
+                    >
+                      {DELIMITER_OPTIONS.map((option) => (
+                        <option key={option.label} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </Select>
+                  </Label>
+                )}
+                <Label>
+                  Line endings
+                  <Select
+                    value={csvOptions.lineEnding}
+                    onChange={(e) =>
+                      updateCsvOptions({ lineEnding: e.target.value as '\r\n' | '\n' })
+                    }
+                  >
+                    <option value={'\r\n'}>CRLF</option>
+                    <option value={'\n'}>LF</option>
+                  </Select>
+                </Label>
+                <Label>
+                  NULL as
+                  <NameInput
+                    value={csvOptions.nullValue}
+                    placeholder="empty"
+                    onChange={(e) => updateCsvOptions({ nullValue: e.target.value })}
+                  />
+                </Label>
+                <Label>
+                  <input
+                    type="checkbox"
+                    checked={csvOptions.header}
+                    onChange={(e) => updateCsvOptions({ header: e.target.checked })}
+                  />
+                  Header row
+                </Label>
+                <Label>
+                  <input
+                    type="checkbox"
+                    checked={csvOptions.bom}
+                    onChange={(e) => updateCsvOptions({ bom: e.target.checked })}
+                  />
+                  Byte order mark
+                </Label>
+              </ButtonGroup>
+            )}
+            {isResultFormat(exportFormat) && (
+              <StorageNote>One file per table, downloaded as a zip archive</StorageNote>
+            )}
+            {exportProgress && (
+              <ButtonGroup>
+                <StatusMessage>
+                  Exporting: {exportProgress.rows.toLocaleString()} of{' '}
+                  {exportProgress.totalRows.toLocaleString()} rows
+                  {exportProgress.table && ` (${exportProgress.table})`}
+                </StatusMessage>
+                <Button variant="danger" onClick={cancelQuery}>
+                  Cancel
+                </Button>
+              </ButtonGroup>
+            )}
           </Section>
 
+          {statistics && (
+            <Section>
+              <SectionTitle>Storage</SectionTitle>
+              <StorageSummary>
+                {formatBytes(statistics.sizeBytes)} in {statistics.pageCount.toLocaleString()}{' '}
+                pages of {formatBytes(statistics.pageSize)} ·{' '}
+                {statistics.freelistCount.toLocaleString()} free pages ·{' '}
+                {formatPercent(statistics.fragmentation)} free space
+              </StorageSummary>
+              {!statistics.hasPageStatistics && (
+                <StorageNote>
+                  Per-table sizes need the dbstat virtual table, which this SQLite build does not
+                  include; only row counts are shown.
+                </StorageNote>
+              )}
+              <StorageTable>
+                <thead>
+                  <tr>
+                    <th>Table / index</th>
+                    <th>Rows</th>
+                    <th>Pages</th>
+                    <th>Size</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statistics.tables.map((table) => (
+                    <React.Fragment key={`${table.schema}.${table.name}`}>
+                      <StorageRow stats={table} />
+                      {statistics.indexes
+                        .filter(
+                          (index) => index.schema === table.schema && index.table === table.name
+                        )
+                        .map((index) => (
+                          <StorageRow key={index.name} stats={index} isIndex />
+                        ))}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </StorageTable>
+              <ButtonGroup>
+                <Button onClick={loadStatistics}>Refresh</Button>
+              </ButtonGroup>
+            </Section>
+          )}
+
           <Section>
             <SectionTitle>Save Database</SectionTitle>
             <ButtonGroup>
@@ -253,12 +1242,19 @@ export const DatabaseManager: React.FC<DatabaseManagerProps> = ({
         </>
       )}
 
-      {error && <StatusMessage type="error">Error: {error}</StatusMessage>}
+      {initError ? (
+        <StatusMessage type="error">
+          SQLite engine failed to load: {initError}. Check the provider&apos;s initOptions
+          (locateFile, wasmBinary or sqlJs).
+        </StatusMessage>
+      ) : (
+        error && <StatusMessage type="error">Error: {error}</StatusMessage>
+      )}
       {statusMessage && (
         <StatusMessage type={statusMessage.type}>{statusMessage.text}</StatusMessage>
       )}
 
-      {db && (
+      {isLoaded && (
         <StatusMessage>
           Database loaded successfully
         </StatusMessage>
@@ -4,6 +4,11 @@ import { useSQLite } from '../../context/SQLiteContext';
 import { SQLAutocomplete } from '../../core/sqlAutocomplete';
 import { HotkeyManager } from '../../core/hotkeys';
 import { QueryShareManager } from '../../core/share';
+import { parseBindParams } from '../../core/sqlUtils';
+import { classifyStatement } from '../../core/sqlParser';
+import { QueryInterruptedError } from '../../core/errors';
+import { exportResultToBlob, getExporter, getExporters } from '../../core/exporters';
+import { BindParams, QueryResult, ScriptStatementResult } from '../../types';
 import { theme } from '../../styles/theme';
 
 const Container = styled.div`
@@ -25,6 +30,18 @@ const Toolbar = styled.div`
   background: ${theme.colors.light};
 `;
 
+const TransactionBar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing.sm};
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  background: #fffbeb;
+  border-bottom: 1px solid ${theme.colors.warning};
+  color: #b45309;
+  font-size: 13px;
+  font-weight: 500;
+`;
+
 const Button = styled.button<{ variant?: 'primary' | 'secondary' }>`
   padding: ${theme.spacing.sm} ${theme.spacing.md};
   background: ${(props) =>
@@ -77,6 +94,17 @@ const TextArea = styled.textarea`
   }
 `;
 
+const ParamsInput = styled.input`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  border: none;
+  border-top: 1px solid ${theme.colors.border};
+  outline: none;
+  font-family: ${theme.fonts.mono};
+  font-size: 12px;
+  background: ${theme.colors.light};
+  color: ${theme.colors.text};
+`;
+
 const AutocompleteDropdown = styled.div<{ visible: boolean }>`
   position: absolute;
   top: ${(props) => (props.visible ? '100%' : '-1000px')};
@@ -148,6 +176,27 @@ const TableCell = styled.td`
   font-size: 11px;
 `;
 
+const ResultTabs = styled.div`
+  display: flex;
+  gap: ${theme.spacing.xs};
+  padding: ${theme.spacing.sm} ${theme.spacing.md} 0;
+  border-top: 1px solid ${theme.colors.border};
+  background: ${theme.colors.light};
+  overflow-x: auto;
+`;
+
+const ResultTab = styled.button<{ active: boolean; hasError: boolean }>`
+  padding: ${theme.spacing.xs} ${theme.spacing.md};
+  background: ${(props) => (props.active ? theme.colors.white : 'transparent')};
+  color: ${(props) => (props.hasError ? theme.colors.danger : theme.colors.text)};
+  border: 1px solid ${(props) => (props.active ? theme.colors.border : 'transparent')};
+  border-bottom: none;
+  border-radius: ${theme.borderRadius.sm} ${theme.borderRadius.sm} 0 0;
+  cursor: pointer;
+  font-size: 12px;
+  white-space: nowrap;
+`;
+
 const ErrorMessage = styled.div`
   padding: ${theme.spacing.md};
   background: #fee;
@@ -156,6 +205,14 @@ const ErrorMessage = styled.div`
   font-size: 14px;
 `;
 
+const InterruptedMessage = styled.div`
+  padding: ${theme.spacing.md};
+  background: #fffbeb;
+  color: #b45309;
+  border-top: 1px solid ${theme.colors.warning};
+  font-size: 14px;
+`;
+
 const InfoMessage = styled.div`
   padding: ${theme.spacing.sm} ${theme.spacing.md};
   background: ${theme.colors.light};
@@ -164,10 +221,30 @@ const InfoMessage = styled.div`
   border-top: 1px solid ${theme.colors.border};
 `;
 
+const ResultBar = styled(InfoMessage)`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing.sm};
+`;
+
+const ExportSelect = styled.select`
+  margin-left: auto;
+  padding: ${theme.spacing.xs};
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.sm};
+  background: ${theme.colors.white};
+  font-size: 12px;
+`;
+
 interface QueryBuilderProps {
   initialQuery?: string;
+  initialParams?: BindParams;
   onQueryChange?: (query: string) => void;
-  onExecute?: (query: string, result: any) => void;
+  onExecute?: (query: string, result: any, params?: BindParams) => void;
+  /** Stop queries after this many milliseconds */
+  timeout?: number;
+  /** Named connection to use; defaults to the provider's active connection */
+  connection?: string;
 }
 
 /**
@@ -175,13 +252,34 @@ interface QueryBuilderProps {
  */
 export const QueryBuilder: React.FC<QueryBuilderProps> = ({
   initialQuery = '',
+  initialParams,
   onQueryChange,
   onExecute,
+  timeout,
+  connection,
 }) => {
-  const { executeQuery, getSchema, db } = useSQLite();
+  const {
+    executeQuery,
+    executeScript,
+    cancelQuery,
+    canCancel,
+    getSchema,
+    isLoaded,
+    transactionDepth,
+    beginTransaction,
+    commit,
+    rollback,
+  } = useSQLite(connection);
   const [query, setQuery] = useState(initialQuery);
+  const [paramsText, setParamsText] = useState(
+    initialParams ? JSON.stringify(initialParams) : ''
+  );
   const [result, setResult] = useState<any>(null);
+  const [scriptResults, setScriptResults] = useState<ScriptStatementResult[] | null>(null);
+  const [activeResultTab, setActiveResultTab] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  // Set when the last run was cancelled or timed out rather than failing
+  const [interruptedMessage, setInterruptedMessage] = useState<string | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
   const [autocompleteVisible, setAutocompleteVisible] = useState(false);
   const [autocompleteSuggestions, setAutocompleteSuggestions] = useState<
@@ -189,32 +287,39 @@ export const QueryBuilder: React.FC<QueryBuilderProps> = ({
   >([]);
   const [selectedSuggestion, setSelectedSuggestion] = useState(0);
   const [cursorPosition, setCursorPosition] = useState(0);
+  const [exportFormat, setExportFormat] = useState('csv');
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const autocompleteRef = useRef<SQLAutocomplete>(new SQLAutocomplete());
   const hotkeyManagerRef = useRef<HotkeyManager>(new HotkeyManager());
   const shareManagerRef = useRef<QueryShareManager>(new QueryShareManager());
+  // Latest handlers for hotkeys, which are registered once
+  const hotkeyHandlersRef = useRef<Record<string, () => void>>({});
 
   // Update autocomplete schema when database changes
   useEffect(() => {
     const schema = getSchema();
     autocompleteRef.current.updateSchema(schema);
-  }, [getSchema, db]);
+  }, [getSchema]);
 
   // Setup hotkeys
   useEffect(() => {
     const hotkeys = hotkeyManagerRef.current;
 
     hotkeys.register('ctrl+enter', () => {
-      handleExecute();
+      hotkeyHandlersRef.current.execute?.();
+    });
+
+    hotkeys.register('ctrl+shift+enter', () => {
+      hotkeyHandlersRef.current.executeAll?.();
     });
 
     hotkeys.register('ctrl+space', () => {
-      showAutocomplete();
+      hotkeyHandlersRef.current.autocomplete?.();
     });
 
     hotkeys.register('ctrl+shift+f', () => {
-      formatQuery();
+      hotkeyHandlersRef.current.format?.();
     });
 
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -264,18 +369,50 @@ export const QueryBuilder: React.FC<QueryBuilderProps> = ({
 
     setIsExecuting(true);
     setError(null);
+    setInterruptedMessage(null);
     setResult(null);
+    setScriptResults(null);
 
     try {
-      const queryResult = await executeQuery(query);
+      const params = parseBindParams(paramsText);
+      const queryResult = await executeQuery(query, params, { timeout });
       setResult(queryResult);
-      onExecute?.(query, queryResult);
+      onExecute?.(query, queryResult, params);
     } catch (err: any) {
-      setError(err.message || 'Query execution failed');
+      if (err instanceof QueryInterruptedError) {
+        setInterruptedMessage(err.message);
+      } else {
+        setError(err.message || 'Query execution failed');
+      }
     } finally {
       setIsExecuting(false);
     }
-  }, [query, executeQuery, isExecuting, onExecute]);
+  }, [query, paramsText, executeQuery, isExecuting, onExecute, timeout]);
+
+  const handleExecuteAll = useCallback(async () => {
+    if (!query.trim() || isExecuting) return;
+
+    setIsExecuting(true);
+    setError(null);
+    setInterruptedMessage(null);
+    setResult(null);
+    setScriptResults(null);
+
+    try {
+      const results = await executeScript(query, { timeout });
+      setScriptResults(results);
+      const failed = results.find((r) => r.error);
+      setActiveResultTab(failed ? failed.statementIndex : results.length - 1);
+    } catch (err: any) {
+      if (err instanceof QueryInterruptedError) {
+        setInterruptedMessage(err.message);
+      } else {
+        setError(err.message || 'Script execution failed');
+      }
+    } finally {
+      setIsExecuting(false);
+    }
+  }, [query, executeScript, isExecuting, timeout]);
 
   const formatQuery = useCallback(() => {
     // Simple SQL formatter
@@ -319,6 +456,25 @@ export const QueryBuilder: React.FC<QueryBuilderProps> = ({
     setQuery(formatted);
   }, [query]);
 
+  hotkeyHandlersRef.current = {
+    execute: handleExecute,
+    executeAll: handleExecuteAll,
+    autocomplete: showAutocomplete,
+    format: formatQuery,
+  };
+
+  /**
+   * Run a transaction control, reporting failures like query errors
+   */
+  const runTransactionAction = useCallback(async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Transaction failed');
+    }
+  }, []);
+
   const handleShare = useCallback(async () => {
     const success = await shareManagerRef.current.copyToClipboard(query);
     if (success) {
@@ -326,6 +482,19 @@ export const QueryBuilder: React.FC<QueryBuilderProps> = ({
     }
   }, [query]);
 
+  const handleExportResult = useCallback(
+    (result: QueryResult) => {
+      const blob = exportResultToBlob(result, exportFormat);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `query_result${getExporter(exportFormat).extension}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    [exportFormat]
+  );
+
   const handleSuggestionSelect = useCallback(
     (suggestion: { label: string; type: string }) => {
       if (!textareaRef.current) return;
@@ -388,12 +557,84 @@ export const QueryBuilder: React.FC<QueryBuilderProps> = ({
     [autocompleteVisible, autocompleteSuggestions, selectedSuggestion, handleSuggestionSelect]
   );
 
+  const renderResult = (result: QueryResult) =>
+    result.columns.length === 0 ? (
+      <InfoMessage>
+        Query executed successfully. Rows affected: {result.rowsAffected ?? 0}
+      </InfoMessage>
+    ) : (
+      <>
+        <ResultBar>
+          <span>
+            Query executed successfully. {result.values.length} row(s) returned
+            {result.rowsAffected !== undefined && `, ${result.rowsAffected} row(s) affected`}.
+          </span>
+          <ExportSelect
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value)}
+            aria-label="Export format"
+          >
+            {getExporters().map((exporter) => (
+              <option key={exporter.id} value={exporter.id}>
+                {exporter.label}
+              </option>
+            ))}
+          </ExportSelect>
+          <Button onClick={() => handleExportResult(result)}>Export</Button>
+        </ResultBar>
+        {result.values.length > 0 && (
+          <ResultsTable>
+            <TableHeader>
+              <tr>
+                {result.columns.map((col: string) => (
+                  <TableHeaderCell key={col}>{col}</TableHeaderCell>
+                ))}
+              </tr>
+            </TableHeader>
+            <tbody>
+              {result.values.slice(0, 1000).map((row: any[], rowIndex: number) => (
+                <tr key={rowIndex}>
+                  {row.map((cell: any, cellIndex: number) => (
+                    <TableCell key={cellIndex}>
+                      {cell === null ? (
+                        <span style={{ color: theme.colors.textLight, fontStyle: 'italic' }}>
+                          NULL
+                        </span>
+                      ) : (
+                        String(cell)
+                      )}
+                    </TableCell>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </ResultsTable>
+        )}
+        {result.values.length > 1000 && (
+          <InfoMessage>
+            Showing first 1000 rows of {result.values.length} total rows.
+          </InfoMessage>
+        )}
+      </>
+    );
+
   return (
     <Container>
       <Toolbar>
-        <Button variant="primary" onClick={handleExecute} disabled={isExecuting || !db}>
+        <Button variant="primary" onClick={handleExecute} disabled={isExecuting || !isLoaded}>
           {isExecuting ? 'Executing...' : 'Execute (Ctrl+Enter)'}
         </Button>
+        <Button onClick={handleExecuteAll} disabled={isExecuting || !isLoaded}>
+          Execute All (Ctrl+Shift+Enter)
+        </Button>
+        {isExecuting && canCancel && <Button onClick={cancelQuery}>Cancel</Button>}
+        <Button
+          onClick={() => runTransactionAction(beginTransaction)}
+          disabled={isExecuting || !isLoaded}
+          title={transactionDepth ? 'Open a savepoint in the current transaction' : undefined}
+        >
+          {transactionDepth ? 'Savepoint' : 'Begin Transaction'}
+        </Button>
         <Button onClick={formatQuery}>Format (Ctrl+Shift+F)</Button>
         <Button onClick={showAutocomplete}>Autocomplete (Ctrl+Space)</Button>
         <Button onClick={handleShare}>Share Query</Button>
@@ -402,6 +643,31 @@ export const QueryBuilder: React.FC<QueryBuilderProps> = ({
         </div>
       </Toolbar>
 
+      {transactionDepth > 0 && (
+        <TransactionBar>
+          <span>
+            Transaction open
+            {transactionDepth > 1 && ` (${transactionDepth - 1} savepoint(s))`}
+          </span>
+          <Button
+            variant="primary"
+            onClick={() => runTransactionAction(commit)}
+            disabled={isExecuting}
+            style={{ marginLeft: 'auto' }}
+            title={transactionDepth > 1 ? 'Release the innermost savepoint' : undefined}
+          >
+            Commit
+          </Button>
+          <Button
+            onClick={() => runTransactionAction(rollback)}
+            disabled={isExecuting}
+            title={transactionDepth > 1 ? 'Roll back to the innermost savepoint' : undefined}
+          >
+            Rollback
+          </Button>
+        </TransactionBar>
+      )}
+
       <EditorContainer>
         <TextArea
           ref={textareaRef}
@@ -426,55 +692,47 @@ export const QueryBuilder: React.FC<QueryBuilderProps> = ({
         </AutocompleteDropdown>
       </EditorContainer>
 
+      <ParamsInput
+        type="text"
+        value={paramsText}
+        onChange={(e) => {
+          setParamsText(e.target.value);
+          setError(null);
+        }}
+        placeholder='Parameters (JSON): [1, "Alice"] or {":id": 1}'
+        spellCheck={false}
+      />
+
       {error && <ErrorMessage>Error: {error}</ErrorMessage>}
 
-      {result && (
-        <ResultsContainer>
-          {result.rowsAffected !== undefined ? (
-            <InfoMessage>
-              Query executed successfully. Rows affected: {result.rowsAffected}
-            </InfoMessage>
-          ) : (
-            <>
-              <InfoMessage>
-                Query executed successfully. {result.values.length} row(s) returned.
-              </InfoMessage>
-              {result.values.length > 0 && (
-                <ResultsTable>
-                  <TableHeader>
-                    <tr>
-                      {result.columns.map((col: string) => (
-                        <TableHeaderCell key={col}>{col}</TableHeaderCell>
-                      ))}
-                    </tr>
-                  </TableHeader>
-                  <tbody>
-                    {result.values.slice(0, 1000).map((row: any[], rowIndex: number) => (
-                      <tr key={rowIndex}>
-                        {row.map((cell: any, cellIndex: number) => (
-                          <TableCell key={cellIndex}>
-                            {cell === null ? (
-                              <span style={{ color: theme.colors.textLight, fontStyle: 'italic' }}>
-                                NULL
-                              </span>
-                            ) : (
-                              String(cell)
-                            )}
-                          </TableCell>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </ResultsTable>
-              )}
-              {result.values.length > 1000 && (
-                <InfoMessage>
-                  Showing first 1000 rows of {result.values.length} total rows.
-                </InfoMessage>
-              )}
-            </>
-          )}
-        </ResultsContainer>
+      {interruptedMessage && <InterruptedMessage>{interruptedMessage}</InterruptedMessage>}
+
+      {result && <ResultsContainer>{renderResult(result)}</ResultsContainer>}
+
+      {scriptResults && (
+        <>
+          <ResultTabs>
+            {scriptResults.map((r) => (
+              <ResultTab
+                key={r.statementIndex}
+                active={r.statementIndex === activeResultTab}
+                hasError={!!r.error}
+                onClick={() => setActiveResultTab(r.statementIndex)}
+                title={r.sql}
+              >
+                {r.statementIndex + 1}: {classifyStatement(r.sql).keyword}
+              </ResultTab>
+            ))}
+          </ResultTabs>
+          {scriptResults[activeResultTab] &&
+            (scriptResults[activeResultTab].interrupted ? (
+              <InterruptedMessage>{scriptResults[activeResultTab].error}</InterruptedMessage>
+            ) : scriptResults[activeResultTab].error ? (
+              <ErrorMessage>Error: {scriptResults[activeResultTab].error}</ErrorMessage>
+            ) : (
+              <ResultsContainer>{renderResult(scriptResults[activeResultTab])}</ResultsContainer>
+            ))}
+        </>
       )}
     </Container>
   );
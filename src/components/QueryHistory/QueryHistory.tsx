@@ -1,7 +1,7 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import styled from 'styled-components';
 import { useSQLite } from '../../context/SQLiteContext';
-import { QueryHistoryItem } from '../../types';
+import { QueryHistoryItem, BindParams } from '../../types';
 import { theme } from '../../styles/theme';
 
 const Container = styled.div`
@@ -59,7 +59,7 @@ const HistoryList = styled.div`
   padding: ${theme.spacing.md};
 `;
 
-const HistoryItem = styled.div<{ selected: boolean; hasError: boolean }>`
+const HistoryItem = styled.div<{ selected: boolean; hasError: boolean; interrupted: boolean }>`
   padding: ${theme.spacing.md};
   margin-bottom: ${theme.spacing.sm};
   border: 1px solid ${theme.colors.border};
@@ -67,6 +67,8 @@ const HistoryItem = styled.div<{ selected: boolean; hasError: boolean }>`
   background: ${(props) =>
     props.hasError
       ? '#fee'
+      : props.interrupted
+      ? '#fffbeb'
       : props.selected
       ? '#e7f3ff'
       : theme.colors.white};
@@ -90,6 +92,13 @@ const QueryText = styled.div`
   overflow-y: auto;
 `;
 
+const ParamsText = styled.div`
+  font-family: ${theme.fonts.mono};
+  font-size: 11px;
+  color: ${theme.colors.textLight};
+  word-break: break-all;
+`;
+
 const MetaInfo = styled.div`
   display: flex;
   justify-content: space-between;
@@ -106,6 +115,13 @@ const ErrorText = styled.div`
   font-style: italic;
 `;
 
+const InterruptedText = styled.div`
+  color: #b45309;
+  font-size: 12px;
+  margin-top: ${theme.spacing.xs};
+  font-style: italic;
+`;
+
 const ResultInfo = styled.div`
   color: ${theme.colors.success};
   font-size: 12px;
@@ -123,8 +139,10 @@ const EmptyState = styled.div`
 `;
 
 interface QueryHistoryProps {
-  onQuerySelect?: (query: string) => void;
+  onQuerySelect?: (query: string, params?: BindParams) => void;
   maxHeight?: number;
+  /** Named connection to use; defaults to the provider's active connection */
+  connection?: string;
 }
 
 /**
@@ -133,8 +151,9 @@ interface QueryHistoryProps {
 export const QueryHistory: React.FC<QueryHistoryProps> = ({
   onQuerySelect,
   maxHeight,
+  connection,
 }) => {
-  const { queryHistory, clearHistory } = useSQLite();
+  const { queryHistory, clearHistory } = useSQLite(connection);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedItem, setSelectedItem] = useState<string | null>(null);
 
@@ -150,7 +169,7 @@ export const QueryHistory: React.FC<QueryHistoryProps> = ({
   const handleItemClick = useCallback(
     (item: QueryHistoryItem) => {
       setSelectedItem(item.id === selectedItem ? null : item.id);
-      onQuerySelect?.(item.query);
+      onQuerySelect?.(item.query, item.params);
     },
     [selectedItem, onQuerySelect]
   );
@@ -198,17 +217,28 @@ export const QueryHistory: React.FC<QueryHistoryProps> = ({
             <HistoryItem
               key={item.id}
               selected={selectedItem === item.id}
-              hasError={!!item.error}
+              hasError={item.status === 'error' || (!item.status && !!item.error)}
+              interrupted={item.status === 'cancelled' || item.status === 'timeout'}
               onClick={() => handleItemClick(item)}
             >
               <QueryText>{item.query}</QueryText>
-              {item.error ? (
+              {item.params && <ParamsText>Parameters: {JSON.stringify(item.params)}</ParamsText>}
+              {item.status === 'cancelled' || item.status === 'timeout' ? (
+                <InterruptedText>
+                  {item.status === 'timeout' ? 'Timed out' : 'Cancelled'}
+                </InterruptedText>
+              ) : item.error ? (
                 <ErrorText>Error: {item.error}</ErrorText>
               ) : item.result ? (
                 <ResultInfo>
-                  {item.result.rowsAffected !== undefined
-                    ? `${item.result.rowsAffected} row(s) affected`
-                    : `${item.result.values.length} row(s) returned`}
+                  {[
+                    item.result.columns.length > 0 &&
+                      `${item.result.values.length} row(s) returned`,
+                    item.result.rowsAffected !== undefined &&
+                      `${item.result.rowsAffected} row(s) affected`,
+                  ]
+                    .filter(Boolean)
+                    .join(', ')}
                 </ResultInfo>
               ) : null}
               <MetaInfo>
@@ -1,6 +1,9 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import styled from 'styled-components';
 import { useSQLite } from '../../context/SQLiteContext';
+import { QueryInterruptedError } from '../../core/errors';
+import { describeIndex } from '../../core/sqlUtils';
+import { IndexInfo } from '../../types';
 import { theme } from '../../styles/theme';
 
 const Container = styled.div`
@@ -172,6 +175,14 @@ const ErrorMessage = styled.div`
   border-radius: ${theme.borderRadius.sm};
 `;
 
+const InterruptedMessage = styled.div`
+  padding: ${theme.spacing.md};
+  background: #fffbeb;
+  color: #b45309;
+  margin: ${theme.spacing.md};
+  border-radius: ${theme.borderRadius.sm};
+`;
+
 const EmptyState = styled.div`
   display: flex;
   flex-direction: column;
@@ -189,9 +200,21 @@ interface QueryPlanNode {
   [key: string]: any;
 }
 
+/**
+ * Name of the index a plan step searches or scans with, if any
+ */
+function getPlanIndexName(detail: string): string | null {
+  const match = detail.match(/USING (?:COVERING )?INDEX (\S+)/);
+  return match ? match[1] : null;
+}
+
 interface QueryPlanProps {
   initialQuery?: string;
   viewMode?: 'tree' | 'table';
+  /** Stop the analysis after this many milliseconds */
+  timeout?: number;
+  /** Named connection to use; defaults to the provider's active connection */
+  connection?: string;
 }
 
 /**
@@ -200,20 +223,24 @@ interface QueryPlanProps {
 export const QueryPlan: React.FC<QueryPlanProps> = ({
   initialQuery = '',
   viewMode: initialViewMode = 'tree',
+  timeout,
+  connection,
 }) => {
-  const { executeQuery, db } = useSQLite();
+  const { executeQuery, cancelQuery, canCancel, isLoaded, getSchema } = useSQLite(connection);
   const [query, setQuery] = useState(initialQuery);
   const [planData, setPlanData] = useState<any[][]>([]);
   const [columns, setColumns] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [interruptedMessage, setInterruptedMessage] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'tree' | 'table'>(initialViewMode);
 
   const executePlan = useCallback(async () => {
-    if (!query.trim() || !db) return;
+    if (!query.trim() || !isLoaded) return;
 
     setIsLoading(true);
     setError(null);
+    setInterruptedMessage(null);
 
     try {
       // Ensure query starts with EXPLAIN QUERY PLAN
@@ -221,25 +248,29 @@ export const QueryPlan: React.FC<QueryPlanProps> = ({
         ? query.trim()
         : `EXPLAIN QUERY PLAN ${query.trim()}`;
 
-      const result = await executeQuery(planQuery);
+      const result = await executeQuery(planQuery, undefined, { timeout });
       setColumns(result.columns);
       setPlanData(result.values);
     } catch (err: any) {
-      setError(err.message || 'Failed to execute query plan');
+      if (err instanceof QueryInterruptedError) {
+        setInterruptedMessage(err.message);
+      } else {
+        setError(err.message || 'Failed to execute query plan');
+      }
       setPlanData([]);
       setColumns([]);
     } finally {
       setIsLoading(false);
     }
-  }, [query, executeQuery, db]);
+  }, [query, executeQuery, isLoaded, timeout]);
 
   // Auto-execute if initial query provided
   useEffect(() => {
-    if (initialQuery && db) {
+    if (initialQuery && isLoaded) {
       setQuery(initialQuery);
       executePlan();
     }
-  }, [db]);
+  }, [isLoaded]);
 
   // Parse plan data into tree structure
   const planTree = React.useMemo(() => {
@@ -284,6 +315,17 @@ export const QueryPlan: React.FC<QueryPlanProps> = ({
     return nodes;
   }, [planData, columns]);
 
+  // Indexes by name, to explain the ones plan steps use
+  const indexes = React.useMemo(() => {
+    const byName = new Map<string, IndexInfo>();
+    if (planData.length > 0) {
+      getSchema().tables.forEach((table) =>
+        table.indexes.forEach((index) => byName.set(index.name, index))
+      );
+    }
+    return byName;
+  }, [planData, getSchema]);
+
   const renderTreeView = () => {
     if (planTree.length === 0) {
       return <EmptyState>No query plan data available</EmptyState>;
@@ -293,6 +335,8 @@ export const QueryPlan: React.FC<QueryPlanProps> = ({
       <PlanTree>
         {planTree.map((node, index) => {
           const level = node.parent === -1 ? 0 : 1; // Simplified level calculation
+          const indexName = getPlanIndexName(node.detail);
+          const planIndex = indexName ? indexes.get(indexName) : undefined;
 
           return (
             <PlanNode key={index} level={level}>
@@ -318,6 +362,12 @@ export const QueryPlan: React.FC<QueryPlanProps> = ({
                     <DetailValue style={{ fontStyle: 'italic' }}>{node.detail}</DetailValue>
                   </DetailRow>
                 )}
+                {planIndex && (
+                  <DetailRow>
+                    <DetailLabel>Index:</DetailLabel>
+                    <DetailValue>{describeIndex(planIndex)}</DetailValue>
+                  </DetailRow>
+                )}
               </NodeDetails>
             </PlanNode>
           );
@@ -368,9 +418,10 @@ export const QueryPlan: React.FC<QueryPlanProps> = ({
   return (
     <Container>
       <Toolbar>
-        <Button variant="primary" onClick={executePlan} disabled={isLoading || !db}>
+        <Button variant="primary" onClick={executePlan} disabled={isLoading || !isLoaded}>
           {isLoading ? 'Analyzing...' : 'Analyze Query Plan'}
         </Button>
+        {isLoading && canCancel && <Button onClick={cancelQuery}>Cancel</Button>}
         <Button
           onClick={() => setViewMode(viewMode === 'tree' ? 'table' : 'tree')}
           disabled={planData.length === 0}
@@ -391,6 +442,8 @@ export const QueryPlan: React.FC<QueryPlanProps> = ({
 
       {error && <ErrorMessage>Error: {error}</ErrorMessage>}
 
+      {interruptedMessage && <InterruptedMessage>{interruptedMessage}</InterruptedMessage>}
+
       <VisualizationContainer>
         {viewMode === 'tree' ? renderTreeView() : renderTableView()}
       </VisualizationContainer>
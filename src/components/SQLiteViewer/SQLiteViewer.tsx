@@ -1,7 +1,18 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { useSQLite } from '../../context/SQLiteContext';
-import { TableInfo } from '../../types';
+import { ColumnInfo, IndexInfo, ObjectStatistics, TriggerInfo } from '../../types';
+import { formatBytes } from '../../core/format';
+import { tokenize } from '../../core/sqlParser';
+import {
+  unquoteIdentifier,
+  formatIndexKey,
+  describeIndex,
+  getForeignKeyActions,
+  describeForeignKey,
+  describeColumn,
+  qualifiedName,
+} from '../../core/sqlUtils';
 import { theme } from '../../styles/theme';
 
 const Container = styled.div`
@@ -40,10 +51,12 @@ const TableBox = styled.g<{ selected: boolean }>`
   }
 `;
 
-const TableRect = styled.rect<{ selected: boolean }>`
+const TableRect = styled.rect<{ selected: boolean; isView?: boolean }>`
   fill: ${(props) => (props.selected ? theme.colors.primary : theme.colors.white)};
-  stroke: ${(props) => (props.selected ? theme.colors.primary : theme.colors.border)};
+  stroke: ${(props) =>
+    props.selected ? theme.colors.primary : props.isView ? theme.colors.info : theme.colors.border};
   stroke-width: ${(props) => (props.selected ? 2 : 1)};
+  stroke-dasharray: ${(props) => (props.isView ? '6 3' : 'none')};
   rx: ${theme.borderRadius.sm};
   filter: ${(props) => (props.selected ? theme.shadows.lg : theme.shadows.sm)};
 `;
@@ -61,6 +74,30 @@ const ColumnText = styled.text`
   pointer-events: none;
 `;
 
+const IndexText = styled.text`
+  font-size: 11px;
+  font-style: italic;
+  fill: ${theme.colors.textLight};
+`;
+
+const NodeLabel = styled.text`
+  font-size: 10px;
+  fill: ${theme.colors.textLight};
+  pointer-events: none;
+`;
+
+const TriggerBadge = styled.text`
+  font-size: 11px;
+  fill: ${theme.colors.warning};
+`;
+
+const ViewDependencyLine = styled.line`
+  stroke: ${theme.colors.info};
+  stroke-width: 1.5;
+  stroke-dasharray: 4 4;
+  opacity: 0.6;
+`;
+
 const ForeignKeyLine = styled.line`
   stroke: ${theme.colors.secondary};
   stroke-width: 2;
@@ -68,6 +105,12 @@ const ForeignKeyLine = styled.line`
   opacity: 0.6;
 `;
 
+const RelationshipLabel = styled.text`
+  font-size: 10px;
+  fill: ${theme.colors.secondary};
+  pointer-events: none;
+`;
+
 const Controls = styled.div`
   position: absolute;
   top: ${theme.spacing.md};
@@ -77,6 +120,14 @@ const Controls = styled.div`
   z-index: 10;
 `;
 
+const DatabaseSelect = styled.select`
+  padding: ${theme.spacing.sm};
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.sm};
+  background: ${theme.colors.white};
+  font-size: 12px;
+`;
+
 const Button = styled.button`
   padding: ${theme.spacing.sm} ${theme.spacing.md};
   background: ${theme.colors.white};
@@ -92,10 +143,72 @@ const Button = styled.button`
   }
 `;
 
+/**
+ * A table or view drawn in the diagram
+ */
+interface DiagramNode {
+  name: string;
+  schema: string;
+  /** Qualified name identifying the node: schema.name outside the main database */
+  key: string;
+  kind: 'table' | 'view';
+  columns: ColumnInfo[];
+  indexes: IndexInfo[];
+  /** Labels shown in the header: VIEW, VIRTUAL (module), STRICT, WITHOUT ROWID */
+  labels: string[];
+  /** Table-level CHECK constraints */
+  checks: string[];
+  triggers: TriggerInfo[];
+}
+
+/**
+ * Compact markers for a column's constraints; the full definition is in its tooltip
+ */
+function getColumnMarkers(column: ColumnInfo): string {
+  return [
+    column.autoincrement && '↑',
+    column.generated && 'ƒ',
+    column.collation && 'Aa',
+    column.checks?.length && '✓',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Names from `names` that a view's SQL refers to
+ */
+function getViewDependencies(sql: string, names: string[]): string[] {
+  const known = new Map(names.map((name) => [name.toLowerCase(), name]));
+  const found = new Set<string>();
+
+  tokenize(sql).forEach((token) => {
+    if (token.type === 'word' || token.type === 'identifier') {
+      const name = known.get(unquoteIdentifier(token.value).toLowerCase());
+      if (name) found.add(name);
+    }
+  });
+
+  return Array.from(found);
+}
+
+/**
+ * Badge text for a table, e.g. `1,204 rows · 48.0 KB`
+ */
+function formatTableStats(stats: ObjectStatistics): string {
+  const parts: string[] = [];
+  if (stats.rowCount !== null) parts.push(`${stats.rowCount.toLocaleString()} rows`);
+  if (stats.sizeBytes !== null) parts.push(formatBytes(stats.sizeBytes));
+  return parts.join(' · ');
+}
+
 interface SQLiteViewerProps {
   width?: number;
   height?: number;
+  /** Called with the table's qualified name: schema.name for one in an attached database */
   onTableSelect?: (tableName: string) => void;
+  /** Named connection to use; defaults to the provider's active connection */
+  connection?: string;
 }
 
 /**
@@ -105,35 +218,102 @@ export const SQLiteViewer: React.FC<SQLiteViewerProps> = ({
   width = 800,
   height = 600,
   onTableSelect,
+  connection,
 }) => {
-  const { getSchema } = useSQLite();
+  const { getSchema, getStatistics, isLoaded } = useSQLite(connection);
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
+  // Database whose objects are drawn; empty for all of them
+  const [database, setDatabase] = useState('');
 
   const schema = getSchema();
-  const tables = schema.tables;
+  const { triggers } = schema;
+  const tables = useMemo(
+    () => schema.tables.filter((table) => !database || table.schema === database),
+    [schema, database]
+  );
+  const views = useMemo(
+    () => schema.views.filter((view) => !database || view.schema === database),
+    [schema, database]
+  );
 
-  // Calculate optimal layout for tables
+  // Row counts and sizes for the table badges, re-read when tables are added or
+  // removed; recounting after every write would read every row each time
+  const tableNames = useMemo(() => schema.tables.map(qualifiedName).join('\n'), [schema]);
+  const [tableStats, setTableStats] = useState<Map<string, ObjectStatistics>>(new Map());
+  useEffect(() => {
+    if (!isLoaded) {
+      setTableStats(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    getStatistics()
+      .then((stats) => {
+        if (!cancelled) setTableStats(new Map(stats.tables.map((t) => [qualifiedName(t), t])));
+      })
+      .catch(() => {
+        // Badges are informational; the diagram works without them
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tableNames, isLoaded, getStatistics]);
+
+  // Tables first, then views; triggers belong to the object of that name in their own database
+  const nodes = useMemo<DiagramNode[]>(
+    () => [
+      ...tables.map((table) => ({
+        name: table.name,
+        schema: table.schema,
+        key: qualifiedName(table),
+        kind: 'table' as const,
+        columns: table.columns,
+        indexes: table.indexes,
+        labels: table.virtualModule
+          ? [`VIRTUAL (${table.virtualModule})`]
+          : [table.strict && 'STRICT', table.withoutRowid && 'WITHOUT ROWID'].filter(
+              (label): label is string => Boolean(label)
+            ),
+        checks: table.checks,
+        triggers: triggers.filter((t) => t.schema === table.schema && t.table === table.name),
+      })),
+      ...views.map((view) => ({
+        name: view.name,
+        schema: view.schema,
+        key: qualifiedName(view),
+        kind: 'view' as const,
+        columns: view.columns,
+        indexes: [],
+        labels: ['VIEW'],
+        checks: [],
+        triggers: triggers.filter((t) => t.schema === view.schema && t.table === view.name),
+      })),
+    ],
+    [tables, views, triggers]
+  );
+
+  // Calculate optimal layout for tables and views
   const layout = useMemo(() => {
-    if (tables.length === 0) {
-      return { tables: [], relationships: [] };
+    if (nodes.length === 0) {
+      return { tables: [], relationships: [], viewDependencies: [] };
     }
 
     const tableWidth = 200;
     const tableHeight = 40; // Header
     const columnHeight = 20;
     const margin = 50;
-    const cols = Math.ceil(Math.sqrt(tables.length));
-    const rows = Math.ceil(tables.length / cols);
+    const cols = Math.ceil(Math.sqrt(nodes.length));
 
-    const tablePositions = tables.map((table, index) => {
+    const tablePositions = nodes.map((table, index) => {
       const col = index % cols;
       const row = Math.floor(index / cols);
+      const rowCount = table.columns.length + table.indexes.length;
       const x = margin + col * (tableWidth + margin);
-      const y = margin + row * (tableHeight + table.columns.length * columnHeight + margin * 2);
+      const y = margin + row * (tableHeight + rowCount * columnHeight + margin * 2);
 
-      const height = tableHeight + table.columns.length * columnHeight + 10;
+      const height = tableHeight + rowCount * columnHeight + 10;
 
       return {
         table,
@@ -144,34 +324,65 @@ export const SQLiteViewer: React.FC<SQLiteViewerProps> = ({
       };
     });
 
-    // Calculate relationships (foreign keys)
+    // Middle of the rows of the given columns; the header when none are found
+    const columnsY = (position: (typeof tablePositions)[number], names: (string | null)[]) => {
+      const rows = names
+        .map((name) => position.table.columns.findIndex((col) => col.name === name))
+        .filter((row) => row >= 0);
+      if (rows.length === 0) {
+        return position.y + 20;
+      }
+      const middle = (Math.min(...rows) + Math.max(...rows)) / 2;
+      return position.y + 40 + middle * 20 + 10;
+    };
+
+    // Position of a node in the given database
+    const findPosition = (schemaName: string, name: string) =>
+      tablePositions.find((tp) => tp.table.schema === schemaName && tp.table.name === name);
+
+    // Calculate relationships: one per foreign key constraint, however many columns it has.
+    // A foreign key always refers to a table in its own database.
     const relationships = tables.flatMap((table) =>
       table.foreignKeys.map((fk) => {
-        const fromTable = tablePositions.find((tp) => tp.table.name === fk.from);
-        const toTable = tablePositions.find((tp) => tp.table.name === fk.to);
+        const fromTable = findPosition(table.schema, fk.from);
+        const toTable = findPosition(table.schema, fk.to);
 
         if (!fromTable || !toTable) {
           return null;
         }
 
-        // Find column positions
-        const fromColumnIndex = fromTable.table.columns.findIndex((col) => col.name === fk.fromColumn);
-        const toColumnIndex = toTable.table.columns.findIndex((col) => col.name === fk.toColumn);
-
-        const fromY = fromTable.y + 40 + fromColumnIndex * 20 + 10;
-        const toY = toTable.y + 40 + toColumnIndex * 20 + 10;
-
         return {
-          from: { x: fromTable.x + fromTable.width, y: fromY },
-          to: { x: toTable.x, y: toY },
-          fromTable: fk.from,
-          toTable: fk.to,
+          from: {
+            x: fromTable.x + fromTable.width,
+            y: columnsY(fromTable, fk.columns.map((column) => column.from)),
+          },
+          to: { x: toTable.x, y: columnsY(toTable, fk.columns.map((column) => column.to)) },
+          fk,
+          key: `${qualifiedName(table)}-${fk.id}`,
         };
       })
     ).filter((rel): rel is NonNullable<typeof rel> => rel !== null);
 
-    return { tables: tablePositions, relationships };
-  }, [tables]);
+    // Link each view to the tables and views it selects from in its own database
+    const viewDependencies = tablePositions
+      .filter((tp) => tp.table.kind === 'view')
+      .flatMap((viewPosition) => {
+        const { schema: viewSchema, name: viewName } = viewPosition.table;
+        const view = views.find((v) => v.schema === viewSchema && v.name === viewName);
+        const names = nodes.filter((node) => node.schema === viewSchema).map((node) => node.name);
+        return getViewDependencies(view?.sql || '', names)
+          .filter((name) => name !== viewName)
+          .map((name) => {
+            const source = findPosition(viewSchema, name)!;
+            return {
+              from: { x: source.x + source.width, y: source.y + 20 },
+              to: { x: viewPosition.x, y: viewPosition.y + 20 },
+            };
+          });
+      });
+
+    return { tables: tablePositions, relationships, viewDependencies };
+  }, [nodes, tables, views]);
 
   const handleTableClick = (tableName: string) => {
     setSelectedTable(tableName === selectedTable ? null : tableName);
@@ -185,7 +396,7 @@ export const SQLiteViewer: React.FC<SQLiteViewerProps> = ({
     setPan({ x: 0, y: 0 });
   };
 
-  if (tables.length === 0) {
+  if (nodes.length === 0) {
     return (
       <Container style={{ width, height }}>
         <div
@@ -215,6 +426,16 @@ export const SQLiteViewer: React.FC<SQLiteViewerProps> = ({
   return (
     <Container style={{ width, height }}>
       <Controls>
+        {schema.databases.length > 1 && (
+          <DatabaseSelect value={database} onChange={(e) => setDatabase(e.target.value)}>
+            <option value="">All databases</option>
+            {schema.databases.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </DatabaseSelect>
+        )}
         <Button onClick={handleZoomIn}>Zoom In</Button>
         <Button onClick={handleZoomOut}>Zoom Out</Button>
         <Button onClick={handleReset}>Reset</Button>
@@ -239,45 +460,104 @@ export const SQLiteViewer: React.FC<SQLiteViewerProps> = ({
             </marker>
           </defs>
 
-          {/* Draw relationships first (behind tables) */}
-          {layout.relationships.map((rel, index) => (
-            <ForeignKeyLine
-              key={index}
-              x1={rel.from.x}
-              y1={rel.from.y}
-              x2={rel.to.x}
-              y2={rel.to.y}
+          {/* Draw view dependencies and relationships first (behind tables) */}
+          {layout.viewDependencies.map((dep, index) => (
+            <ViewDependencyLine
+              key={`view-${index}`}
+              x1={dep.from.x}
+              y1={dep.from.y}
+              x2={dep.to.x}
+              y2={dep.to.y}
             />
           ))}
 
+          {layout.relationships.map((rel) => (
+            <g key={rel.key}>
+              <title>{describeForeignKey(rel.fk)}</title>
+              <ForeignKeyLine x1={rel.from.x} y1={rel.from.y} x2={rel.to.x} y2={rel.to.y} />
+              {getForeignKeyActions(rel.fk).map((action, index) => (
+                <RelationshipLabel
+                  key={action}
+                  x={(rel.from.x + rel.to.x) / 2}
+                  y={(rel.from.y + rel.to.y) / 2 - 4 + index * 12}
+                  textAnchor="middle"
+                >
+                  {action}
+                </RelationshipLabel>
+              ))}
+            </g>
+          ))}
+
           {/* Draw tables */}
           {layout.tables.map(({ table, x, y, width: w, height: h }) => {
-            const isSelected = selectedTable === table.name;
+            const isSelected = selectedTable === table.key;
             const columnHeight = 20;
             const headerHeight = 40;
+            const compositeKey = table.columns.filter((column) => column.pk).length > 1;
 
             return (
               <TableBox
-                key={table.name}
+                key={table.key}
                 selected={isSelected}
-                onClick={() => handleTableClick(table.name)}
+                onClick={() => handleTableClick(table.key)}
               >
+                <title>
+                  {[table.key, ...table.checks.map((check) => `CHECK (${check})`)].join('\n')}
+                </title>
+
                 {/* Table rectangle */}
-                <TableRect selected={isSelected} x={x} y={y} width={w} height={h} />
+                <TableRect
+                  selected={isSelected}
+                  isView={table.kind === 'view'}
+                  x={x}
+                  y={y}
+                  width={w}
+                  height={h}
+                />
 
                 {/* Table name */}
                 <TableTitle x={x + 10} y={y + 25}>
-                  {table.name}
+                  {table.key}
                 </TableTitle>
 
+                {/* Views, virtual tables and table options are labelled in the header */}
+                {table.labels.length > 0 && (
+                  <NodeLabel x={x + w - 10} y={y + 14} textAnchor="end">
+                    {table.labels.join(' · ')}
+                  </NodeLabel>
+                )}
+
+                {tableStats.has(table.key) && (
+                  <NodeLabel x={x + 10} y={y + 37}>
+                    {formatTableStats(tableStats.get(table.key)!)}
+                  </NodeLabel>
+                )}
+
+                {table.triggers.length > 0 && (
+                  <TriggerBadge x={x + w - 10} y={y + 32} textAnchor="end">
+                    <title>
+                      {table.triggers
+                        .map((t) => `${t.name}: ${t.timing} ${t.event}`)
+                        .join('\n')}
+                    </title>
+                    ⚡{table.triggers.length}
+                  </TriggerBadge>
+                )}
+
                 {/* Columns */}
                 {table.columns.map((column, colIndex) => {
                   const colY = y + headerHeight + colIndex * columnHeight;
                   const isPrimaryKey = column.pk;
-                  const prefix = isPrimaryKey ? '🔑 ' : column.notnull ? '• ' : '○ ';
+                  // Composite keys show each column's position in the key
+                  const keyPosition = compositeKey ? column.pkOrder : '';
+                  const prefix = isPrimaryKey ? `🔑${keyPosition} ` : column.notnull ? '• ' : '○ ';
+                  const markers = getColumnMarkers(column);
 
                   return (
-                    <g key={column.name}>
+                    <g key={column.name} opacity={column.hidden ? 0.5 : 1}>
+                      <rect x={x} y={colY} width={w} height={columnHeight} fill="transparent">
+                        <title>{describeColumn(column)}</title>
+                      </rect>
                       <line
                         x1={x}
                         y1={colY}
@@ -288,11 +568,37 @@ export const SQLiteViewer: React.FC<SQLiteViewerProps> = ({
                       />
                       <ColumnText x={x + 10} y={colY + 15}>
                         {prefix}
-                        {column.name} ({column.type})
+                        {column.name} ({column.type}){markers && ` ${markers}`}
                       </ColumnText>
                     </g>
                   );
                 })}
+
+                {/* Indexes, below the columns */}
+                {table.indexes.map((index, indexIndex) => {
+                  const indexY =
+                    y + headerHeight + (table.columns.length + indexIndex) * columnHeight;
+
+                  return (
+                    <g key={index.name}>
+                      <line
+                        x1={x}
+                        y1={indexY}
+                        x2={x + w}
+                        y2={indexY}
+                        stroke={theme.colors.border}
+                        strokeDasharray="2 2"
+                        strokeWidth={1}
+                      />
+                      <IndexText x={x + 10} y={indexY + 15}>
+                        <title>{describeIndex(index)}</title>
+                        {index.unique ? 'UQ ' : 'IX '}
+                        {formatIndexKey(index)}
+                        {index.partial ? ' (partial)' : ''}
+                      </IndexText>
+                    </g>
+                  );
+                })}
               </TableBox>
             );
           })}
@@ -0,0 +1,501 @@
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import styled from 'styled-components';
+import { useSQLite } from '../../context/SQLiteContext';
+import { countSchemaChanges, diffLines, diffSchemas, getObjectDdl } from '../../core/schemaDiff';
+import { formatIndexKey } from '../../core/sqlUtils';
+import {
+  DatabaseSchema,
+  IndexInfo,
+  SchemaChangeKind,
+  SchemaObjectDiff,
+  TableDiff,
+  TableInfo,
+  TriggerInfo,
+  ViewInfo,
+} from '../../types';
+import { theme } from '../../styles/theme';
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  height: 100%;
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.md};
+  overflow: hidden;
+  background: ${theme.colors.white};
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: ${theme.spacing.md};
+  padding: ${theme.spacing.md};
+  border-bottom: 1px solid ${theme.colors.border};
+  background: ${theme.colors.light};
+`;
+
+const SidePicker = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing.sm};
+  font-size: 14px;
+  color: ${theme.colors.text};
+`;
+
+const Select = styled.select`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  border: 1px solid ${theme.colors.border};
+  border-radius: ${theme.borderRadius.sm};
+  background: ${theme.colors.white};
+  font-size: 14px;
+  cursor: pointer;
+  min-width: 180px;
+`;
+
+const FileInput = styled.input`
+  display: none;
+`;
+
+const Summary = styled.div`
+  margin-left: auto;
+  font-size: 12px;
+  color: ${theme.colors.textLight};
+`;
+
+const Content = styled.div`
+  flex: 1;
+  display: flex;
+  overflow: hidden;
+`;
+
+const TreePanel = styled.div`
+  width: 320px;
+  flex-shrink: 0;
+  overflow-y: auto;
+  border-right: 1px solid ${theme.colors.border};
+`;
+
+const TreeSectionTitle = styled.div`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  font-size: 12px;
+  font-weight: 600;
+  text-transform: uppercase;
+  color: ${theme.colors.textLight};
+  background: ${theme.colors.light};
+`;
+
+const TreeItem = styled.div<{ selected: boolean }>`
+  padding: ${theme.spacing.xs} ${theme.spacing.md};
+  cursor: pointer;
+  font-size: 13px;
+  background: ${(props) => (props.selected ? theme.colors.primaryLight : 'transparent')};
+
+  &:hover {
+    background: ${(props) => (props.selected ? theme.colors.primaryLight : theme.colors.light)};
+  }
+`;
+
+const ChildItem = styled.div`
+  padding-left: ${theme.spacing.lg};
+  font-size: 12px;
+`;
+
+const ChangeText = styled.div`
+  padding-left: 20px;
+  font-size: 11px;
+  color: ${theme.colors.secondary};
+`;
+
+const Badge = styled.span<{ kind: SchemaChangeKind }>`
+  display: inline-block;
+  width: 16px;
+  margin-right: ${theme.spacing.xs};
+  font-family: ${theme.fonts.mono};
+  font-weight: 600;
+  color: ${(props) => KIND_COLORS[props.kind]};
+`;
+
+const DdlPanel = styled.div`
+  flex: 1;
+  overflow: auto;
+`;
+
+const DdlTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  table-layout: fixed;
+  font-family: ${theme.fonts.mono};
+  font-size: 12px;
+`;
+
+const DdlHeader = styled.th`
+  position: sticky;
+  top: 0;
+  padding: ${theme.spacing.sm};
+  text-align: left;
+  font-family: ${theme.fonts.sans};
+  background: ${theme.colors.light};
+  border-bottom: 1px solid ${theme.colors.border};
+`;
+
+const DdlCell = styled.td<{ tint: string }>`
+  padding: 1px ${theme.spacing.sm};
+  white-space: pre-wrap;
+  word-break: break-word;
+  vertical-align: top;
+  background: ${(props) => props.tint};
+  border-right: 1px solid ${theme.colors.border};
+`;
+
+const EmptyState = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+  color: ${theme.colors.textLight};
+  padding: ${theme.spacing.xxl};
+`;
+
+const ErrorMessage = styled.div`
+  padding: ${theme.spacing.sm} ${theme.spacing.md};
+  background: #fee;
+  color: ${theme.colors.danger};
+  font-size: 14px;
+`;
+
+const KIND_COLORS: Record<SchemaChangeKind, string> = {
+  added: theme.colors.success,
+  removed: theme.colors.danger,
+  changed: theme.colors.warning,
+};
+
+const KIND_SYMBOLS: Record<SchemaChangeKind, string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+// Backgrounds of DDL lines; a blank side of an added or removed line is greyed out
+const REMOVED_TINT = '#fee2e2';
+const ADDED_TINT = '#dcfce7';
+const BLANK_TINT = theme.colors.background;
+
+const FIELD_LABELS: Record<string, string> = {
+  dflt_value: 'default',
+  notnull: 'not null',
+  pk: 'primary key',
+  pkOrder: 'key position',
+  generatedExpression: 'generated as',
+  primaryKey: 'primary key',
+  withoutRowid: 'without rowid',
+  virtualModule: 'module',
+  keyColumns: 'columns',
+  onUpdate: 'on update',
+  onDelete: 'on delete',
+};
+
+/**
+ * One side of the comparison: the open database, or a schema read from a file
+ * or from storage
+ */
+interface DiffSide {
+  label: string;
+  /** Null for the open database, whose schema is kept current */
+  schema: DatabaseSchema | null;
+}
+
+type SchemaObject = TableInfo | ViewInfo | TriggerInfo;
+
+/**
+ * A property of a schema object as text
+ */
+function formatField(object: unknown, field: string): string {
+  if (field === 'keyColumns') {
+    return formatIndexKey(object as IndexInfo);
+  }
+  if (field === 'columns') {
+    // A foreign key's parent columns, or a view's column names
+    const columns = (object as { columns: { to?: string | null; name?: string }[] }).columns;
+    return columns.map((column) => column.to ?? column.name ?? '?').join(', ');
+  }
+
+  const value = (object as Record<string, unknown>)[field];
+  if (value === undefined || value === null || value === '') {
+    return 'none';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'yes' : 'no';
+  }
+  if (Array.isArray(value)) {
+    return value.length ? value.join(', ') : 'none';
+  }
+  return String(value);
+}
+
+function describeChange(entry: SchemaObjectDiff<unknown>, field: string): string {
+  if (field === 'sql') {
+    return 'definition changed';
+  }
+  if (field === 'position') {
+    return 'moved';
+  }
+  return `${FIELD_LABELS[field] || field}: ${formatField(entry.before, field)} → ${formatField(entry.after, field)}`;
+}
+
+interface SchemaDiffViewProps {
+  /** Older schema; when unset, it is picked from the open database, a file or storage */
+  before?: DatabaseSchema;
+  /** Newer schema; when unset, it is picked like `before`, starting with the open database */
+  after?: DatabaseSchema;
+  /** Named connection to use; defaults to the provider's active connection */
+  connection?: string;
+}
+
+/**
+ * SchemaDiffView - Compares two database schemas, as a tree of changes and as
+ * side-by-side DDL
+ */
+export const SchemaDiffView: React.FC<SchemaDiffViewProps> = ({ before, after, connection }) => {
+  const { getSchema, isLoaded, readSchema, readStoredSchema, canPersist, storedDatabases } =
+    useSQLite(connection);
+  const [sides, setSides] = useState<{ before: DiffSide | null; after: DiffSide | null }>({
+    before: null,
+    after: { label: 'Open database', schema: null },
+  });
+  const [selected, setSelected] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Side the file being picked is for
+  const pickingRef = useRef<'before' | 'after'>('before');
+
+  const setSide = useCallback((side: 'before' | 'after', value: DiffSide | null) => {
+    setSides((current) => ({ ...current, [side]: value }));
+    setSelected(null);
+    setError(null);
+  }, []);
+
+  const resolveSchema = (given: DatabaseSchema | undefined, side: DiffSide | null) =>
+    given ?? (side && (side.schema ?? (isLoaded ? getSchema() : null)));
+  const beforeSchema = resolveSchema(before, sides.before);
+  const afterSchema = resolveSchema(after, sides.after);
+  const beforeLabel = before ? 'Before' : sides.before?.label || 'Before';
+  const afterLabel = after ? 'After' : sides.after?.label || 'After';
+
+  const diff = useMemo(
+    () => (beforeSchema && afterSchema ? diffSchemas(beforeSchema, afterSchema) : null),
+    [beforeSchema, afterSchema]
+  );
+
+  const entries = useMemo(
+    () =>
+      diff
+        ? [
+            ...diff.tables.map((entry) => ({ id: `table:${entry.name}`, entry })),
+            ...diff.views.map((entry) => ({ id: `view:${entry.name}`, entry })),
+            ...diff.triggers.map((entry) => ({ id: `trigger:${entry.name}`, entry })),
+          ]
+        : [],
+    [diff]
+  );
+  const current = entries.find((item) => item.id === selected) ?? entries[0];
+
+  const handleSourceChange = useCallback(
+    async (side: 'before' | 'after', value: string) => {
+      if (value === 'open') {
+        setSide(side, { label: 'Open database', schema: null });
+      } else if (value === 'file') {
+        pickingRef.current = side;
+        fileInputRef.current?.click();
+      } else if (value.startsWith('stored:')) {
+        const name = value.slice('stored:'.length);
+        try {
+          setSide(side, { label: name, schema: await readStoredSchema(name) });
+        } catch (err: any) {
+          setError(`Failed to read ${name}: ${err.message}`);
+        }
+      } else {
+        setSide(side, null);
+      }
+    },
+    [readStoredSchema, setSide]
+  );
+
+  const handleFileSelect = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      try {
+        const schema = await readSchema(new Uint8Array(await file.arrayBuffer()));
+        setSide(pickingRef.current, { label: file.name, schema });
+      } catch (err: any) {
+        setError(`Failed to read ${file.name}: ${err.message}`);
+      }
+    },
+    [readSchema, setSide]
+  );
+
+  const sourceValue = (side: DiffSide | null) =>
+    !side
+      ? ''
+      : side.schema === null
+        ? 'open'
+        : storedDatabases.some((stored) => stored.name === side.label)
+          ? `stored:${side.label}`
+          : `loaded:${side.label}`;
+
+  const renderPicker = (side: 'before' | 'after', label: string) => {
+    const value = sides[side];
+    return (
+      <SidePicker>
+        {label}
+        <Select
+          value={sourceValue(value)}
+          onChange={(e) => handleSourceChange(side, e.target.value)}
+        >
+          <option value="">Choose a database...</option>
+          {isLoaded && <option value="open">Open database</option>}
+          {value?.schema && !sourceValue(value).startsWith('stored:') && (
+            <option value={`loaded:${value.label}`}>{value.label}</option>
+          )}
+          {canPersist && storedDatabases.length > 0 && (
+            <optgroup label="Stored databases">
+              {storedDatabases.map((stored) => (
+                <option key={stored.name} value={`stored:${stored.name}`}>
+                  {stored.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <option value="file">Database file...</option>
+        </Select>
+      </SidePicker>
+    );
+  };
+
+  const renderEntry = (id: string, entry: SchemaObjectDiff<unknown>) => (
+    <TreeItem key={id} selected={current?.id === id} onClick={() => setSelected(id)}>
+      <Badge kind={entry.kind}>{KIND_SYMBOLS[entry.kind]}</Badge>
+      {entry.name}
+      {entry.changes.map((field) => (
+        <ChangeText key={field}>{describeChange(entry, field)}</ChangeText>
+      ))}
+      {'columns' in entry &&
+        (['columns', 'indexes', 'foreignKeys'] as const).flatMap((group) =>
+          (entry as TableDiff)[group].map((child: SchemaObjectDiff<unknown>) => (
+            <ChildItem key={`${group}:${child.name}`}>
+              <Badge kind={child.kind}>{KIND_SYMBOLS[child.kind]}</Badge>
+              {group === 'indexes' ? 'index ' : group === 'foreignKeys' ? 'foreign key ' : ''}
+              {child.name}
+              {child.changes.map((field) => (
+                <ChangeText key={field}>{describeChange(child, field)}</ChangeText>
+              ))}
+            </ChildItem>
+          ))
+        )}
+    </TreeItem>
+  );
+
+  const renderDdl = (entry: SchemaObjectDiff<SchemaObject>) => {
+    const lines = diffLines(
+      entry.before ? getObjectDdl(entry.before) : '',
+      entry.after ? getObjectDdl(entry.after) : ''
+    );
+    return (
+      <DdlTable>
+        <thead>
+          <tr>
+            <DdlHeader>{beforeLabel}</DdlHeader>
+            <DdlHeader>{afterLabel}</DdlHeader>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line, index) => (
+            <tr key={index}>
+              <DdlCell
+                tint={
+                  line.before === null
+                    ? BLANK_TINT
+                    : line.kind === 'same'
+                      ? 'transparent'
+                      : REMOVED_TINT
+                }
+              >
+                {line.before}
+              </DdlCell>
+              <DdlCell
+                tint={
+                  line.after === null
+                    ? BLANK_TINT
+                    : line.kind === 'same'
+                      ? 'transparent'
+                      : ADDED_TINT
+                }
+              >
+                {line.after}
+              </DdlCell>
+            </tr>
+          ))}
+        </tbody>
+      </DdlTable>
+    );
+  };
+
+  const counts = diff && countSchemaChanges(diff);
+  const sections: { title: string; kind: string; list: SchemaObjectDiff<unknown>[] }[] = diff
+    ? [
+        { title: 'Tables', kind: 'table', list: diff.tables },
+        { title: 'Views', kind: 'view', list: diff.views },
+        { title: 'Triggers', kind: 'trigger', list: diff.triggers },
+      ]
+    : [];
+
+  return (
+    <Container>
+      <Toolbar>
+        {!before && renderPicker('before', 'Before')}
+        {!after && renderPicker('after', 'After')}
+        <FileInput
+          ref={fileInputRef}
+          type="file"
+          accept=".db,.sqlite,.sqlite3"
+          onChange={handleFileSelect}
+        />
+        {counts && entries.length > 0 && (
+          <Summary>
+            {counts.added} added · {counts.removed} removed · {counts.changed} changed
+          </Summary>
+        )}
+      </Toolbar>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+
+      {!diff ? (
+        <EmptyState>Choose two databases to compare their schemas</EmptyState>
+      ) : !entries.length ? (
+        <EmptyState>The schemas are the same</EmptyState>
+      ) : (
+        <Content>
+          <TreePanel>
+            {sections.map(
+              ({ title, kind, list }) =>
+                list.length > 0 && (
+                  <div key={kind}>
+                    <TreeSectionTitle>{title}</TreeSectionTitle>
+                    {list.map((entry) => renderEntry(`${kind}:${entry.name}`, entry))}
+                  </div>
+                )
+            )}
+          </TreePanel>
+          <DdlPanel>
+            {current && renderDdl(current.entry as SchemaObjectDiff<SchemaObject>)}
+          </DdlPanel>
+        </Content>
+      )}
+    </Container>
+  );
+};
+
@@ -1,38 +1,205 @@
-import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
 import {
   SQLiteContextValue,
   QueryResult,
   QueryHistoryItem,
   DatabaseSchema,
+  DatabaseStatistics,
+  DataDiffOptions,
+  TableDataDiff,
+  TableDataDiffOptions,
   ExportOptions,
+  ExportFileOptions,
+  ImportOptions,
+  ImportResult,
+  JsonExport,
+  JsonImportOptions,
+  JsonImportResult,
+  SqlDumpOptions,
+  SqlDumpResult,
+  BindParams,
+  QueryOptions,
+  QueryStatus,
+  ScriptOptions,
+  ScriptStatementResult,
+  StreamOptions,
+  RowBatch,
+  TransactionScope,
+  SQLiteInitOptions,
+  DatabaseBackend,
+  PersistenceOptions,
+  StoredDatabaseInfo,
 } from '../types';
 import { DatabaseManager } from '../core/database';
+import { WorkerDatabaseManager, WorkerLike } from '../core/workerClient';
 import { QueryHistoryManager } from '../core/queryHistory';
+import { DatabasePersistence } from '../core/persistence';
+import { classifyStatements, isWriteKind } from '../core/sqlParser';
+import { QueryInterruptedError } from '../core/errors';
+import { runTransaction } from '../core/transaction';
+import { runSqlDump } from '../core/sqlDump';
+import {
+  diffTableData as compareTableData,
+  diffDatabaseData as compareDatabaseData,
+} from '../core/dataDiff';
+import {
+  exportToBlob as writeExportBlob,
+  exportToStream as writeExportStream,
+} from '../core/exportStream';
 
-const SQLiteContext = createContext<SQLiteContextValue | null>(null);
+const EMPTY_SCHEMA: DatabaseSchema = {
+  tables: [],
+  views: [],
+  triggers: [],
+  databases: [],
+  version: '0.0.0',
+};
+
+/**
+ * How one connection runs its database
+ */
+export interface SQLiteConnectionOptions {
+  /** How to load sql.js on the main thread; read once on mount */
+  initOptions?: SQLiteInitOptions;
+  /**
+   * Run the database in a Web Worker set up with exposeDatabaseWorker instead of
+   * on the main thread; read once on mount. A worker created by a factory is
+   * terminated on unmount. Only a factory lets running queries be cancelled,
+   * since cancelling replaces the worker
+   */
+  worker?: WorkerLike | (() => WorkerLike);
+  /** Default timeout in milliseconds for queries run through the context */
+  queryTimeout?: number;
+  /**
+   * Keep databases in persistent browser storage, autosaving the open one after
+   * writes; read once on mount
+   */
+  persistence?: PersistenceOptions;
+}
+
+/**
+ * Named connections hosted by SQLiteProvider, and the one components use by default
+ */
+export interface SQLiteConnectionsValue {
+  /** Names of the open connections, the provider's default connection first */
+  connections: string[];
+  /** Connection used by useSQLite() and by components without a `connection` prop */
+  activeConnection: string;
+  setActiveConnection: (name: string) => void;
+  /**
+   * Open another connection, with its own database, schema and history. Unset options
+   * fall back to the provider's initOptions and queryTimeout, and to its worker when
+   * that is a factory; persistence is never shared
+   */
+  openConnection: (name: string, options?: SQLiteConnectionOptions) => void;
+  /** Close a connection and its database; the default connection stays open */
+  closeConnection: (name: string) => void;
+}
+
+interface ConnectionRegistry extends SQLiteConnectionsValue {
+  /** Values of connections whose host has rendered, by name */
+  values: Record<string, SQLiteContextValue>;
+}
 
-interface SQLiteProviderProps {
+const SQLiteConnectionsContext = createContext<ConnectionRegistry | null>(null);
+
+const DEFAULT_CONNECTION = 'default';
+const HISTORY_STORAGE_KEY = 'sqlite-visualizer-history';
+const LAST_DATABASE_KEY = 'sqlite-visualizer-last-database';
+
+interface SQLiteProviderProps extends SQLiteConnectionOptions {
   children: React.ReactNode;
+  /**
+   * Further connections to open on mount, by name; read once on mount. The
+   * top-level options configure the default connection
+   */
+  connections?: Record<string, SQLiteConnectionOptions>;
+  /** Name of the connection configured by the top-level options (default: 'default') */
+  defaultConnection?: string;
 }
 
-export const SQLiteProvider: React.FC<SQLiteProviderProps> = ({ children }) => {
+/**
+ * History status for a failed query
+ */
+const getFailureStatus = (err: unknown): QueryStatus =>
+  err instanceof QueryInterruptedError ? err.reason : 'error';
+
+/**
+ * State and operations of one connection
+ */
+function useConnection(
+  { initOptions, worker, queryTimeout, persistence }: SQLiteConnectionOptions,
+  storageSuffix: string
+): SQLiteContextValue {
   const [db, setDb] = useState<import('sql.js').Database | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [initError, setInitError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [canCancel, setCanCancel] = useState(false);
+  const [transactionDepth, setTransactionDepth] = useState(0);
+  const [schema, setSchema] = useState<DatabaseSchema>(EMPTY_SCHEMA);
   const [queryHistory, setQueryHistory] = useState<QueryHistoryItem[]>([]);
+  const [storedDatabases, setStoredDatabases] = useState<StoredDatabaseInfo[]>([]);
+  const [storedDatabaseName, setStoredDatabaseName] = useState<string | null>(null);
 
-  const dbManagerRef = useRef<DatabaseManager | null>(null);
+  const dbManagerRef = useRef<DatabaseBackend | null>(null);
   const historyManagerRef = useRef<QueryHistoryManager | null>(null);
+  const persistenceRef = useRef<DatabasePersistence | null>(null);
+  // Controllers of queries still running, aborted by cancelQuery
+  const runningQueriesRef = useRef<Set<AbortController>>(new Set());
 
   // Initialize managers
   useEffect(() => {
-    dbManagerRef.current = new DatabaseManager();
-    historyManagerRef.current = new QueryHistoryManager();
+    const ownsWorker = typeof worker === 'function';
+    const dbManager: DatabaseBackend = worker
+      ? new WorkerDatabaseManager(worker)
+      : new DatabaseManager(initOptions);
 
-    // Initialize sql.js
-    dbManagerRef.current.initialize().catch((err) => {
-      setError(`Failed to initialize database: ${err.message}`);
-    });
+    dbManagerRef.current = dbManager;
+    setCanCancel(dbManager.canCancel());
+    historyManagerRef.current = new QueryHistoryManager(100, HISTORY_STORAGE_KEY + storageSuffix);
+
+    const databasePersistence =
+      persistence &&
+      new DatabasePersistence(persistence.adapter, {
+        autosaveDelay: persistence.autosaveDelay,
+        lastOpenedKey: LAST_DATABASE_KEY + storageSuffix,
+        onChange: () => syncStoredDatabases(),
+      });
+    persistenceRef.current = databasePersistence || null;
+
+    // Initialize sql.js, then reopen the database stored last
+    dbManager
+      .initialize()
+      .then(async () => {
+        setIsInitialized(true);
+        if (!databasePersistence) return;
+
+        const lastOpened = databasePersistence.getLastOpened();
+        if (persistence.reopen !== false && lastOpened) {
+          try {
+            await databasePersistence.open(dbManager, lastOpened);
+            await handleDatabaseOpened();
+          } catch (err) {
+            console.warn('Failed to reopen stored database:', err);
+          }
+        }
+        await syncStoredDatabases();
+      })
+      .catch((err) => {
+        setInitError(err.message);
+        setError(`Failed to initialize database: ${err.message}`);
+      });
 
     // Load history
     if (historyManagerRef.current) {
@@ -40,50 +207,180 @@ export const SQLiteProvider: React.FC<SQLiteProviderProps> = ({ children }) => {
     }
 
     return () => {
-      if (dbManagerRef.current) {
-        dbManagerRef.current.close();
+      // Write out a pending autosave before the database goes away
+      Promise.resolve(databasePersistence?.flush())
+        .catch(() => undefined)
+        .then(() => dbManager.close())
+        .catch(() => undefined);
+      if (ownsWorker && dbManager instanceof WorkerDatabaseManager) {
+        dbManager.terminate();
       }
     };
   }, []);
 
-  const loadDatabase = useCallback(async (data: Uint8Array | ArrayBuffer) => {
-    if (!dbManagerRef.current) {
-      throw new Error('Database manager not initialized');
+  /**
+   * Re-read the schema from the database into the cache
+   */
+  const refreshSchema = useCallback(async () => {
+    if (!dbManagerRef.current || !dbManagerRef.current.isLoaded()) {
+      setSchema(EMPTY_SCHEMA);
+      return;
     }
 
-    setIsLoading(true);
-    setError(null);
+    setSchema(await dbManagerRef.current.getSchema());
+  }, []);
+
+  /**
+   * Re-read how many transaction levels are open, which any statement may change
+   */
+  const syncTransactionDepth = useCallback(async () => {
+    const dbManager = dbManagerRef.current;
+    if (!dbManager || !dbManager.isLoaded()) {
+      setTransactionDepth(0);
+      return;
+    }
+
+    setTransactionDepth(await dbManager.getTransactionDepth());
+  }, []);
+
+  /**
+   * Re-read the list of stored databases, and the name the open one is stored under
+   */
+  const syncStoredDatabases = useCallback(async () => {
+    const databasePersistence = persistenceRef.current;
+    if (!databasePersistence) return;
 
+    setStoredDatabaseName(databasePersistence.currentName);
     try {
-      await dbManagerRef.current.loadDatabase(data);
-      const database = dbManagerRef.current.getDatabase();
-      setDb(database);
+      setStoredDatabases(await databasePersistence.list());
     } catch (err: any) {
-      setError(err.message || 'Failed to load database');
-      throw err;
-    } finally {
-      setIsLoading(false);
+      setError(`Failed to list stored databases: ${err.message}`);
+    }
+  }, []);
+
+  /**
+   * Save the stored database shortly after a write
+   */
+  const scheduleAutosave = useCallback(() => {
+    if (persistenceRef.current && dbManagerRef.current && persistence?.autosave !== false) {
+      persistenceRef.current.scheduleSave(dbManagerRef.current);
+    }
+  }, [persistence]);
+
+  /**
+   * Stop autosaving the stored database, saving what is pending, before another replaces it
+   */
+  const detachStoredDatabase = useCallback(async () => {
+    if (persistenceRef.current) {
+      await persistenceRef.current.detach();
+      setStoredDatabaseName(null);
     }
   }, []);
 
-  const createDatabase = useCallback(() => {
+  /**
+   * Sync loaded state after the database was replaced
+   */
+  const handleDatabaseOpened = useCallback(async () => {
+    const dbManager = dbManagerRef.current;
+    setDb(dbManager instanceof DatabaseManager ? dbManager.getDatabase() : null);
+    setIsLoaded(true);
+    setTransactionDepth(0);
+    await refreshSchema();
+  }, [refreshSchema]);
+
+  const loadDatabase = useCallback(
+    async (data: Uint8Array | ArrayBuffer) => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        await detachStoredDatabase();
+        await dbManagerRef.current.loadDatabase(data);
+        setIsInitialized(true);
+        setInitError(null);
+        await handleDatabaseOpened();
+      } catch (err: any) {
+        setError(err.message || 'Failed to load database');
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [handleDatabaseOpened, detachStoredDatabase]
+  );
+
+  const createDatabase = useCallback(async () => {
     if (!dbManagerRef.current) {
       throw new Error('Database manager not initialized');
     }
 
     setError(null);
     try {
-      dbManagerRef.current.createDatabase();
-      const database = dbManagerRef.current.getDatabase();
-      setDb(database);
+      await detachStoredDatabase();
+      await dbManagerRef.current.createDatabase();
+      await handleDatabaseOpened();
     } catch (err: any) {
       setError(err.message || 'Failed to create database');
       throw err;
     }
+  }, [handleDatabaseOpened, detachStoredDatabase]);
+
+  /**
+   * Track a running query so cancelQuery can abort it, following the caller's signal
+   */
+  const startQuery = useCallback((signal?: AbortSignal): AbortController => {
+    const controller = new AbortController();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+    runningQueriesRef.current.add(controller);
+    return controller;
   }, []);
 
+  const loadSQLDump = useCallback(
+    async (script: string, options: SqlDumpOptions = {}): Promise<SqlDumpResult> => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      setIsLoading(true);
+      setError(null);
+      const controller = startQuery(options.signal);
+      try {
+        await detachStoredDatabase();
+        await dbManagerRef.current.createDatabase();
+        await handleDatabaseOpened();
+        const result = await runSqlDump(dbManagerRef.current, script, {
+          ...options,
+          signal: controller.signal,
+        });
+        await refreshSchema();
+        return result;
+      } catch (err: any) {
+        setError(err.message || 'Failed to load SQL dump');
+        await refreshSchema().catch(() => undefined);
+        throw err;
+      } finally {
+        runningQueriesRef.current.delete(controller);
+        await syncTransactionDepth().catch(() => undefined);
+        setIsLoading(false);
+      }
+    },
+    [handleDatabaseOpened, detachStoredDatabase, refreshSchema, syncTransactionDepth, startQuery]
+  );
+
   const executeQuery = useCallback(
-    async (query: string): Promise<QueryResult> => {
+    async (
+      query: string,
+      params?: BindParams,
+      options: QueryOptions = {}
+    ): Promise<QueryResult> => {
       if (!dbManagerRef.current) {
         throw new Error('Database manager not initialized');
       }
@@ -91,17 +388,31 @@ export const SQLiteProvider: React.FC<SQLiteProviderProps> = ({ children }) => {
       const startTime = performance.now();
       let result: QueryResult | undefined;
       let error: string | undefined;
+      const controller = startQuery(options.signal);
 
       try {
-        result = dbManagerRef.current.executeQuery(query);
+        result = await dbManagerRef.current.executeQuery(query, params, {
+          timeout: options.timeout ?? queryTimeout,
+          signal: controller.signal,
+        });
         const executionTime = performance.now() - startTime;
 
         // Add to history
         if (historyManagerRef.current) {
-          historyManagerRef.current.add(query, executionTime, result);
+          historyManagerRef.current.add(query, executionTime, result, undefined, params);
           setQueryHistory(historyManagerRef.current.getAll());
         }
 
+        // Plain queries cannot change the schema
+        const kinds = classifyStatements(query);
+        if (kinds.some(isWriteKind)) {
+          await refreshSchema();
+          scheduleAutosave();
+        }
+        if (kinds.includes('transaction')) {
+          await syncTransactionDepth();
+        }
+
         return result;
       } catch (err: any) {
         error = err.message || 'Query execution failed';
@@ -109,65 +420,433 @@ export const SQLiteProvider: React.FC<SQLiteProviderProps> = ({ children }) => {
 
         // Add to history with error
         if (historyManagerRef.current) {
-          historyManagerRef.current.add(query, executionTime, undefined, error);
+          historyManagerRef.current.add(
+            query,
+            executionTime,
+            undefined,
+            error,
+            params,
+            getFailureStatus(err)
+          );
           setQueryHistory(historyManagerRef.current.getAll());
         }
 
+        // A cancelled worker query restarts the worker, and ON CONFLICT ROLLBACK ends
+        // the transaction, discarding any open one
+        await syncTransactionDepth().catch(() => undefined);
         throw err;
+      } finally {
+        runningQueriesRef.current.delete(controller);
       }
     },
-    []
+    [refreshSchema, syncTransactionDepth, scheduleAutosave, startQuery, queryTimeout]
+  );
+
+  const executeScript = useCallback(
+    async (script: string, options: ScriptOptions = {}): Promise<ScriptStatementResult[]> => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      const controller = startQuery(options.signal);
+      let results: ScriptStatementResult[];
+      try {
+        results = await dbManagerRef.current.executeScript(script, {
+          ...options,
+          timeout: options.timeout ?? queryTimeout,
+          signal: controller.signal,
+        });
+      } catch (err) {
+        // The worker was restarted, so earlier statements were rolled back too
+        await refreshSchema().catch(() => undefined);
+        await syncTransactionDepth().catch(() => undefined);
+        throw err;
+      } finally {
+        runningQueriesRef.current.delete(controller);
+      }
+
+      // Add each executed statement to history
+      if (historyManagerRef.current) {
+        const historyManager = historyManagerRef.current;
+        results.forEach((statementResult) => {
+          const { columns, values, rowsAffected, sql, executionTime, error, interrupted } =
+            statementResult;
+          const result: QueryResult = { columns, values, rowsAffected };
+          historyManager.add(
+            sql,
+            executionTime,
+            error ? undefined : result,
+            error,
+            undefined,
+            interrupted
+          );
+        });
+        setQueryHistory(historyManager.getAll());
+      }
+
+      await refreshSchema();
+      await syncTransactionDepth();
+      scheduleAutosave();
+      return results;
+    },
+    [refreshSchema, syncTransactionDepth, scheduleAutosave, startQuery, queryTimeout]
+  );
+
+  const streamQuery = useCallback(
+    async function* (
+      query: string,
+      params?: BindParams,
+      options: StreamOptions = {}
+    ): AsyncGenerator<RowBatch> {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      const controller = startQuery(options.signal);
+      try {
+        yield* dbManagerRef.current.streamQuery(query, params, {
+          ...options,
+          signal: controller.signal,
+        });
+      } finally {
+        runningQueriesRef.current.delete(controller);
+      }
+    },
+    [startQuery]
   );
 
-  const getSchema = useCallback((): DatabaseSchema => {
+  const cancelQuery = useCallback(() => {
+    runningQueriesRef.current.forEach((controller) => controller.abort());
+    runningQueriesRef.current.clear();
+  }, []);
+
+  const beginTransaction = useCallback(async () => {
     if (!dbManagerRef.current) {
-      return { tables: [], version: '0.0.0' };
+      throw new Error('Database manager not initialized');
     }
 
-    return dbManagerRef.current.getSchema();
+    try {
+      await dbManagerRef.current.beginTransaction();
+    } finally {
+      await syncTransactionDepth();
+    }
+  }, [syncTransactionDepth]);
+
+  const commit = useCallback(async () => {
+    if (!dbManagerRef.current) {
+      throw new Error('Database manager not initialized');
+    }
+
+    try {
+      await dbManagerRef.current.commit();
+      scheduleAutosave();
+    } finally {
+      await syncTransactionDepth();
+    }
+  }, [syncTransactionDepth, scheduleAutosave]);
+
+  const rollback = useCallback(async () => {
+    if (!dbManagerRef.current) {
+      throw new Error('Database manager not initialized');
+    }
+
+    try {
+      await dbManagerRef.current.rollback();
+    } finally {
+      await syncTransactionDepth();
+      // Rolled back DDL changes the schema back
+      await refreshSchema();
+    }
+  }, [syncTransactionDepth, refreshSchema]);
+
+  const transaction = useCallback(
+    <T,>(fn: (tx: TransactionScope) => T | Promise<T>): Promise<T> => {
+      if (!dbManagerRef.current) {
+        return Promise.reject(new Error('Database manager not initialized'));
+      }
+
+      const dbManager = dbManagerRef.current;
+      const control = {
+        beginTransaction,
+        commit,
+        rollback,
+        getTransactionDepth: () => dbManager.getTransactionDepth(),
+      };
+      const scope: TransactionScope = {
+        executeQuery,
+        executeScript,
+        transaction: (nested) => transaction(nested),
+      };
+      return runTransaction(control, scope, fn);
+    },
+    [beginTransaction, commit, rollback, executeQuery, executeScript]
+  );
+
+  const getSchema = useCallback((): DatabaseSchema => schema, [schema]);
+
+  const readSchema = useCallback(
+    async (data: Uint8Array | ArrayBuffer): Promise<DatabaseSchema> => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      return dbManagerRef.current.readSchema(data);
+    },
+    []
+  );
+
+  const readStoredSchema = useCallback(async (name: string): Promise<DatabaseSchema> => {
+    if (!dbManagerRef.current || !persistenceRef.current) {
+      throw new Error('Persistent storage is not configured');
+    }
+
+    return dbManagerRef.current.readSchema(await persistenceRef.current.read(name));
   }, []);
 
   const getTableInfo = useCallback(
-    (tableName: string) => {
+    (tableName: string, schemaName: string = 'main') => {
+      return (
+        schema.tables.find((table) => table.name === tableName && table.schema === schemaName) ||
+        null
+      );
+    },
+    [schema]
+  );
+
+  const attachDatabase = useCallback(
+    async (name: string, data: Uint8Array | ArrayBuffer) => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      setError(null);
+      try {
+        await dbManagerRef.current.attachDatabase(name, data);
+        await refreshSchema();
+      } catch (err: any) {
+        setError(err.message || 'Failed to attach database');
+        throw err;
+      }
+    },
+    [refreshSchema]
+  );
+
+  const detachDatabase = useCallback(
+    async (name: string) => {
       if (!dbManagerRef.current) {
-        return null;
+        throw new Error('Database manager not initialized');
       }
 
-      return dbManagerRef.current.getTableInfo(tableName);
+      await dbManagerRef.current.detachDatabase(name);
+      await refreshSchema();
     },
-    []
+    [refreshSchema]
+  );
+
+  const exportDatabase = useCallback(async (options?: ExportOptions): Promise<string> => {
+    if (!dbManagerRef.current) {
+      throw new Error('Database manager not initialized');
+    }
+
+    return dbManagerRef.current.exportDatabase(options);
+  }, []);
+
+  const exportToBlob = useCallback(
+    async (options: ExportFileOptions = {}): Promise<Blob> => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      const controller = startQuery(options.signal);
+      try {
+        return await writeExportBlob(dbManagerRef.current, {
+          ...options,
+          signal: controller.signal,
+        });
+      } finally {
+        runningQueriesRef.current.delete(controller);
+      }
+    },
+    [startQuery]
   );
 
-  const exportDatabase = useCallback(
-    (options?: ExportOptions): string => {
+  const exportToStream = useCallback(
+    async (
+      stream: WritableStream<string | Uint8Array>,
+      options: ExportFileOptions = {}
+    ): Promise<void> => {
       if (!dbManagerRef.current) {
         throw new Error('Database manager not initialized');
       }
 
-      return dbManagerRef.current.exportDatabase(options);
+      const controller = startQuery(options.signal);
+      try {
+        await writeExportStream(dbManagerRef.current, stream, {
+          ...options,
+          signal: controller.signal,
+        });
+      } finally {
+        runningQueriesRef.current.delete(controller);
+      }
     },
-    []
+    [startQuery]
   );
 
-  const saveDatabase = useCallback((): Uint8Array => {
+  const diffTableData = useCallback(
+    async (options: TableDataDiffOptions): Promise<TableDataDiff> => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      const controller = startQuery(options.signal);
+      try {
+        return await compareTableData(dbManagerRef.current, {
+          ...options,
+          signal: controller.signal,
+        });
+      } finally {
+        runningQueriesRef.current.delete(controller);
+      }
+    },
+    [startQuery]
+  );
+
+  const diffDatabaseData = useCallback(
+    async (options: DataDiffOptions = {}): Promise<TableDataDiff[]> => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      const controller = startQuery(options.signal);
+      try {
+        return await compareDatabaseData(dbManagerRef.current, {
+          ...options,
+          signal: controller.signal,
+        });
+      } finally {
+        runningQueriesRef.current.delete(controller);
+      }
+    },
+    [startQuery]
+  );
+
+  const importRows = useCallback(
+    async (rows: string[][], options: ImportOptions): Promise<ImportResult> => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      try {
+        return await dbManagerRef.current.importRows(rows, options);
+      } finally {
+        // Batches committed before a failure stay, as may a created table
+        await refreshSchema();
+        scheduleAutosave();
+      }
+    },
+    [refreshSchema, scheduleAutosave]
+  );
+
+  const importJSON = useCallback(
+    async (json: string | JsonExport, options?: JsonImportOptions): Promise<JsonImportResult> => {
+      if (!dbManagerRef.current) {
+        throw new Error('Database manager not initialized');
+      }
+
+      const result = await dbManagerRef.current.importJSON(json, options);
+      await refreshSchema();
+      scheduleAutosave();
+      return result;
+    },
+    [refreshSchema, scheduleAutosave]
+  );
+
+  const getStatistics = useCallback(async (): Promise<DatabaseStatistics> => {
+    if (!dbManagerRef.current) {
+      throw new Error('Database manager not initialized');
+    }
+
+    return dbManagerRef.current.getStatistics();
+  }, []);
+
+  const saveDatabase = useCallback(async (schemaName?: string): Promise<Uint8Array> => {
     if (!dbManagerRef.current) {
       throw new Error('Database manager not initialized');
     }
 
-    return dbManagerRef.current.saveDatabase();
+    return dbManagerRef.current.saveDatabase(schemaName);
+  }, []);
+
+  const storeDatabase = useCallback(async (name?: string) => {
+    if (!dbManagerRef.current || !persistenceRef.current) {
+      throw new Error('Persistent storage is not configured');
+    }
+
+    try {
+      await persistenceRef.current.save(dbManagerRef.current, name);
+    } catch (err: any) {
+      setError(err.message || 'Failed to store database');
+      throw err;
+    }
+  }, []);
+
+  const openStoredDatabase = useCallback(
+    async (name: string) => {
+      if (!dbManagerRef.current || !persistenceRef.current) {
+        throw new Error('Persistent storage is not configured');
+      }
+
+      setIsLoading(true);
+      setError(null);
+      try {
+        await persistenceRef.current.open(dbManagerRef.current, name);
+        await handleDatabaseOpened();
+        await syncStoredDatabases();
+      } catch (err: any) {
+        setError(err.message || 'Failed to open stored database');
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [handleDatabaseOpened, syncStoredDatabases]
+  );
+
+  const deleteStoredDatabase = useCallback(async (name: string) => {
+    if (!persistenceRef.current) {
+      throw new Error('Persistent storage is not configured');
+    }
+
+    await persistenceRef.current.remove(name);
   }, []);
 
   const closeDatabase = useCallback(() => {
     if (dbManagerRef.current) {
-      dbManagerRef.current.close();
+      const dbManager = dbManagerRef.current;
+      detachStoredDatabase()
+        .catch(() => undefined)
+        .then(() => dbManager.close())
+        .catch((err) => {
+          setError(err.message || 'Failed to close database');
+        });
       setDb(null);
+      setIsLoaded(false);
+      setTransactionDepth(0);
+      setSchema(EMPTY_SCHEMA);
     }
-  }, []);
+  }, [detachStoredDatabase]);
 
   const addToHistory = useCallback(
     (item: Omit<QueryHistoryItem, 'id' | 'timestamp'>) => {
       if (historyManagerRef.current) {
-        historyManagerRef.current.add(item.query, item.executionTime, item.result, item.error);
+        historyManagerRef.current.add(
+          item.query,
+          item.executionTime,
+          item.result,
+          item.error,
+          item.params,
+          item.status
+        );
         setQueryHistory(historyManagerRef.current.getAll());
       }
     },
@@ -181,31 +860,333 @@ export const SQLiteProvider: React.FC<SQLiteProviderProps> = ({ children }) => {
     }
   }, []);
 
-  const value: SQLiteContextValue = {
-    db,
-    isLoading,
-    error,
-    loadDatabase,
-    createDatabase,
-    executeQuery,
-    getSchema,
-    getTableInfo,
-    exportDatabase,
-    saveDatabase,
-    closeDatabase,
-    queryHistory,
-    addToHistory,
-    clearHistory,
-  };
-
-  return <SQLiteContext.Provider value={value}>{children}</SQLiteContext.Provider>;
+  return useMemo<SQLiteContextValue>(
+    () => ({
+      db,
+      isLoaded,
+      isInitialized,
+      initError,
+      isLoading,
+      error,
+      canCancel,
+      loadDatabase,
+      createDatabase,
+      loadSQLDump,
+      executeQuery,
+      executeScript,
+      streamQuery,
+      cancelQuery,
+      transactionDepth,
+      beginTransaction,
+      commit,
+      rollback,
+      transaction,
+      getSchema,
+      readSchema,
+      readStoredSchema,
+      getTableInfo,
+      attachDatabase,
+      detachDatabase,
+      refreshSchema,
+      getStatistics,
+      diffTableData,
+      diffDatabaseData,
+      exportDatabase,
+      exportToBlob,
+      exportToStream,
+      importRows,
+      importJSON,
+      saveDatabase,
+      closeDatabase,
+      canPersist: Boolean(persistence),
+      storedDatabases,
+      storedDatabaseName,
+      storeDatabase,
+      openStoredDatabase,
+      deleteStoredDatabase,
+      queryHistory,
+      addToHistory,
+      clearHistory,
+    }),
+    [
+      db,
+      isLoaded,
+      isInitialized,
+      initError,
+      isLoading,
+      error,
+      canCancel,
+      loadDatabase,
+      createDatabase,
+      loadSQLDump,
+      executeQuery,
+      executeScript,
+      streamQuery,
+      cancelQuery,
+      transactionDepth,
+      beginTransaction,
+      commit,
+      rollback,
+      transaction,
+      getSchema,
+      readSchema,
+      readStoredSchema,
+      getTableInfo,
+      attachDatabase,
+      detachDatabase,
+      refreshSchema,
+      getStatistics,
+      diffTableData,
+      diffDatabaseData,
+      exportDatabase,
+      exportToBlob,
+      exportToStream,
+      importRows,
+      importJSON,
+      saveDatabase,
+      closeDatabase,
+      persistence,
+      storedDatabases,
+      storedDatabaseName,
+      storeDatabase,
+      openStoredDatabase,
+      deleteStoredDatabase,
+      queryHistory,
+      addToHistory,
+      clearHistory,
+    ]
+  );
+}
+
+interface ConnectionHostProps {
+  name: string;
+  options: SQLiteConnectionOptions;
+  /** Appended to localStorage keys so each connection keeps its own history */
+  storageSuffix: string;
+  onChange: (name: string, value: SQLiteContextValue | null) => void;
+}
+
+/**
+ * Runs one connection and reports its value to the provider
+ */
+const ConnectionHost = React.memo(function ConnectionHost({
+  name,
+  options,
+  storageSuffix,
+  onChange,
+}: ConnectionHostProps) {
+  const value = useConnection(options, storageSuffix);
+
+  useEffect(() => {
+    onChange(name, value);
+  }, [name, value, onChange]);
+
+  useEffect(() => () => onChange(name, null), [name, onChange]);
+
+  return null;
+});
+
+const rejectUninitialized = () => Promise.reject(new Error('Database manager not initialized'));
+
+/**
+ * Stand-in for a connection whose host has not rendered yet, the same as a
+ * connection before its manager is created
+ */
+const PENDING_CONNECTION: SQLiteContextValue = {
+  db: null,
+  isLoaded: false,
+  isInitialized: false,
+  initError: null,
+  isLoading: false,
+  error: null,
+  canCancel: false,
+  loadDatabase: rejectUninitialized,
+  createDatabase: rejectUninitialized,
+  loadSQLDump: rejectUninitialized,
+  executeQuery: rejectUninitialized,
+  executeScript: rejectUninitialized,
+  streamQuery: () => {
+    const stream: AsyncGenerator<RowBatch> = {
+      next: rejectUninitialized,
+      return: rejectUninitialized,
+      throw: rejectUninitialized,
+      [Symbol.asyncIterator]: () => stream,
+    };
+    return stream;
+  },
+  cancelQuery: () => undefined,
+  transactionDepth: 0,
+  beginTransaction: rejectUninitialized,
+  commit: rejectUninitialized,
+  rollback: rejectUninitialized,
+  transaction: rejectUninitialized,
+  getSchema: () => EMPTY_SCHEMA,
+  readSchema: rejectUninitialized,
+  readStoredSchema: rejectUninitialized,
+  getTableInfo: () => null,
+  attachDatabase: rejectUninitialized,
+  detachDatabase: rejectUninitialized,
+  refreshSchema: rejectUninitialized,
+  getStatistics: rejectUninitialized,
+  diffTableData: rejectUninitialized,
+  diffDatabaseData: rejectUninitialized,
+  exportDatabase: rejectUninitialized,
+  exportToBlob: rejectUninitialized,
+  exportToStream: rejectUninitialized,
+  importRows: rejectUninitialized,
+  importJSON: rejectUninitialized,
+  saveDatabase: rejectUninitialized,
+  closeDatabase: () => undefined,
+  canPersist: false,
+  storedDatabases: [],
+  storedDatabaseName: null,
+  storeDatabase: rejectUninitialized,
+  openStoredDatabase: rejectUninitialized,
+  deleteStoredDatabase: rejectUninitialized,
+  queryHistory: [],
+  addToHistory: () => undefined,
+  clearHistory: () => undefined,
 };
 
-export const useSQLite = (): SQLiteContextValue => {
-  const context = useContext(SQLiteContext);
-  if (!context) {
-    throw new Error('useSQLite must be used within SQLiteProvider');
+export const SQLiteProvider: React.FC<SQLiteProviderProps> = ({
+  children,
+  initOptions,
+  worker,
+  queryTimeout,
+  persistence,
+  connections: initialConnections,
+  defaultConnection = DEFAULT_CONNECTION,
+}) => {
+  /**
+   * Fill in a connection's options from the provider's; a worker instance serves
+   * one connection, but a factory can make another
+   */
+  const withDefaults = useCallback(
+    (options: SQLiteConnectionOptions): SQLiteConnectionOptions => ({
+      initOptions,
+      queryTimeout,
+      worker: typeof worker === 'function' ? worker : undefined,
+      ...options,
+    }),
+    [initOptions, queryTimeout, worker]
+  );
+
+  // Options of each open connection, in the order they were opened
+  const [configs, setConfigs] = useState<Record<string, SQLiteConnectionOptions>>(() => {
+    const initial: Record<string, SQLiteConnectionOptions> = {
+      [defaultConnection]: { initOptions, worker, queryTimeout, persistence },
+    };
+    Object.entries(initialConnections || {}).forEach(([name, options]) => {
+      initial[name] = withDefaults(options);
+    });
+    return initial;
+  });
+  const [values, setValues] = useState<Record<string, SQLiteContextValue>>({});
+  const [activeConnection, setActive] = useState(defaultConnection);
+
+  const handleChange = useCallback((name: string, value: SQLiteContextValue | null) => {
+    setValues((previous) => {
+      const next = { ...previous };
+      if (value) {
+        next[name] = value;
+      } else {
+        delete next[name];
+      }
+      return next;
+    });
+  }, []);
+
+  const setActiveConnection = useCallback(
+    (name: string) => {
+      if (!configs[name]) {
+        throw new Error(`No SQLite connection named "${name}"`);
+      }
+      setActive(name);
+    },
+    [configs]
+  );
+
+  const openConnection = useCallback(
+    (name: string, options: SQLiteConnectionOptions = {}) => {
+      if (configs[name]) {
+        throw new Error(`A SQLite connection named "${name}" is already open`);
+      }
+
+      setConfigs((previous) => ({ ...previous, [name]: withDefaults(options) }));
+    },
+    [configs, withDefaults]
+  );
+
+  const closeConnection = useCallback(
+    (name: string) => {
+      if (name === defaultConnection) {
+        throw new Error('The default SQLite connection cannot be closed');
+      }
+
+      setConfigs((previous) => {
+        const next = { ...previous };
+        delete next[name];
+        return next;
+      });
+      setActive((active) => (active === name ? defaultConnection : active));
+    },
+    [defaultConnection]
+  );
+
+  const registry = useMemo<ConnectionRegistry>(
+    () => ({
+      connections: Object.keys(configs),
+      activeConnection,
+      setActiveConnection,
+      openConnection,
+      closeConnection,
+      values,
+    }),
+    [configs, activeConnection, setActiveConnection, openConnection, closeConnection, values]
+  );
+
+  return (
+    <SQLiteConnectionsContext.Provider value={registry}>
+      {Object.entries(configs).map(([name, options]) => (
+        <ConnectionHost
+          key={name}
+          name={name}
+          options={options}
+          storageSuffix={name === defaultConnection ? '' : `:${name}`}
+          onChange={handleChange}
+        />
+      ))}
+      {children}
+    </SQLiteConnectionsContext.Provider>
+  );
+};
+
+const useConnectionRegistry = (hook: string): ConnectionRegistry => {
+  const registry = useContext(SQLiteConnectionsContext);
+  if (!registry) {
+    throw new Error(`${hook} must be used within SQLiteProvider`);
+  }
+  return registry;
+};
+
+/**
+ * Database state and operations of a connection: the named one, or the active one
+ */
+export const useSQLite = (connectionName?: string): SQLiteContextValue => {
+  const registry = useConnectionRegistry('useSQLite');
+  const name = connectionName ?? registry.activeConnection;
+  if (!registry.connections.includes(name)) {
+    throw new Error(`No SQLite connection named "${name}"`);
   }
-  return context;
+  return registry.values[name] || PENDING_CONNECTION;
+};
+
+/**
+ * Open, close and switch between the provider's connections
+ */
+export const useSQLiteConnections = (): SQLiteConnectionsValue => {
+  const { connections, activeConnection, setActiveConnection, openConnection, closeConnection } =
+    useConnectionRegistry('useSQLiteConnections');
+  return { connections, activeConnection, setActiveConnection, openConnection, closeConnection };
 };
 
@@ -0,0 +1,330 @@
+import { CsvWriteOptions } from '../types';
+import { formatHex } from './format';
+
+/**
+ * Column affinity inferred from CSV values
+ */
+export type CsvAffinity = 'INTEGER' | 'REAL' | 'TEXT';
+
+export interface CsvParseOptions {
+  /** Field separator (default: detected from the text) */
+  delimiter?: string;
+  /** Character that encloses fields (default: `"`) */
+  quote?: string;
+}
+
+export interface CsvReadOptions extends CsvParseOptions {
+  /** Whether the first row holds column names (default: detected) */
+  header?: boolean;
+}
+
+/**
+ * A parsed CSV file with its column names and inferred types
+ */
+export interface CsvTable {
+  delimiter: string;
+  /** Whether the first row was taken as column names */
+  header: boolean;
+  columns: string[];
+  /** Affinity inferred from each column's values */
+  affinities: CsvAffinity[];
+  /** Data rows, without the header */
+  rows: string[][];
+}
+
+/**
+ * Delimiters tried by detectDelimiter, most likely first
+ */
+export const CSV_DELIMITERS = [',', '\t', ';', '|'];
+
+const INTEGER_PATTERN = /^[+-]?(?:0|[1-9]\d*)$/;
+const REAL_PATTERN = /^[+-]?(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+// Lines sampled when detecting the delimiter
+const SAMPLE_LINES = 20;
+
+/**
+ * Split CSV text into rows of fields, following RFC 4180
+ * Quoted fields may hold delimiters, doubled quotes and line breaks. Lines may
+ * end in CRLF, LF or CR; blank lines and a leading byte order mark are skipped.
+ */
+export function parseCSV(text: string, options: CsvParseOptions = {}): string[][] {
+  const { delimiter = detectDelimiter(text), quote = '"' } = options;
+  if (delimiter.length !== 1 || quote.length !== 1) {
+    throw new Error('The delimiter and quote must be single characters');
+  }
+  if (delimiter === quote) {
+    throw new Error('The delimiter and quote must differ');
+  }
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  // Whether the current field started with a quote, and whether that quote is still open
+  let quotedField = false;
+  let inQuotes = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    quotedField = false;
+  };
+
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === quote && !field && !quotedField) {
+      inQuotes = true;
+      quotedField = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      line++;
+      if (row.length || field || quotedField) {
+        endField();
+        rows.push(row);
+        row = [];
+      }
+    } else {
+      // Text after a closing quote is kept as it is
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${quoteLine}`);
+  }
+  if (row.length || field || quotedField) {
+    endField();
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Guess the delimiter from the first lines: the candidate found the same number
+ * of times on every line wins, then the most frequent one; ',' when none appear
+ */
+export function detectDelimiter(text: string, candidates: string[] = CSV_DELIMITERS): string {
+  const counts: number[][] = candidates.map(() => [0]);
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      if (counts[0].length >= SAMPLE_LINES) {
+        break;
+      }
+      counts.forEach((perLine) => perLine.push(0));
+    } else if (!inQuotes) {
+      const index = candidates.indexOf(char);
+      if (index >= 0) {
+        counts[index][counts[index].length - 1]++;
+      }
+    }
+  }
+
+  let best = { delimiter: ',', consistent: false, total: 0 };
+  candidates.forEach((delimiter, index) => {
+    // A trailing newline leaves an empty last line
+    const perLine = counts[index].filter((count, line, all) => count || line < all.length - 1);
+    const total = perLine.reduce((sum, count) => sum + count, 0);
+    const consistent = perLine.every((count) => count === perLine[0]);
+    if (
+      total &&
+      ((consistent && !best.consistent) || (consistent === best.consistent && total > best.total))
+    ) {
+      best = { delimiter, consistent, total };
+    }
+  });
+
+  return best.delimiter;
+}
+
+/**
+ * Whether a value is a number SQLite would store as INTEGER or REAL
+ */
+export function isNumeric(value: string): boolean {
+  return REAL_PATTERN.test(value.trim());
+}
+
+/**
+ * Affinity suiting every non-empty value: INTEGER, then REAL, then TEXT
+ * Integers with leading zeros (codes, zip codes) stay TEXT to keep the zeros.
+ */
+export function inferAffinity(values: string[]): CsvAffinity {
+  let affinity: CsvAffinity | null = null;
+
+  for (const raw of values) {
+    const value = raw.trim();
+    if (!value) {
+      continue;
+    }
+    if (INTEGER_PATTERN.test(value)) {
+      affinity = affinity || 'INTEGER';
+    } else if (REAL_PATTERN.test(value)) {
+      affinity = 'REAL';
+    } else {
+      return 'TEXT';
+    }
+  }
+
+  return affinity || 'TEXT';
+}
+
+/**
+ * Guess whether the first row names the columns
+ * It must hold distinct, non-empty, non-numeric cells, and either sit above a
+ * numeric column or hold values that do not repeat in the rows below.
+ */
+export function detectHeader(rows: string[][]): boolean {
+  if (!rows.length) {
+    return false;
+  }
+
+  const [first, ...rest] = rows;
+  const cells = first.map((cell) => cell.trim());
+  if (cells.some((cell) => !cell || isNumeric(cell))) {
+    return false;
+  }
+  if (new Set(cells.map((cell) => cell.toLowerCase())).size !== cells.length) {
+    return false;
+  }
+  if (!rest.length) {
+    return true;
+  }
+
+  const columnValues = (index: number) => rest.map((row) => row[index] ?? '');
+  const aboveNumbers = cells.some((_, index) => inferAffinity(columnValues(index)) !== 'TEXT');
+  const repeated = cells.some((cell, index) =>
+    columnValues(index).some((value) => value.trim() === cell)
+  );
+  return aboveNumbers || !repeated;
+}
+
+/**
+ * Column names from a header row: blanks become columnN and repeated names get
+ * a numeric suffix; without a header every column is named columnN
+ */
+export function getColumnNames(header: string[] | null, count: number): string[] {
+  const used = new Set<string>();
+
+  return Array.from({ length: count }, (_, index) => {
+    const base = header?.[index]?.trim() || `column${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base}_${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Parse CSV text and describe its columns, detecting the delimiter and header
+ * unless given
+ */
+export function readCSV(text: string, options: CsvReadOptions = {}): CsvTable {
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const parsed = parseCSV(text, { ...options, delimiter });
+  const header = options.header ?? detectHeader(parsed);
+  const rows = header ? parsed.slice(1) : parsed;
+  const count = parsed.reduce((max, row) => Math.max(max, row.length), 0);
+
+  return {
+    delimiter,
+    header,
+    columns: getColumnNames(header ? parsed[0] : null, count),
+    affinities: Array.from({ length: count }, (_, index) =>
+      inferAffinity(rows.map((row) => row[index] ?? ''))
+    ),
+    rows,
+  };
+}
+
+/**
+ * Write options with their defaults filled in, checked like parseCSV checks its own
+ */
+export function resolveCsvWriteOptions(options: CsvWriteOptions = {}): Required<CsvWriteOptions> {
+  const {
+    delimiter = ',',
+    header = true,
+    nullValue = '',
+    bom = false,
+    lineEnding = '\r\n',
+  } = options;
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new Error('The delimiter must be a single character other than a quote or line break');
+  }
+  return { delimiter, header, nullValue, bom, lineEnding };
+}
+
+/**
+ * A value as a CSV field: NULL as the null text, blobs as hex digits
+ * Fields holding the delimiter, a quote or a line break are quoted, as is text
+ * that would read back as NULL.
+ */
+export function formatCsvField(value: unknown, options: Required<CsvWriteOptions>): string {
+  if (value === null || value === undefined) {
+    return options.nullValue;
+  }
+
+  const text = value instanceof Uint8Array ? formatHex(value) : String(value);
+  const quoted =
+    text === options.nullValue || text.includes(options.delimiter) || /["\r\n]/.test(text);
+  return quoted ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * A record of CSV fields, ended by the line ending
+ */
+export function formatCsvRecord(values: unknown[], options: Required<CsvWriteOptions>): string {
+  return (
+    values.map((value) => formatCsvField(value, options)).join(options.delimiter) +
+    options.lineEnding
+  );
+}
+
+/**
+ * Write rows as CSV text, under a header of column names unless turned off
+ */
+export function formatCSV(
+  columns: string[],
+  rows: unknown[][],
+  options: CsvWriteOptions = {}
+): string {
+  const resolved = resolveCsvWriteOptions(options);
+  const records = resolved.header ? [columns, ...rows] : rows;
+  return (
+    (resolved.bom ? '\ufeff' : '') +
+    records.map((record) => formatCsvRecord(record, resolved)).join('')
+  );
+}
+
@@ -0,0 +1,68 @@
+import { Statement } from 'sql.js';
+
+/**
+ * Default number of rows per batch when streaming
+ */
+export const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Forward-only cursor over a prepared statement's rows
+ * Rows are stepped on demand, so only the current batch is held in memory.
+ * The statement is freed once the rows run out or the cursor is closed.
+ */
+export class QueryCursor {
+  readonly columns: string[];
+  private stmt: Statement | null;
+  private onClose?: () => void;
+  // Set once the rows ran out, as opposed to the cursor being closed before
+  private exhausted: boolean = false;
+
+  constructor(stmt: Statement, onClose?: () => void) {
+    this.stmt = stmt;
+    this.columns = stmt.getColumnNames();
+    this.onClose = onClose;
+  }
+
+  /**
+   * Whether every row has been read
+   */
+  get done(): boolean {
+    return this.exhausted;
+  }
+
+  /**
+   * Read up to `count` rows; fewer means the end was reached
+   * Throws once the cursor was closed before its end, as saving, reloading or
+   * closing the database does, so the rows read so far are not taken for all of them
+   */
+  fetch(count: number = DEFAULT_BATCH_SIZE): any[][] {
+    if (!this.stmt && !this.exhausted) {
+      throw new Error('Cursor was closed before every row was read');
+    }
+
+    const rows: any[][] = [];
+
+    while (this.stmt && rows.length < count) {
+      if (!this.stmt.step()) {
+        this.exhausted = true;
+        this.close();
+        break;
+      }
+      rows.push(this.stmt.get());
+    }
+
+    return rows;
+  }
+
+  /**
+   * Free the statement; safe to call more than once
+   */
+  close(): void {
+    if (this.stmt) {
+      this.stmt.free();
+      this.stmt = null;
+      this.onClose?.();
+    }
+  }
+}
+
@@ -0,0 +1,269 @@
+import {
+  DatabaseBackend,
+  DataDiffOptions,
+  RowChangeKind,
+  RowDiff,
+  SqlValue,
+  TableDataDiff,
+  TableDataDiffOptions,
+  TableInfo,
+} from '../types';
+import { formatSqlLiteral, orderByForeignKeys, quoteIdentifier, quoteQualified } from './sqlUtils';
+
+// Names that read a table's rowid, unless a column takes them
+const ROWID_NAMES = ['rowid', '_rowid_', 'oid'];
+
+const lower = (name: string) => name.toLowerCase();
+
+function sameValue(a: SqlValue, b: SqlValue): boolean {
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, index) => byte === b[index]);
+  }
+  return a === b;
+}
+
+/**
+ * Columns to match rows by: the primary key, when both tables have the same one,
+ * or else a rowid name neither table uses for a column
+ */
+function getMatchKey(
+  before: TableInfo,
+  after: TableInfo
+): { keyColumns: string[]; rowid: boolean } {
+  const primaryKey = (table: TableInfo) => table.primaryKey.map(lower).join(',');
+  if (after.primaryKey.length && primaryKey(before) === primaryKey(after)) {
+    return { keyColumns: after.primaryKey, rowid: false };
+  }
+
+  const hasRowid = (table: TableInfo) => !table.withoutRowid && !table.virtualModule;
+  const taken = new Set([...before.columns, ...after.columns].map((column) => lower(column.name)));
+  const rowid = ROWID_NAMES.find((name) => !taken.has(name));
+  if (!rowid || !hasRowid(before) || !hasRowid(after)) {
+    throw new Error(
+      `Tables "${before.name}" and "${after.name}" have no key in common to match rows by`
+    );
+  }
+  return { keyColumns: [rowid], rowid: true };
+}
+
+/**
+ * Compare the rows of two tables, usually one table in two databases attached
+ * side by side
+ * Rows are matched by primary key, or by rowid for tables without one in common,
+ * and compared on the columns both tables have; text is compared exactly, whatever
+ * the columns' collation. Rows come deleted, then modified, then inserted, each
+ * kind in key order.
+ */
+export async function diffTableData(
+  backend: DatabaseBackend,
+  options: TableDataDiffOptions
+): Promise<TableDataDiff> {
+  const {
+    table,
+    afterTable = table,
+    beforeSchema = 'main',
+    afterSchema = 'main',
+    limit,
+    signal,
+  } = options;
+  const before = await backend.getTableInfo(table, beforeSchema);
+  const after = await backend.getTableInfo(afterTable, afterSchema);
+  if (!before || !after) {
+    const [schema, name] = before ? [afterSchema, afterTable] : [beforeSchema, table];
+    throw new Error(`No table named "${name}" in ${schema}`);
+  }
+
+  const { keyColumns, rowid } = getMatchKey(before, after);
+  const shared = new Set(
+    before.columns.filter((column) => !column.hidden).map((column) => lower(column.name))
+  );
+  const compared = after.columns.filter(
+    (column) => !column.hidden && shared.has(lower(column.name))
+  );
+  const columns = compared.map((column) => column.name);
+
+  const list = (alias: string, names: string[]) =>
+    names.map((name) => `${alias}.${quoteIdentifier(name)}`).join(', ');
+  const older = `${quoteQualified(beforeSchema, table)} AS b`;
+  const newer = `${quoteQualified(afterSchema, afterTable)} AS a`;
+  const match = keyColumns
+    .map((name) => `a.${quoteIdentifier(name)} IS b.${quoteIdentifier(name)}`)
+    .join(' AND ');
+  const differs = columns
+    .map((name) => `b.${quoteIdentifier(name)} IS NOT a.${quoteIdentifier(name)} COLLATE BINARY`)
+    .join(' OR ');
+  const queries: [RowChangeKind, string, string][] = [
+    [
+      'deleted',
+      'b',
+      `SELECT ${list('b', [...keyColumns, ...columns])} FROM ${older}
+       WHERE NOT EXISTS (SELECT 1 FROM ${newer} WHERE ${match})`,
+    ],
+    [
+      'modified',
+      'b',
+      `SELECT ${list('b', [...keyColumns, ...columns])}, ${list('a', columns)}
+       FROM ${older} JOIN ${newer} ON ${match} WHERE ${differs}`,
+    ],
+    [
+      'inserted',
+      'a',
+      `SELECT ${list('a', [...keyColumns, ...columns])} FROM ${newer}
+       WHERE NOT EXISTS (SELECT 1 FROM ${older} WHERE ${match})`,
+    ],
+  ];
+
+  const diff: TableDataDiff = {
+    table: before.name,
+    keyColumns,
+    rowid,
+    columns,
+    generatedColumns: compared.filter((column) => column.generated).map((column) => column.name),
+    rows: [],
+    counts: { inserted: 0, deleted: 0, modified: 0 },
+    truncated: false,
+  };
+  const width = keyColumns.length;
+
+  for (const [kind, alias, query] of queries) {
+    // With no columns to compare, matched rows cannot differ
+    if (kind === 'modified' && !columns.length) {
+      continue;
+    }
+    const { values } = await backend.executeQuery(
+      `${query} ORDER BY ${list(alias, keyColumns)}${limit === undefined ? '' : ` LIMIT ${limit}`}`,
+      undefined,
+      { signal }
+    );
+    diff.counts[kind] = values.length;
+    if (limit !== undefined && values.length >= limit) {
+      const counted = await backend.executeQuery(`SELECT count(*) FROM (${query})`, undefined, {
+        signal,
+      });
+      diff.counts[kind] = counted.values[0][0] as number;
+      diff.truncated = diff.truncated || diff.counts[kind] > values.length;
+    }
+
+    values.forEach((row: SqlValue[]) => {
+      // A modified row holds the older values followed by the newer ones
+      const own = row.slice(width, width + columns.length);
+      const other = kind === 'modified' ? row.slice(width + columns.length) : null;
+      const [older, newer] = kind === 'inserted' ? [null, own] : [own, other];
+      const entry: RowDiff = {
+        kind,
+        key: row.slice(0, width),
+        before: older,
+        after: newer,
+        changedColumns:
+          older && newer ? columns.filter((_name, i) => !sameValue(older[i], newer[i])) : [],
+      };
+      diff.rows.push(entry);
+    });
+  }
+
+  return diff;
+}
+
+/**
+ * Compare the rows of every ordinary table two databases both have, parents
+ * before the tables that reference them
+ */
+export async function diffDatabaseData(
+  backend: DatabaseBackend,
+  options: DataDiffOptions = {}
+): Promise<TableDataDiff[]> {
+  const { beforeSchema = 'main', afterSchema = 'main' } = options;
+  const { tables } = await backend.getSchema();
+  const ordinary = (schema: string) =>
+    tables.filter((table) => table.schema === schema && !table.virtualModule);
+  const beforeNames = new Map(
+    ordinary(beforeSchema).map((table) => [lower(table.name), table.name])
+  );
+  const shared = orderByForeignKeys(
+    ordinary(afterSchema).filter((table) => beforeNames.has(lower(table.name)))
+  );
+
+  const diffs: TableDataDiff[] = [];
+  for (const table of shared) {
+    diffs.push(
+      await diffTableData(backend, {
+        ...options,
+        table: beforeNames.get(lower(table.name))!,
+        afterTable: table.name,
+      })
+    );
+  }
+  return diffs;
+}
+
+/**
+ * WHERE condition picking a row out by its key
+ */
+function keyCondition(diff: TableDataDiff, key: SqlValue[]): string {
+  return diff.keyColumns
+    .map((name, i) =>
+      key[i] === null
+        ? `${quoteIdentifier(name)} IS NULL`
+        : `${quoteIdentifier(name)}=${formatSqlLiteral(key[i])}`
+    )
+    .join(' AND ');
+}
+
+/**
+ * A SQL script that turns the older tables' rows into the newer ones, when run
+ * on the older database
+ * It runs in one transaction with foreign key checks deferred to its end: rows
+ * are deleted children first, then updated, then inserted parents first.
+ * Generated columns are left out, and rows matched by rowid are inserted under
+ * their rowid. Diffs cut short by a limit are refused, as their patch would be too.
+ */
+export function formatDataPatch(diffs: TableDataDiff[]): string {
+  const truncated = diffs.find((diff) => diff.truncated);
+  if (truncated) {
+    throw new Error(
+      `The diff of "${truncated.table}" is limited; compare without a limit to write a patch`
+    );
+  }
+
+  const statements = (diff: TableDataDiff, kind: RowChangeKind) => {
+    const target = quoteIdentifier(diff.table);
+    const generated = new Set(diff.generatedColumns);
+    const written = diff.columns.filter((name) => !generated.has(name));
+
+    return diff.rows
+      .filter((row) => row.kind === kind)
+      .flatMap((row) => {
+        if (row.kind === 'deleted') {
+          return [`DELETE FROM ${target} WHERE ${keyCondition(diff, row.key)};`];
+        }
+        if (row.kind === 'modified') {
+          const changes = row.changedColumns
+            .filter((name) => !generated.has(name))
+            .map(
+              (name) =>
+                `${quoteIdentifier(name)}=${formatSqlLiteral(row.after![diff.columns.indexOf(name)])}`
+            );
+          return changes.length
+            ? [`UPDATE ${target} SET ${changes.join(',')} WHERE ${keyCondition(diff, row.key)};`]
+            : [];
+        }
+
+        const names = diff.rowid ? [...diff.keyColumns, ...written] : written;
+        const values = written.map((name) => row.after![diff.columns.indexOf(name)]);
+        const list = names.map(quoteIdentifier).join(',');
+        const literals = [...(diff.rowid ? row.key : []), ...values].map(formatSqlLiteral);
+        return [`INSERT INTO ${target} (${list}) VALUES(${literals.join(',')});`];
+      });
+  };
+
+  const lines = [
+    'BEGIN TRANSACTION;',
+    'PRAGMA defer_foreign_keys=ON;',
+    ...[...diffs].reverse().flatMap((diff) => statements(diff, 'deleted')),
+    ...diffs.flatMap((diff) => statements(diff, 'modified')),
+    ...diffs.flatMap((diff) => statements(diff, 'inserted')),
+    'COMMIT;',
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
@@ -1,37 +1,168 @@
-import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import initSqlJs, { Database, SqlJsStatic, Statement } from 'sql.js';
 import {
   TableInfo,
   ColumnInfo,
+  ViewInfo,
+  TriggerInfo,
   IndexInfo,
+  IndexColumnInfo,
+  IndexOrigin,
   ForeignKeyInfo,
+  ForeignKeyAction,
   QueryResult,
   DatabaseSchema,
+  DatabaseStatistics,
+  ObjectStatistics,
   ExportOptions,
+  ResultExporter,
+  ExportStreamOptions,
+  ExportChunk,
+  ExportProgress,
+  ImportOptions,
+  ImportResult,
+  JsonExport,
+  JsonImportOptions,
+  JsonImportResult,
+  BindParams,
+  ScriptOptions,
+  ScriptStatementResult,
+  SQLiteInitOptions,
+  DatabaseBackend,
+  QueryOptions,
+  StreamOptions,
+  RowBatch,
 } from '../types';
+import { quoteIdentifier, quoteQualified, orderByForeignKeys } from './sqlUtils';
+import {
+  splitStatements,
+  classifyStatement,
+  getVirtualTableModule,
+  describeTrigger,
+  orderByViewReferences,
+  parseIndexDefinition,
+  parseTableDefinition,
+  TableDefinition,
+} from './sqlParser';
+import { QueryInterruptedError } from './errors';
+import { QueryCursor, DEFAULT_BATCH_SIZE } from './cursor';
+import { TransactionTracker, runTransaction } from './transaction';
+import {
+  JSON_EXPORT_VERSION,
+  encodeJsonValue,
+  decodeJsonValue,
+  parseJsonExport,
+} from './jsonExport';
+import { getExporter, isResultFormat } from './exporters';
+import { toFileNames } from './zip';
+
+/**
+ * Pages used by one table or index, as reported by dbstat
+ */
+interface PageUsage {
+  pageCount: number;
+  sizeBytes: number;
+  payloadBytes: number;
+  unusedBytes: number;
+}
+
+/**
+ * Lines of an export, with the table and number of rows they write
+ */
+interface ExportPiece {
+  lines: string[];
+  table?: string;
+  rows?: number;
+  file?: string;
+}
+
+/**
+ * Settings of the connection rather than the database file, which sql.js resets
+ * when it reopens the file to export it
+ */
+const CONNECTION_PRAGMAS = [
+  'foreign_keys',
+  'recursive_triggers',
+  'reverse_unordered_selects',
+  'automatic_index',
+  'ignore_check_constraints',
+  'legacy_alter_table',
+  'trusted_schema',
+  'secure_delete',
+  'cell_size_check',
+  'cache_size',
+  'cache_spill',
+  'busy_timeout',
+  'synchronous',
+  'count_changes',
+  'full_column_names',
+  'short_column_names',
+  'empty_result_callbacks',
+  'read_uncommitted',
+  'query_only',
+];
 
 /**
  * Core database manager with optimized business logic
  * Handles all SQLite operations through sql.js
  */
-export class DatabaseManager {
+export class DatabaseManager implements DatabaseBackend {
   private sqlJs: SqlJsStatic | null = null;
   private db: Database | null = null;
   private initialized: boolean = false;
+  private initPromise: Promise<void> | null = null;
+  private options: SQLiteInitOptions;
+  // Cursors still holding a statement on the current database
+  private cursors: Set<QueryCursor> = new Set();
+  // Exports started and not yet finished, which may be between cursors
+  private openExports: number = 0;
+  private transactions: TransactionTracker = new TransactionTracker();
+  // Attached schema name -> the connection that owns the attached file
+  private attached: Map<string, Database> = new Map();
+
+  constructor(options: SQLiteInitOptions = {}) {
+    this.options = options;
+  }
 
   /**
    * Initialize sql.js library
+   * Concurrent calls share one load; a failed load can be retried
    */
   async initialize(): Promise<void> {
     if (this.initialized) {
       return;
     }
 
+    if (!this.initPromise) {
+      this.initPromise = this.loadSqlJs().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+
+    return this.initPromise;
+  }
+
+  /**
+   * Resolve the sql.js module from the configured source
+   */
+  private async loadSqlJs(): Promise<void> {
+    const { sqlJs, wasmBinary, locateFile } = this.options;
+
+    if (sqlJs) {
+      this.sqlJs = sqlJs;
+      this.initialized = true;
+      return;
+    }
+
     try {
       this.sqlJs = await initSqlJs({
-        locateFile: (file: string) => {
-          // Use CDN for sql.js WASM file
-          return `https://sql.js.org/dist/${file}`;
-        },
+        wasmBinary,
+        locateFile:
+          locateFile ||
+          ((file: string) => {
+            // Use CDN for sql.js WASM file
+            return `https://sql.js.org/dist/${file}`;
+          }),
       });
       this.initialized = true;
     } catch (error) {
@@ -51,6 +182,9 @@ export class DatabaseManager {
       throw new Error('sql.js not initialized');
     }
 
+    this.closeCursors();
+    this.closeAttached();
+    this.transactions.reset();
     try {
       const uint8Array = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
       this.db = new this.sqlJs.Database(uint8Array);
@@ -67,6 +201,9 @@ export class DatabaseManager {
       throw new Error('sql.js not initialized. Call initialize() first.');
     }
 
+    this.closeCursors();
+    this.closeAttached();
+    this.transactions.reset();
     try {
       this.db = new this.sqlJs.Database();
     } catch (error) {
@@ -76,55 +213,344 @@ export class DatabaseManager {
 
   /**
    * Execute SQL query with optimized error handling
+   * Values in `params` are bound to the query's placeholders, never interpolated.
+   * Rows are returned whenever the statement produces result columns (SELECT, WITH,
+   * VALUES, PRAGMA, RETURNING...), and rowsAffected whenever it does not or modifies rows.
+   * When the text holds several statements they all run and the last one's result is returned.
+   * A timeout or abort signal is checked between result rows; since sql.js runs
+   * synchronously, a statement that produces no rows cannot be stopped midway.
    */
-  executeQuery(query: string): QueryResult {
+  executeQuery(query: string, params?: BindParams, options: QueryOptions = {}): QueryResult {
     if (!this.db) {
       throw new Error('Database not loaded. Load or create a database first.');
     }
 
+    return this.executeStatements(query, params, this.createInterruptCheck(options));
+  }
+
+  /**
+   * Run every statement in the text, returning the last result
+   */
+  private executeStatements(
+    query: string,
+    params: BindParams | undefined,
+    checkInterrupt: () => void
+  ): QueryResult {
     try {
-      const trimmedQuery = query.trim();
-      if (!trimmedQuery) {
+      const statements = splitStatements(query);
+      if (!statements.length) {
         throw new Error('Empty query');
       }
+      if (params && statements.length > 1) {
+        throw new Error('Bound parameters require a single statement');
+      }
 
-      const isSelect = trimmedQuery.toLowerCase().startsWith('select');
-      const isExplain = trimmedQuery.toLowerCase().startsWith('explain');
+      let result: QueryResult = { columns: [], values: [] };
+      statements.forEach(({ sql }) => {
+        checkInterrupt();
+        result = this.runStatement(sql, params, checkInterrupt);
+      });
+      return result;
+    } catch (error: any) {
+      this.syncTransactions();
+      if (error instanceof QueryInterruptedError) {
+        throw error;
+      }
+      throw new Error(`Query execution failed: ${error.message || error}`);
+    }
+  }
 
-      if (isSelect || isExplain) {
-        const stmt = this.db.prepare(trimmedQuery);
-        const result: QueryResult = {
-          columns: stmt.getColumnNames(),
-          values: [],
-        };
+  /**
+   * Build a check that throws once the timeout elapses or the signal aborts
+   */
+  private createInterruptCheck({ timeout, signal }: QueryOptions): () => void {
+    const deadline = timeout ? Date.now() + timeout : Infinity;
 
-        while (stmt.step()) {
+    return () => {
+      if (signal?.aborted) {
+        throw new QueryInterruptedError('cancelled');
+      }
+      if (Date.now() > deadline) {
+        throw new QueryInterruptedError('timeout', `Query timed out after ${timeout} ms`);
+      }
+    };
+  }
+
+  /**
+   * Prepare, bind and step a single statement
+   */
+  private runStatement(
+    sql: string,
+    params: BindParams | undefined,
+    checkInterrupt: () => void
+  ): QueryResult {
+    const stmt = this.db!.prepare(sql);
+    try {
+      if (params) {
+        stmt.bind(params);
+      }
+
+      const result: QueryResult = {
+        columns: stmt.getColumnNames(),
+        values: [],
+      };
+
+      while (stmt.step()) {
+        if (result.columns.length) {
           result.values.push(stmt.get());
         }
+        checkInterrupt();
+      }
 
-        stmt.free();
-        return result;
-      } else {
-        // For INSERT, UPDATE, DELETE, CREATE, etc.
-        this.db.run(trimmedQuery);
-        const changes = this.db.exec('SELECT changes() as changes')[0];
-        const rowsAffected = changes?.values[0]?.[0] || 0;
+      const { kind } = classifyStatement(sql);
+      if (kind === 'transaction') {
+        this.transactions.apply(sql);
+      }
+      if (kind === 'dml') {
+        result.rowsAffected = this.db!.getRowsModified();
+      } else if (!result.columns.length) {
+        // DDL and other statements change no rows; changes() would be stale here
+        result.rowsAffected = 0;
+      }
 
-        return {
+      return result;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  /**
+   * Execute a multi-statement script, one result per statement
+   * Failing statements are reported in their result rather than thrown
+   */
+  executeScript(script: string, options: ScriptOptions = {}): ScriptStatementResult[] {
+    if (!this.db) {
+      throw new Error('Database not loaded. Load or create a database first.');
+    }
+
+    const { stopOnError = true } = options;
+    const statements = splitStatements(script);
+    if (!statements.length) {
+      throw new Error('Empty script');
+    }
+
+    const checkInterrupt = this.createInterruptCheck(options);
+    const results: ScriptStatementResult[] = [];
+
+    for (let index = 0; index < statements.length; index++) {
+      const { sql } = statements[index];
+      const startTime = performance.now();
+
+      try {
+        const result = this.executeStatements(sql, undefined, checkInterrupt);
+        results.push({
+          ...result,
+          statementIndex: index,
+          sql,
+          executionTime: performance.now() - startTime,
+        });
+      } catch (error: any) {
+        results.push({
           columns: [],
           values: [],
-          rowsAffected: rowsAffected as number,
-        };
+          statementIndex: index,
+          sql,
+          executionTime: performance.now() - startTime,
+          error: `Statement ${index + 1}: ${error.message || error}`,
+          interrupted: error instanceof QueryInterruptedError ? error.reason : undefined,
+        });
+
+        if (stopOnError || error instanceof QueryInterruptedError) {
+          break;
+        }
       }
+    }
+
+    return results;
+  }
+
+  /**
+   * Open a cursor over a single query's rows
+   * Close it when done unless every row is read; saving, reloading or closing
+   * the database closes any cursors still open, and reading them then throws.
+   */
+  openCursor(query: string, params?: BindParams): QueryCursor {
+    if (!this.db) {
+      throw new Error('Database not loaded. Load or create a database first.');
+    }
+
+    const statements = splitStatements(query);
+    if (statements.length !== 1) {
+      throw new Error(statements.length ? 'Cursors require a single statement' : 'Empty query');
+    }
+
+    let stmt: Statement | null = null;
+    let cursor: QueryCursor;
+    try {
+      stmt = this.db.prepare(statements[0].sql);
+      if (params) {
+        stmt.bind(params);
+      }
+      cursor = new QueryCursor(stmt, () => this.cursors.delete(cursor));
     } catch (error: any) {
+      stmt?.free();
       throw new Error(`Query execution failed: ${error.message || error}`);
     }
+
+    this.cursors.add(cursor);
+    return cursor;
+  }
+
+  /**
+   * Yield a query's rows in batches
+   * The cursor is closed when iteration finishes, breaks or throws.
+   */
+  async *streamQuery(
+    query: string,
+    params?: BindParams,
+    { batchSize = DEFAULT_BATCH_SIZE, signal }: StreamOptions = {}
+  ): AsyncGenerator<RowBatch> {
+    const cursor = this.openCursor(query, params);
+    try {
+      while (!cursor.done) {
+        if (signal?.aborted) {
+          throw new QueryInterruptedError('cancelled');
+        }
+        const rows = cursor.fetch(batchSize);
+        if (rows.length) {
+          yield { columns: cursor.columns, rows };
+        }
+      }
+    } finally {
+      cursor.close();
+    }
+  }
+
+  /**
+   * Free the statements of every open cursor
+   */
+  private closeCursors(): void {
+    this.cursors.forEach((cursor) => cursor.close());
+    this.cursors.clear();
+  }
+
+  /**
+   * Start a transaction, or a savepoint nested in the open one
+   */
+  beginTransaction(): void {
+    if (this.transactions.depth) {
+      this.executeQuery(`SAVEPOINT ${quoteIdentifier(this.transactions.nextSavepointName())}`);
+    } else {
+      this.executeQuery('BEGIN');
+    }
+  }
+
+  /**
+   * Commit the innermost open level: release the savepoint, or commit the transaction
+   */
+  commit(): void {
+    this.requireTransaction();
+    if (this.transactions.depth > 1) {
+      this.executeQuery(`RELEASE ${this.currentSavepoint()}`);
+    } else {
+      this.executeQuery('COMMIT');
+    }
+  }
+
+  /**
+   * Undo the innermost open level: roll back to and release the savepoint,
+   * or roll back the transaction
+   */
+  rollback(): void {
+    this.requireTransaction();
+    if (this.transactions.depth > 1) {
+      const savepoint = this.currentSavepoint();
+      this.executeQuery(`ROLLBACK TO ${savepoint}`);
+      this.executeQuery(`RELEASE ${savepoint}`);
+    } else {
+      this.executeQuery('ROLLBACK');
+    }
+  }
+
+  /**
+   * Number of open levels, counting BEGIN and SAVEPOINT statements run by any caller
+   */
+  getTransactionDepth(): number {
+    return this.transactions.depth;
+  }
+
+  /**
+   * Whether a cursor or an export is still being read
+   */
+  hasOpenStreams(): boolean {
+    return this.cursors.size > 0 || this.openExports > 0;
+  }
+
+  /**
+   * Whether any TEMP table, view, index or trigger exists; saving the database drops them
+   */
+  hasTempObjects(): boolean {
+    if (!this.db) {
+      return false;
+    }
+    return this.db.exec('SELECT 1 FROM temp.sqlite_master LIMIT 1').length > 0;
+  }
+
+  /**
+   * PRAGMA statements that set the connection's settings back to their current
+   * values, as saving the database resets them
+   */
+  getConnectionSettings(): string[] {
+    if (!this.db) {
+      return [];
+    }
+    return CONNECTION_PRAGMAS.flatMap((name) => {
+      const value = this.db!.exec(`PRAGMA ${name}`)[0]?.values[0]?.[0];
+      return value === undefined || value === null ? [] : [`PRAGMA ${name}=${value}`];
+    });
+  }
+
+  /**
+   * Run `fn` in a transaction (or savepoint), committing on success and
+   * rolling back when it throws
+   */
+  transaction<T>(fn: (tx: DatabaseManager) => T | Promise<T>): Promise<T> {
+    return runTransaction(this, this, fn);
+  }
+
+  /**
+   * Forget the open levels once SQLite has rolled the transaction back by itself
+   * ON CONFLICT ROLLBACK and RAISE(ROLLBACK) do so when a statement fails; sql.js
+   * does not expose sqlite3_get_autocommit, so BEGIN probes for it.
+   */
+  private syncTransactions(): void {
+    if (!this.db || !this.transactions.depth) {
+      return;
+    }
+    try {
+      this.db.run('BEGIN');
+    } catch {
+      // Still in the transaction
+      return;
+    }
+    this.db.run('COMMIT');
+    this.transactions.reset();
+  }
+
+  private requireTransaction(): void {
+    if (!this.transactions.depth) {
+      throw new Error('No transaction is open');
+    }
+  }
+
+  private currentSavepoint(): string {
+    return quoteIdentifier(this.transactions.innermostSavepoint || '');
   }
 
   /**
    * Get comprehensive table information
    */
-  getTableInfo(tableName: string): TableInfo | null {
+  getTableInfo(tableName: string, schema: string = 'main'): TableInfo | null {
     if (!this.db) {
       return null;
     }
@@ -132,7 +558,8 @@ export class DatabaseManager {
     try {
       // Get table SQL
       const tableInfo = this.db.exec(
-        `SELECT sql FROM sqlite_master WHERE type='table' AND name='${tableName}'`
+        `SELECT sql FROM ${this.master(schema)} WHERE type='table' AND name=?`,
+        [tableName]
       );
 
       if (!tableInfo.length || !tableInfo[0].values.length) {
@@ -140,29 +567,31 @@ export class DatabaseManager {
       }
 
       const sql = tableInfo[0].values[0][0] as string;
+      const definition = parseTableDefinition(sql);
 
       // Get column information
-      const pragmaResult = this.db.exec(`PRAGMA table_info('${tableName}')`);
-      const columns: ColumnInfo[] = pragmaResult[0].values.map((row: any[]) => ({
-        name: row[1] as string,
-        type: row[2] as string,
-        notnull: Boolean(row[3]),
-        dflt_value: row[4] as string | null,
-        pk: Boolean(row[5]),
-      }));
+      const columns = this.getColumns(tableName, schema, definition);
 
       // Get indexes
-      const indexes = this.getTableIndexes(tableName);
+      const indexes = this.getTableIndexes(tableName, schema);
 
       // Get foreign keys
-      const foreignKeys = this.getTableForeignKeys(tableName);
+      const foreignKeys = this.getTableForeignKeys(tableName, schema);
+
+      const virtualModule = getVirtualTableModule(sql);
 
       return {
         name: tableName,
+        schema,
         sql,
         columns,
         indexes,
         foreignKeys,
+        primaryKey: this.getPrimaryKeyColumns(tableName, schema),
+        checks: definition.checks,
+        strict: definition.strict,
+        withoutRowid: definition.withoutRowid,
+        ...(virtualModule && { virtualModule }),
       };
     } catch (error) {
       console.error(`Error getting table info for ${tableName}:`, error);
@@ -170,98 +599,479 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Get the columns of a table or view, with what the table's DDL declares about them
+   */
+  private getColumns(name: string, schema: string, definition?: TableDefinition): ColumnInfo[] {
+    const pragmaResult = this.db!.exec(
+      'SELECT cid, name, type, "notnull", dflt_value, pk, hidden FROM pragma_table_xinfo(?, ?)',
+      [name, schema]
+    );
+    return (pragmaResult[0]?.values || []).map((row: any[]) => {
+      const columnName = row[1] as string;
+      const pkOrder = row[5] as number;
+      // hidden is 1 for hidden virtual-table columns, 2 and 3 for generated ones
+      const hidden = row[6] as number;
+      const declared = definition?.columns.get(columnName.toLowerCase());
+      const collation = declared?.collation;
+
+      return {
+        name: columnName,
+        type: row[2] as string,
+        notnull: Boolean(row[3]),
+        dflt_value: row[4] as string | null,
+        pk: pkOrder > 0,
+        ...(pkOrder > 0 && { pkOrder }),
+        ...(hidden === 1 && { hidden: true }),
+        ...(hidden >= 2 && {
+          generated: hidden === 3 ? ('STORED' as const) : ('VIRTUAL' as const),
+        }),
+        ...(declared?.generated && { generatedExpression: declared.generated }),
+        ...(collation && collation.toUpperCase() !== 'BINARY' && { collation }),
+        ...(declared?.checks.length && { checks: declared.checks }),
+        ...(declared?.autoincrement && { autoincrement: true }),
+      };
+    });
+  }
+
+  /**
+   * Get all views with the columns they produce
+   */
+  private getViews(schema: string): ViewInfo[] {
+    const result = this.db!.exec(
+      `SELECT name, sql FROM ${this.master(schema)} WHERE type='view' ORDER BY name`
+    );
+
+    return (result[0]?.values || []).map((row: any[]) => {
+      const name = row[0] as string;
+      let columns: ColumnInfo[] = [];
+      try {
+        columns = this.getColumns(name, schema);
+      } catch (error) {
+        // A view over a dropped table cannot be resolved; keep it without columns
+        console.error(`Error getting columns for view ${name}:`, error);
+      }
+      return { name, schema, sql: row[1] as string, columns };
+    });
+  }
+
+  /**
+   * Get all triggers with what fires them
+   */
+  private getTriggers(schema: string): TriggerInfo[] {
+    const result = this.db!.exec(
+      `SELECT name, tbl_name, sql FROM ${this.master(schema)} WHERE type='trigger' ORDER BY name`
+    );
+
+    return (result[0]?.values || []).map((row: any[]) => {
+      const sql = row[2] as string;
+      const table = row[1] as string;
+      return { name: row[0] as string, schema, table, sql, ...describeTrigger(sql) };
+    });
+  }
+
+  /**
+   * Names of the internal tables that store virtual table contents (e.g. fts4 segments)
+   */
+  private getShadowTableNames(schema: string): Set<string> {
+    try {
+      const result = this.db!.exec(
+        "SELECT name FROM pragma_table_list WHERE type='shadow' AND schema=?",
+        [schema]
+      );
+      return new Set((result[0]?.values || []).map((row: any[]) => row[0] as string));
+    } catch {
+      // pragma_table_list needs SQLite 3.37+
+      return new Set();
+    }
+  }
+
   /**
    * Get all indexes for a table
    */
-  private getTableIndexes(tableName: string): IndexInfo[] {
+  private getTableIndexes(tableName: string, schema: string): IndexInfo[] {
     if (!this.db) {
       return [];
     }
 
     try {
       const indexList = this.db.exec(
-        `SELECT name, sql FROM sqlite_master WHERE type='index' AND tbl_name='${tableName}'`
+        `SELECT il.name, il."unique", il.origin, il.partial, m.sql
+         FROM pragma_index_list(?, ?) AS il
+         LEFT JOIN ${this.master(schema)} AS m ON m.type = 'index' AND m.name = il.name
+         ORDER BY il.name`,
+        [tableName, schema]
       );
 
-      return indexList[0]?.values.map((row: any[]) => {
-        const sql = row[1] as string;
-        const unique = sql?.toUpperCase().includes('UNIQUE') || false;
-        // Extract column names from SQL
-        const columns: string[] = [];
-        const match = sql?.match(/\(([^)]+)\)/);
-        if (match) {
-          columns.push(...match[1].split(',').map((col) => col.trim().replace(/["`]/g, '')));
-        }
+      return (indexList[0]?.values || []).map((row: any[]) => {
+        const name = row[0] as string;
+        const sql = row[4] as string | null;
+        const definition = sql ? parseIndexDefinition(sql) : { terms: [] };
+
+        // Only key columns; the trailing rowid entries are not part of the key
+        const columnResult = this.db!.exec(
+          `SELECT seqno, cid, name, "desc", coll FROM pragma_index_xinfo(?, ?)
+           WHERE key = 1 ORDER BY seqno`,
+          [name, schema]
+        );
+        const keyColumns: IndexColumnInfo[] = (columnResult[0]?.values || []).map(
+          (column: any[]) => {
+            // cid is -2 for an expression and -1 for the rowid
+            const cid = column[1] as number;
+            const expression = cid === -2 ? definition.terms[column[0] as number] : undefined;
+            return {
+              name: cid === -1 ? 'rowid' : (column[2] as string | null),
+              ...(expression && { expression }),
+              desc: Boolean(column[3]),
+              collation: column[4] as string,
+            };
+          }
+        );
 
         return {
-          name: row[0] as string,
-          unique,
-          columns,
+          name,
+          unique: Boolean(row[1]),
+          columns: keyColumns.map((column) => column.name ?? column.expression ?? '?'),
+          keyColumns,
+          origin: row[2] as IndexOrigin,
+          partial: Boolean(row[3]),
+          ...(definition.where && { where: definition.where }),
+          sql,
         };
-      }) || [];
+      });
     } catch (error) {
       return [];
     }
   }
 
+  /**
+   * Primary key columns of a table, in key order
+   */
+  private getPrimaryKeyColumns(tableName: string, schema: string): string[] {
+    const result = this.db!.exec(
+      'SELECT name FROM pragma_table_info(?, ?) WHERE pk > 0 ORDER BY pk',
+      [tableName, schema]
+    );
+    return (result[0]?.values || []).map((row: any[]) => row[0] as string);
+  }
+
   /**
    * Get all foreign keys for a table
    */
-  private getTableForeignKeys(tableName: string): ForeignKeyInfo[] {
+  private getTableForeignKeys(tableName: string, schema: string): ForeignKeyInfo[] {
     if (!this.db) {
       return [];
     }
 
     try {
-      const fkResult = this.db.exec(`PRAGMA foreign_key_list('${tableName}')`);
-      if (!fkResult.length) {
-        return [];
-      }
+      const fkResult = this.db.exec(
+        `SELECT id, "table", "from", "to", on_update, on_delete, "match"
+         FROM pragma_foreign_key_list(?, ?) ORDER BY id, seq`,
+        [tableName, schema]
+      );
+
+      // One row per column; rows sharing an id belong to the same constraint
+      const constraints = new Map<number, ForeignKeyInfo>();
+      (fkResult[0]?.values || []).forEach((row: any[]) => {
+        const id = row[0] as number;
+        let fk = constraints.get(id);
+        if (!fk) {
+          fk = {
+            id,
+            from: tableName,
+            to: row[1] as string,
+            columns: [],
+            onUpdate: row[4] as ForeignKeyAction,
+            onDelete: row[5] as ForeignKeyAction,
+            match: row[6] as string,
+          };
+          constraints.set(id, fk);
+        }
+        fk.columns.push({ from: row[2] as string, to: row[3] as string | null });
+      });
+
+      // REFERENCES parent without a column list refers to the parent's primary key
+      constraints.forEach((fk) => {
+        if (fk.columns.some((column) => column.to === null)) {
+          // Foreign keys always refer to a table in the same schema
+          const primaryKey = this.getPrimaryKeyColumns(fk.to, schema);
+          fk.columns.forEach((column, index) => {
+            column.to = column.to ?? primaryKey[index] ?? null;
+          });
+        }
+      });
 
-      return fkResult[0].values.map((row: any[]) => ({
-        from: tableName,
-        to: row[2] as string,
-        fromColumn: row[3] as string,
-        toColumn: row[4] as string,
-      }));
+      return Array.from(constraints.values());
     } catch (error) {
       return [];
     }
   }
 
+  /**
+   * Sizes of the database and of each table and index
+   * Page counts and byte sizes come from the dbstat virtual table; builds
+   * without it (such as the stock sql.js) report row counts only. Database-level
+   * figures describe the main database; tables of attached ones are listed too.
+   */
+  getStatistics(): DatabaseStatistics {
+    if (!this.db) {
+      throw new Error('No database loaded');
+    }
+
+    const [pageSize, pageCount, freelistCount] = this.db.exec(
+      'SELECT * FROM pragma_page_size, pragma_page_count, pragma_freelist_count'
+    )[0].values[0] as number[];
+    const pageUsage = new Map<string, Map<string, PageUsage> | null>();
+    const usageOf = (schema: string) => {
+      if (!pageUsage.has(schema)) {
+        pageUsage.set(schema, this.getPageUsage(schema));
+      }
+      return pageUsage.get(schema)!;
+    };
+    const pages = usageOf('main');
+
+    const describe = (schema: string, name: string, table: string, rowCount: number | null) => {
+      const schemaPages = usageOf(schema);
+      const usage = schemaPages?.get(name);
+      return {
+        name,
+        schema,
+        table,
+        rowCount,
+        pageCount: schemaPages ? (usage?.pageCount ?? 0) : null,
+        sizeBytes: schemaPages ? (usage?.sizeBytes ?? 0) : null,
+        payloadBytes: schemaPages ? (usage?.payloadBytes ?? 0) : null,
+      };
+    };
+
+    const tables: ObjectStatistics[] = [];
+    const indexes: ObjectStatistics[] = [];
+    this.getSchema().tables.forEach((table) => {
+      const rowCount = this.countRows(table.schema, table.name);
+      tables.push(describe(table.schema, table.name, table.name, rowCount));
+
+      table.indexes.forEach((index) => {
+        // A partial index only holds the rows matching its WHERE clause
+        const entries = index.where
+          ? this.countRows(table.schema, table.name, index.where)
+          : rowCount;
+        indexes.push(describe(table.schema, index.name, table.name, entries));
+      });
+    });
+
+    const sizeBytes = pageSize * pageCount;
+    let freeBytes = freelistCount * pageSize;
+    pages?.forEach((usage) => (freeBytes += usage.unusedBytes));
+
+    return {
+      pageSize,
+      pageCount,
+      freelistCount,
+      sizeBytes,
+      fragmentation: sizeBytes > 0 ? freeBytes / sizeBytes : 0,
+      hasPageStatistics: pages !== null,
+      tables,
+      indexes,
+    };
+  }
+
+  /**
+   * Page usage per table and index from dbstat, or null when it is not compiled in
+   */
+  private getPageUsage(schema: string): Map<string, PageUsage> | null {
+    try {
+      const result = this.db!.exec(
+        'SELECT name, count(*), sum(pgsize), sum(payload), sum(unused) FROM dbstat(?) GROUP BY name',
+        [schema]
+      );
+      return new Map(
+        (result[0]?.values || []).map((row: any[]) => [
+          row[0] as string,
+          {
+            pageCount: row[1] as number,
+            sizeBytes: row[2] as number,
+            payloadBytes: row[3] as number,
+            unusedBytes: row[4] as number,
+          },
+        ])
+      );
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Rows of a table, optionally only those matching `where`; null when counting fails
+   */
+  private countRows(schema: string, tableName: string, where?: string): number | null {
+    try {
+      const filter = where ? ` WHERE ${where}` : '';
+      const result = this.db!.exec(
+        `SELECT count(*) FROM ${quoteQualified(schema, tableName)}${filter}`
+      );
+      return result[0].values[0][0] as number;
+    } catch (error) {
+      return null;
+    }
+  }
+
   /**
    * Get complete database schema
    */
   getSchema(): DatabaseSchema {
     if (!this.db) {
-      return { tables: [], version: '0.0.0' };
+      return { tables: [], views: [], triggers: [], databases: [], version: '0.0.0' };
     }
 
     try {
-      const tablesResult = this.db.exec(
-        "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
-      );
+      const databases = this.getDatabaseNames();
+      const tables: TableInfo[] = [];
+      const views: ViewInfo[] = [];
+      const triggers: TriggerInfo[] = [];
 
-      const tableNames: string[] =
-        tablesResult[0]?.values.map((row: any[]) => row[0] as string) || [];
+      databases.forEach((schema) => {
+        const shadowTables = this.getShadowTableNames(schema);
+        const tablesResult = this.db!.exec(
+          `SELECT name FROM ${this.master(schema)}
+           WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name`
+        );
 
-      const tables: TableInfo[] = tableNames
-        .map((name) => this.getTableInfo(name))
-        .filter((info): info is TableInfo => info !== null);
+        (tablesResult[0]?.values || [])
+          .map((row: any[]) => row[0] as string)
+          .filter((name: string) => !shadowTables.has(name))
+          .forEach((name: string) => {
+            const info = this.getTableInfo(name, schema);
+            if (info) tables.push(info);
+          });
+
+        views.push(...this.getViews(schema));
+        triggers.push(...this.getTriggers(schema));
+      });
 
       const versionResult = this.db.exec("PRAGMA user_version");
       const version = versionResult[0]?.values[0]?.[0]?.toString() || '0.0.0';
 
-      return {
-        tables,
-        version,
-      };
+      return { tables, views, triggers, databases, version };
     } catch (error) {
       console.error('Error getting schema:', error);
-      return { tables: [], version: '0.0.0' };
+      return { tables: [], views: [], triggers: [], databases: [], version: '0.0.0' };
     }
   }
 
+  /**
+   * Schema of another database file, read through a connection of its own so
+   * the open database and its attachments are left as they are
+   */
+  async readSchema(data: Uint8Array | ArrayBuffer): Promise<DatabaseSchema> {
+    if (!this.sqlJs) {
+      await this.initialize();
+    }
+
+    const reader = new DatabaseManager({ sqlJs: this.sqlJs! });
+    await reader.loadDatabase(data);
+    try {
+      // getSchema reports an empty schema on errors; fail for anything that is not a database file
+      reader.db!.exec('SELECT count(*) FROM sqlite_master');
+      return reader.getSchema();
+    } catch (error) {
+      throw new Error(`Failed to read database: ${error}`);
+    } finally {
+      reader.close();
+    }
+  }
+
+  /**
+   * Schema of the main database only; exports leave attached databases out
+   */
+  private getMainSchema(): DatabaseSchema {
+    const schema = this.getSchema();
+    return {
+      ...schema,
+      tables: schema.tables.filter((table) => table.schema === 'main'),
+      views: schema.views.filter((view) => view.schema === 'main'),
+      triggers: schema.triggers.filter((trigger) => trigger.schema === 'main'),
+      databases: ['main'],
+    };
+  }
+
+  /**
+   * Names of the main and attached databases, main first; temp is left out
+   */
+  private getDatabaseNames(): string[] {
+    const result = this.db!.exec(
+      "SELECT name FROM pragma_database_list WHERE name <> 'temp' ORDER BY seq"
+    );
+    return (result[0]?.values || []).map((row: any[]) => row[0] as string);
+  }
+
+  /**
+   * The sqlite_master table of a schema, ready to use in a query
+   */
+  private master(schema: string): string {
+    return `${quoteIdentifier(schema)}.sqlite_master`;
+  }
+
+  /**
+   * Open another database file alongside the main one, as schema `name`
+   * Its tables can then be queried as name.table, including in joins with the
+   * main database. Attachments last until detached or another database is loaded.
+   */
+  attachDatabase(name: string, data: Uint8Array | ArrayBuffer): void {
+    if (!this.db || !this.sqlJs) {
+      throw new Error('Database not loaded');
+    }
+    const taken = this.db.exec('SELECT 1 FROM pragma_database_list WHERE name = ? COLLATE NOCASE', [
+      name,
+    ]);
+    if (taken.length || name.toLowerCase() === 'temp') {
+      throw new Error(`A database named "${name}" is already open`);
+    }
+
+    const holder = new this.sqlJs.Database(
+      data instanceof ArrayBuffer ? new Uint8Array(data) : data
+    );
+    try {
+      // Fails for anything that is not a database file
+      holder.exec('SELECT count(*) FROM sqlite_master');
+      this.attachFile(name, holder);
+    } catch (error) {
+      holder.close();
+      throw new Error(`Failed to attach database: ${error}`);
+    }
+    this.attached.set(name, holder);
+  }
+
+  /**
+   * Close an attached database
+   */
+  detachDatabase(name: string): void {
+    if (!this.db) {
+      throw new Error('Database not loaded');
+    }
+
+    this.db.run(`DETACH ${quoteIdentifier(name)}`);
+    this.attached.get(name)?.close();
+    this.attached.delete(name);
+  }
+
+  /**
+   * Attach the in-memory file behind `holder`
+   * sql.js keeps each database in a file of its own, which ATTACH can open by path.
+   */
+  private attachFile(name: string, holder: Database): void {
+    const file = holder.exec("SELECT file FROM pragma_database_list WHERE name = 'main'")[0]
+      .values[0][0] as string;
+    this.db!.run(`ATTACH ? AS ${quoteIdentifier(name)}`, [file]);
+  }
+
+  /**
+   * Close every attached database's file
+   */
+  private closeAttached(): void {
+    this.attached.forEach((holder) => holder.close());
+    this.attached.clear();
+  }
+
   /**
    * Export database with flexible options
    */
@@ -270,126 +1080,551 @@ export class DatabaseManager {
       throw new Error('Database not loaded');
     }
 
-    const { schema = true, data = true, format = 'sql' } = options;
+    const { format } = options;
+    if (isResultFormat(format) && !options.table && this.getMainSchema().tables.length > 1) {
+      throw new Error(
+        `${getExporter(format!).label} exports write one file per table: name a table, or export every table as a zip`
+      );
+    }
+
+    let text = '';
+    for (const chunk of this.exportChunks(options)) {
+      text += chunk.text;
+    }
+    return text;
+  }
+
+  /**
+   * Yield an export in chunks, as streamQuery yields rows
+   * The export is read lazily, so this stays responsive to the signal between chunks.
+   */
+  async *streamExport(options: ExportStreamOptions = {}): AsyncGenerator<ExportChunk> {
+    for (const chunk of this.exportChunks(options)) {
+      if (options.signal?.aborted) {
+        throw new QueryInterruptedError('cancelled');
+      }
+      yield chunk;
+    }
+  }
+
+  /**
+   * Write an export piece by piece: the schema, then each table's rows read
+   * through a cursor `batchSize` at a time, so only one batch is held in memory
+   * Joined, the chunks' text is what exportDatabase returns.
+   */
+  *exportChunks(options: ExportStreamOptions = {}): Generator<ExportChunk> {
+    if (!this.db) {
+      throw new Error('Database not loaded');
+    }
+
+    const { schema = true, data = true, format = 'sql', batchSize = DEFAULT_BATCH_SIZE } = options;
+    const mainSchema = this.getMainSchema();
+    if (options.table && !mainSchema.tables.some((table) => table.name === options.table)) {
+      throw new Error(`No table named "${options.table}"`);
+    }
+    let pieces: Generator<ExportPiece>;
+    let exported: TableInfo[];
 
     if (format === 'json') {
-      return this.exportAsJSON(schema, data);
-    } else if (format === 'csv') {
-      return this.exportAsCSV();
+      exported = data ? mainSchema.tables : [];
+      pieces = this.jsonPieces(schema ? mainSchema : null, exported, batchSize);
+    } else if (isResultFormat(format)) {
+      exported = mainSchema.tables.filter(
+        (table) => !options.table || table.name === options.table
+      );
+      pieces = this.tablePieces(exported, getExporter(format), options, batchSize);
     } else {
-      return this.exportAsSQL(schema, data);
+      const tables = orderByForeignKeys(mainSchema.tables);
+      exported = data ? tables : [];
+      pieces = this.sqlPieces(mainSchema, tables, schema, data, batchSize);
+    }
+
+    const progress: ExportProgress = {
+      table: null,
+      rows: 0,
+      totalRows: exported.reduce(
+        (total, table) => total + (this.countRows('main', table.name) ?? 0),
+        0
+      ),
+    };
+    // Lines are joined with newlines, across chunks as within them; result formats end their own
+    const newline = isResultFormat(format) ? '' : '\n';
+    let first = true;
+
+    this.openExports++;
+    try {
+      for (const { lines, table = null, rows = 0, file } of pieces) {
+        if (!lines.length) {
+          continue;
+        }
+        const text = (first ? '' : newline) + lines.join(newline);
+        first = false;
+        progress.table = table;
+        progress.rows += rows;
+        yield { text, ...(file && { file }), progress: { ...progress } };
+      }
+    } finally {
+      this.openExports--;
     }
   }
 
   /**
-   * Export as SQL
+   * Read a query's rows in batches through a cursor, closed when reading stops
    */
-  private exportAsSQL(schema: boolean, data: boolean): string {
-    if (!this.db) {
-      return '';
+  private *readBatches(query: string, batchSize: number): Generator<RowBatch> {
+    const cursor = this.openCursor(query);
+    try {
+      while (!cursor.done) {
+        const rows = cursor.fetch(batchSize);
+        if (rows.length) {
+          yield { columns: cursor.columns, rows };
+        }
+      }
+    } finally {
+      cursor.close();
     }
+  }
 
-    const parts: string[] = [];
+  /**
+   * Export as a SQL dump that restores the database when run into an empty one
+   * It runs in one transaction with foreign keys off: tables are created parents
+   * first and filled, AUTOINCREMENT counters are restored, then indexes, views
+   * (each after the views it reads) and triggers (so they do not fire for restored
+   * rows, and find the views INSTEAD OF triggers are on) are created.
+   */
+  private *sqlPieces(
+    mainSchema: DatabaseSchema,
+    tables: TableInfo[],
+    schema: boolean,
+    data: boolean,
+    batchSize: number
+  ): Generator<ExportPiece> {
+    yield { lines: ['PRAGMA foreign_keys=OFF;', 'BEGIN TRANSACTION;'] };
 
     if (schema) {
-      const schemaResult = this.db.exec(
-        "SELECT sql FROM sqlite_master WHERE type IN ('table', 'index', 'trigger', 'view') AND name NOT LIKE 'sqlite_%'"
+      yield { lines: tables.map((table) => `${table.sql};`) };
+    }
+
+    if (data) {
+      for (const table of tables) {
+        yield* this.dumpRows(table, batchSize);
+      }
+      yield { lines: this.dumpSequences() };
+    }
+
+    const lines: string[] = [];
+    if (schema) {
+      tables.forEach((table) =>
+        table.indexes.forEach((index) => {
+          if (index.sql) {
+            lines.push(`${index.sql};`);
+          }
+        })
       );
+      orderByViewReferences(mainSchema.views).forEach((view) => lines.push(`${view.sql};`));
+      mainSchema.triggers.forEach((trigger) => lines.push(`${trigger.sql};`));
+      if (/^-?\d+$/.test(mainSchema.version) && mainSchema.version !== '0') {
+        lines.push(`PRAGMA user_version=${mainSchema.version};`);
+      }
+    }
+    lines.push('COMMIT;');
+    yield { lines };
+  }
 
-      if (schemaResult[0]?.values) {
-        schemaResult[0].values.forEach((row: any[]) => {
-          const sql = row[0];
-          if (sql) {
-            parts.push(sql as string);
-            parts.push(';');
+  /**
+   * INSERT statements for a table's rows, with values written by quote() so
+   * reals, blobs and text restore exactly
+   * Generated and hidden columns are left out. The rowid is written too when no
+   * column aliases it, so rows come back under the same rowids.
+   */
+  private *dumpRows(table: TableInfo, batchSize: number): Generator<ExportPiece> {
+    const columns = table.columns
+      .filter((column) => !column.generated && !column.hidden)
+      .map((column) => column.name);
+    const rowid = this.getUnaliasedRowid(table);
+    const names = rowid ? [rowid, ...columns] : columns;
+    const target = quoteIdentifier(table.name);
+    const list = names.map(quoteIdentifier).join(',');
+
+    const query = `SELECT ${names.map((name) => `quote(${quoteIdentifier(name)})`).join(', ')} FROM ${target}`;
+    for (const { rows } of this.readBatches(query, batchSize)) {
+      yield {
+        lines: rows.map((row) => `INSERT INTO ${target} (${list}) VALUES(${row.join(',')});`),
+        table: table.name,
+        rows: rows.length,
+      };
+    }
+  }
+
+  /**
+   * Name that reads a table's rowid when no INTEGER PRIMARY KEY column aliases it;
+   * null for tables without one, or whose columns take every rowid name
+   */
+  private getUnaliasedRowid(table: TableInfo): string | null {
+    if (table.withoutRowid || table.virtualModule) {
+      return null;
+    }
+
+    const [key] = table.primaryKey;
+    const keyColumn = table.columns.find((column) => column.name === key);
+    if (table.primaryKey.length === 1 && keyColumn?.type.toUpperCase() === 'INTEGER') {
+      return null;
+    }
+
+    const taken = new Set(table.columns.map((column) => column.name.toLowerCase()));
+    return ['rowid', '_rowid_', 'oid'].find((name) => !taken.has(name)) || null;
+  }
+
+  /**
+   * Statements restoring the AUTOINCREMENT counters kept in sqlite_sequence
+   */
+  private dumpSequences(): string[] {
+    const exists = this.db!.exec(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sqlite_sequence'"
+    ).length;
+    if (!exists) {
+      return [];
+    }
+
+    const result = this.db!.exec('SELECT quote(name), quote(seq) FROM sqlite_sequence');
+    return [
+      'DELETE FROM sqlite_sequence;',
+      ...(result[0]?.values || []).map(
+        ([name, seq]: any[]) => `INSERT INTO sqlite_sequence (name,seq) VALUES(${name},${seq});`
+      ),
+    ];
+  }
+
+  /**
+   * Export as JSON, laid out as JSON.stringify with an indent of 2 would write it
+   * Tables without rows are left out of data.
+   */
+  private *jsonPieces(
+    schema: DatabaseSchema | null,
+    tables: TableInfo[],
+    batchSize: number
+  ): Generator<ExportPiece> {
+    const indent = (json: string, spaces: string) => json.split('\n').join(`\n${spaces}`);
+    let lines = [
+      '{',
+      `  "formatVersion": ${JSON_EXPORT_VERSION},`,
+      `  "schema": ${indent(JSON.stringify(schema, encodeJsonValue, 2), '  ')},`,
+    ];
+    let written = 0;
+
+    for (const table of tables) {
+      const query = `SELECT * FROM ${quoteIdentifier(table.name)}`;
+      let firstRow = true;
+      for (const { rows } of this.readBatches(query, batchSize)) {
+        rows.forEach((row) => {
+          if (!firstRow || written) {
+            lines[lines.length - 1] += ',';
           }
+          if (firstRow) {
+            if (!written++) {
+              lines.push('  "data": {');
+            }
+            lines.push(`    ${JSON.stringify(table.name)}: [`);
+            firstRow = false;
+          }
+          lines.push(`      ${indent(JSON.stringify(row, encodeJsonValue, 2), '      ')}`);
         });
+        // Hold back the last line, which may still take a comma
+        yield { lines: lines.slice(0, -1), table: table.name, rows: rows.length };
+        lines = lines.slice(-1);
+      }
+      if (!firstRow) {
+        lines.push('    ]');
       }
     }
 
-    if (data) {
-      const tables = this.getSchema().tables;
-      tables.forEach((table) => {
-        const dataResult = this.db!.exec(`SELECT * FROM ${table.name}`);
-        if (dataResult[0]?.values.length) {
-          dataResult[0].values.forEach((row: any[]) => {
-            const values = row.map((val) => {
-              if (val === null) return 'NULL';
-              if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
-              return val;
-            });
-            parts.push(`INSERT INTO ${table.name} VALUES (${values.join(', ')});`);
-          });
-        }
-      });
-    }
+    lines.push(written ? '  }' : '  "data": {}', '}');
+    yield { lines };
+  }
+
+  /**
+   * Export in a result format, one file per table named after it; an empty
+   * table still gets a file, holding what the format writes around the rows
+   */
+  private *tablePieces(
+    tables: TableInfo[],
+    exporter: ResultExporter,
+    options: ExportOptions,
+    batchSize: number
+  ): Generator<ExportPiece> {
+    const files = toFileNames(
+      tables.map((table) => table.name),
+      exporter.extension
+    );
+
+    for (const [index, table] of tables.entries()) {
+      const file = files[index];
+      const columns = table.columns.filter((column) => !column.hidden).map((column) => column.name);
+      const query = `SELECT ${columns.map(quoteIdentifier).join(', ')} FROM ${quoteIdentifier(table.name)}`;
+      const target = { table: table.name, columns, options };
+      let count = 0;
 
-    return parts.join('\n');
+      yield { lines: [exporter.begin?.(target) ?? ''], file };
+      for (const { rows } of this.readBatches(query, batchSize)) {
+        yield {
+          lines: [exporter.rows(rows, target, count)],
+          table: table.name,
+          rows: rows.length,
+          file,
+        };
+        count += rows.length;
+      }
+      const end = exporter.end?.(target, count);
+      if (end) {
+        yield { lines: [end], file };
+      }
+    }
   }
 
   /**
-   * Export as JSON
+   * Insert rows of text fields into a table, `batchSize` rows per transaction
+   * (a savepoint when one is open). A row that fails, for a constraint or a
+   * missing field, is skipped and reported instead of stopping the import.
+   * Fields are bound as text and converted by the column's type affinity.
    */
-  private exportAsJSON(schema: boolean, data: boolean): string {
-    const schemaData = schema ? this.getSchema() : null;
-    const dataExport: Record<string, any[][]> = {};
+  importRows(rows: string[][], options: ImportOptions): ImportResult {
+    if (!this.db) {
+      throw new Error('Database not loaded. Load or create a database first.');
+    }
 
-    if (data && this.db) {
-      const tables = this.getSchema().tables;
-      tables.forEach((table) => {
-        const result = this.db!.exec(`SELECT * FROM ${table.name}`);
-        if (result[0]) {
-          dataExport[table.name] = result[0].values;
-        }
-      });
+    const {
+      table,
+      schema = 'main',
+      createTable = false,
+      columns,
+      batchSize = DEFAULT_BATCH_SIZE,
+      emptyAsNull = true,
+      firstRowNumber = 1,
+    } = options;
+    if (!columns.length) {
+      throw new Error('No columns to import');
+    }
+
+    const exists = this.db.exec(
+      `SELECT 1 FROM ${this.master(schema)} WHERE type = 'table' AND name = ? COLLATE NOCASE`,
+      [table]
+    ).length;
+    if (createTable && exists) {
+      throw new Error(`Table "${table}" already exists`);
+    }
+    if (!createTable && !exists) {
+      throw new Error(`No table named "${table}"`);
     }
 
-    return JSON.stringify(
-      {
-        schema: schemaData,
-        data: dataExport,
-      },
-      null,
-      2
+    const target = quoteQualified(schema, table);
+    if (createTable) {
+      const definitions = columns.map(({ name, type }) =>
+        type ? `${quoteIdentifier(name)} ${type}` : quoteIdentifier(name)
+      );
+      this.executeQuery(`CREATE TABLE ${target} (${definitions.join(', ')})`);
+    }
+
+    const names = columns.map(({ name }) => quoteIdentifier(name));
+    const placeholders = columns.map(() => '?');
+    const fieldCount = Math.max(...columns.map(({ source }) => source)) + 1;
+    const result: ImportResult = { inserted: 0, errors: [] };
+
+    const stmt = this.db.prepare(
+      `INSERT INTO ${target} (${names.join(', ')}) VALUES (${placeholders.join(', ')})`
     );
+    try {
+      for (let start = 0; start < rows.length; start += batchSize) {
+        this.beginTransaction();
+        const depth = this.transactions.depth;
+        try {
+          rows.slice(start, start + batchSize).forEach((row, offset) => {
+            const rowNumber = firstRowNumber + start + offset;
+            if (row.length < fieldCount) {
+              result.errors.push({
+                row: rowNumber,
+                message: `Expected ${fieldCount} fields, found ${row.length}`,
+              });
+              return;
+            }
+
+            try {
+              stmt.run(
+                columns.map(({ source }) =>
+                  emptyAsNull && row[source] === '' ? null : row[source]
+                )
+              );
+              result.inserted++;
+            } catch (error: any) {
+              const message = error.message || String(error);
+              result.errors.push({ row: rowNumber, message });
+              // ON CONFLICT ROLLBACK undoes the rows inserted before this one too
+              this.syncTransactions();
+              if (this.transactions.depth < depth) {
+                throw new Error(`Row ${rowNumber}: ${message}; the transaction was rolled back`);
+              }
+            }
+          });
+          this.commit();
+        } catch (error) {
+          if (this.transactions.depth >= depth) {
+            this.rollback();
+          }
+          throw error;
+        }
+      }
+    } finally {
+      stmt.free();
+    }
+
+    return result;
   }
 
   /**
-   * Export as CSV
+   * Recreate the contents of a JSON export in this database
+   * Tables are created parents first and filled, then indexes, views (each after
+   * the views it reads) and triggers (so they do not fire for imported rows, and
+   * find the views INSTEAD OF triggers are on) are created, in one transaction (a
+   * savepoint when one is open) that is rolled back if anything fails. Foreign
+   * keys are checked when it commits. Without a schema block, or with `schema`
+   * false, rows go into existing tables of the same names.
    */
-  private exportAsCSV(): string {
+  importJSON(json: string | JsonExport, options: JsonImportOptions = {}): JsonImportResult {
     if (!this.db) {
-      return '';
+      throw new Error('Database not loaded. Load or create a database first.');
     }
 
-    const tables = this.getSchema().tables;
-    const csvParts: string[] = [];
+    const file = parseJsonExport(json);
+    const schema = options.schema === false ? null : file.schema;
+    const data = options.data === false ? {} : file.data;
 
-    tables.forEach((table) => {
-      const result = this.db!.exec(`SELECT * FROM ${table.name}`);
-      if (result[0]?.values.length) {
-        const columns = result[0].columns;
-        csvParts.push(`Table: ${table.name}`);
-        csvParts.push(columns.join(','));
-        result[0].values.forEach((row: any[]) => {
-          csvParts.push(row.map((val) => (val === null ? '' : String(val))).join(','));
-        });
-        csvParts.push('');
+    const tables = orderByForeignKeys(
+      schema
+        ? schema.tables
+        : Object.keys(data).map((name) => {
+            const table = this.getTableInfo(name);
+            if (!table) {
+              throw new Error(`No table named "${name}"`);
+            }
+            return table;
+          })
+    );
+    Object.keys(data).forEach((name) => {
+      if (!tables.some((table) => table.name === name)) {
+        throw new Error(`Invalid JSON export: data.${name} has no table in the schema`);
       }
     });
 
-    return csvParts.join('\n');
+    const result: JsonImportResult = { tables: [], rows: 0 };
+    this.beginTransaction();
+    try {
+      // Rows may then reference rows inserted after them, as in reference cycles
+      this.db.run('PRAGMA defer_foreign_keys = ON');
+
+      if (schema) {
+        tables.forEach((table) => this.executeQuery(table.sql));
+      }
+
+      tables.forEach((table) => {
+        const rows = data[table.name];
+        if (rows?.length) {
+          result.rows += this.insertJsonRows(table, rows);
+          result.tables.push(table.name);
+        }
+      });
+
+      if (schema) {
+        tables.forEach((table) =>
+          table.indexes.forEach((index) => {
+            // Indexes behind UNIQUE and PRIMARY KEY constraints come with their table
+            if (index.sql) {
+              this.executeQuery(index.sql);
+            }
+          })
+        );
+        orderByViewReferences(schema.views).forEach((view) => this.executeQuery(view.sql));
+        schema.triggers.forEach((trigger) => this.executeQuery(trigger.sql));
+        if (/^\d+$/.test(schema.version) && schema.version !== '0') {
+          this.db.run(`PRAGMA user_version = ${schema.version}`);
+        }
+      }
+
+      this.commit();
+    } catch (error) {
+      this.rollback();
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Insert one table's rows from a JSON export, skipping generated columns
+   */
+  private insertJsonRows(table: TableInfo, rows: any[][]): number {
+    // SELECT * leaves hidden columns out
+    const columns = table.columns.filter((column) => !column.hidden);
+    const insertable = columns
+      .map((column, position) => ({ column, position }))
+      .filter(({ column }) => !column.generated);
+    const names = insertable.map(({ column }) => quoteIdentifier(column.name));
+
+    const stmt = this.db!.prepare(
+      `INSERT INTO ${quoteIdentifier(table.name)} (${names.join(', ')}) VALUES (${names
+        .map(() => '?')
+        .join(', ')})`
+    );
+    try {
+      rows.forEach((row, index) => {
+        const location = `data.${table.name}[${index}]`;
+        if (row.length !== columns.length) {
+          throw new Error(
+            `Invalid JSON export: ${location} has ${row.length} values, expected ${columns.length}`
+          );
+        }
+        try {
+          stmt.run(insertable.map(({ position }) => decodeJsonValue(row[position])));
+        } catch (error: any) {
+          throw new Error(`Failed to import ${location}: ${error.message || error}`);
+        }
+      });
+    } finally {
+      stmt.free();
+    }
+
+    return rows.length;
   }
 
   /**
    * Save database to binary format
+   * sql.js reopens the main database to export it: open cursors are closed and
+   * TEMP objects are dropped, while attached databases and the connection's
+   * settings are restored.
    */
-  saveDatabase(): Uint8Array {
+  saveDatabase(schema: string = 'main'): Uint8Array {
     if (!this.db) {
       throw new Error('Database not loaded');
     }
+    // sql.js reopens the connection to export, which would roll the transaction back
+    if (this.transactions.depth) {
+      throw new Error('Commit or roll back the open transaction before saving');
+    }
 
-    return this.db.export();
+    if (schema !== 'main') {
+      const holder = this.attached.get(schema);
+      if (!holder) {
+        throw new Error(`No attached database named "${schema}"`);
+      }
+      return holder.export();
+    }
+
+    const settings = this.getConnectionSettings();
+    // Exporting also frees every prepared statement
+    this.closeCursors();
+    const data = this.db.export();
+    // ...and closes the connection, detaching everything and resetting its settings
+    this.attached.forEach((holder, name) => this.attachFile(name, holder));
+    settings.forEach((sql) => this.db!.run(sql));
+    return data;
   }
 
   /**
@@ -403,6 +1638,9 @@ export class DatabaseManager {
    * Close database and free resources
    */
   close(): void {
+    this.closeCursors();
+    this.closeAttached();
+    this.transactions.reset();
     if (this.db) {
       this.db.close();
       this.db = null;
@@ -415,5 +1653,13 @@ export class DatabaseManager {
   isLoaded(): boolean {
     return this.db !== null;
   }
+
+  /**
+   * Queries run synchronously on the calling thread, so nothing can cancel them
+   * while they execute; timeouts and already-aborted signals are still honored
+   */
+  canCancel(): boolean {
+    return false;
+  }
 }
 
@@ -0,0 +1,16 @@
+import { InterruptReason } from '../types';
+
+/**
+ * Thrown when a query is stopped before completing, either by an explicit
+ * cancel or because it ran past its timeout
+ */
+export class QueryInterruptedError extends Error {
+  reason: InterruptReason;
+
+  constructor(reason: InterruptReason, message?: string) {
+    super(message || (reason === 'timeout' ? 'Query timed out' : 'Query cancelled'));
+    this.name = 'QueryInterruptedError';
+    this.reason = reason;
+  }
+}
+
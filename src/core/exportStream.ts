@@ -0,0 +1,142 @@
+import { DatabaseBackend, ExportChunk, ExportFileOptions } from '../types';
+import { getExporter, isResultFormat } from './exporters';
+import { ZipWriter } from './zip';
+
+/**
+ * MIME type of the file each export format writes; result formats name their own
+ */
+export const EXPORT_MIME_TYPES = {
+  sql: 'application/sql',
+  json: 'application/json',
+  csv: 'text/csv',
+  zip: 'application/zip',
+};
+
+// Text gathered before it is folded into a Blob, which browsers can keep off the JS heap
+const BLOB_PART_SIZE = 1 << 24;
+
+/**
+ * Whether an export is written as a zip of files in a result format, one per table
+ */
+export function isZipExport(options: ExportFileOptions): boolean {
+  return isResultFormat(options.format) && !options.table;
+}
+
+/**
+ * MIME type of the file an export writes
+ */
+function getMimeType(options: ExportFileOptions): string {
+  const { format = 'sql' } = options;
+  if (isZipExport(options)) {
+    return EXPORT_MIME_TYPES.zip;
+  }
+  return isResultFormat(format)
+    ? getExporter(format).mimeType
+    : EXPORT_MIME_TYPES[format as 'sql' | 'json'];
+}
+
+/**
+ * Pass each chunk of an export to `write`, reporting progress and pausing after
+ * each one so the page can repaint
+ */
+async function writeExport(
+  backend: DatabaseBackend,
+  options: ExportFileOptions,
+  write: (chunk: ExportChunk) => void | Promise<void>
+): Promise<void> {
+  const { onProgress, ...streamOptions } = options;
+
+  for await (const chunk of backend.streamExport(streamOptions)) {
+    await write(chunk);
+    onProgress?.(chunk.progress);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+/**
+ * Pass the bytes of a zip holding each file of an export to `write`
+ * A file's chunks are held until it ends, since its header records its size.
+ */
+async function writeZip(
+  backend: DatabaseBackend,
+  options: ExportFileOptions,
+  write: (bytes: Uint8Array) => void | Promise<void>
+): Promise<void> {
+  const zip = new ZipWriter();
+  const encoder = new TextEncoder();
+  let file: string | null = null;
+  let parts: Uint8Array[] = [];
+
+  const endFile = async () => {
+    if (file !== null) {
+      for (const bytes of zip.addFile(file, parts)) {
+        await write(bytes);
+      }
+    }
+    parts = [];
+  };
+
+  await writeExport(backend, options, async (chunk) => {
+    if (chunk.file !== file) {
+      await endFile();
+      file = chunk.file ?? null;
+    }
+    parts.push(encoder.encode(chunk.text));
+  });
+  await endFile();
+  await write(zip.finish());
+}
+
+/**
+ * Write an export to a stream chunk by chunk, then close it
+ * An export of every table in a result format is written as the bytes of a zip,
+ * other exports as text. The stream is aborted when the export fails or is cancelled.
+ */
+export async function exportToStream(
+  backend: DatabaseBackend,
+  stream: WritableStream<string | Uint8Array>,
+  options: ExportFileOptions = {}
+): Promise<void> {
+  const writer = stream.getWriter();
+  try {
+    if (isZipExport(options)) {
+      await writeZip(backend, options, (bytes) => writer.write(bytes));
+    } else {
+      await writeExport(backend, options, (chunk) => writer.write(chunk.text));
+    }
+  } catch (error) {
+    await writer.abort(error).catch(() => undefined);
+    throw error;
+  }
+  await writer.close();
+}
+
+/**
+ * Build a Blob of an export from its chunks, never joining them into one string
+ * An export of every table in a result format becomes a zip, one file per table.
+ */
+export async function exportToBlob(
+  backend: DatabaseBackend,
+  options: ExportFileOptions = {}
+): Promise<Blob> {
+  const type = getMimeType(options);
+  let parts: BlobPart[] = [];
+  let pending = 0;
+
+  const append = (part: string | Uint8Array) => {
+    parts.push(part as BlobPart);
+    pending += part.length;
+    if (pending >= BLOB_PART_SIZE) {
+      parts = [new Blob(parts, { type })];
+      pending = 0;
+    }
+  };
+
+  if (isZipExport(options)) {
+    await writeZip(backend, options, append);
+  } else {
+    await writeExport(backend, options, (chunk) => append(chunk.text));
+  }
+  return new Blob(parts, { type });
+}
+
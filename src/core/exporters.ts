@@ -0,0 +1,228 @@
+import { QueryResult, ResultExporter, ResultExportOptions, ResultExportTarget } from '../types';
+import { formatCsvRecord, getColumnNames, resolveCsvWriteOptions } from './csv';
+import { formatHex } from './format';
+import { encodeJsonValue } from './jsonExport';
+import { formatSqlLiteral, quoteIdentifier } from './sqlUtils';
+
+// Formats that export the whole database rather than rows, so no exporter may take their names
+const DATABASE_FORMATS = ['sql', 'json'];
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+};
+
+/**
+ * Rows as objects keyed by column name; repeated names get a numeric suffix
+ */
+function toObjects(rows: any[][], columns: string[]): Record<string, any>[] {
+  const keys = getColumnNames(columns, columns.length);
+  return rows.map((row) => Object.fromEntries(keys.map((key, index) => [key, row[index]])));
+}
+
+const toJson = (object: Record<string, any>) => JSON.stringify(object, encodeJsonValue);
+
+/**
+ * A value as table cell text: NULL stays null, blobs become hex digits
+ */
+const toCellText = (value: unknown): string | null =>
+  value === null || value === undefined
+    ? null
+    : value instanceof Uint8Array
+      ? formatHex(value)
+      : String(value);
+
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, (char) => HTML_ESCAPES[char]);
+
+const escapeMarkdown = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n|\r/g, '<br>');
+
+const markdownRow = (cells: string[]) => `| ${cells.join(' | ')} |\n`;
+
+const csvExporter = (
+  id: string,
+  label: string,
+  extension: string,
+  mimeType: string,
+  delimiter?: string
+): ResultExporter => {
+  const resolve = (target: ResultExportTarget) =>
+    resolveCsvWriteOptions({ ...target.options.csv, ...(delimiter && { delimiter }) });
+
+  return {
+    id,
+    label,
+    extension,
+    mimeType,
+    begin: (target) => {
+      const csv = resolve(target);
+      return (csv.bom ? '\ufeff' : '') + (csv.header ? formatCsvRecord(target.columns, csv) : '');
+    },
+    rows: (rows, target) => {
+      const csv = resolve(target);
+      return rows.map((row) => formatCsvRecord(row, csv)).join('');
+    },
+  };
+};
+
+const BUILT_IN_EXPORTERS: ResultExporter[] = [
+  csvExporter('csv', 'CSV', '.csv', 'text/csv'),
+  csvExporter('tsv', 'TSV', '.tsv', 'text/tab-separated-values', '\t'),
+  {
+    id: 'ndjson',
+    label: 'NDJSON',
+    extension: '.ndjson',
+    mimeType: 'application/x-ndjson',
+    rows: (rows, target) =>
+      toObjects(rows, target.columns)
+        .map((object) => `${toJson(object)}\n`)
+        .join(''),
+  },
+  {
+    id: 'json-array',
+    label: 'JSON (array of objects)',
+    extension: '.json',
+    mimeType: 'application/json',
+    begin: () => '[',
+    rows: (rows, target, offset) =>
+      toObjects(rows, target.columns)
+        .map((object, index) => `${offset + index ? ',' : ''}\n  ${toJson(object)}`)
+        .join(''),
+    end: (_target, count) => (count ? '\n]\n' : ']\n'),
+  },
+  {
+    id: 'markdown',
+    label: 'Markdown table',
+    extension: '.md',
+    mimeType: 'text/markdown',
+    begin: (target) =>
+      markdownRow(target.columns.map(escapeMarkdown)) +
+      markdownRow(target.columns.map(() => '---')),
+    rows: (rows) =>
+      rows
+        .map((row) =>
+          markdownRow(
+            row.map((value) => {
+              const text = toCellText(value);
+              return text === null ? '*NULL*' : escapeMarkdown(text);
+            })
+          )
+        )
+        .join(''),
+  },
+  {
+    id: 'html',
+    label: 'HTML table',
+    extension: '.html',
+    mimeType: 'text/html',
+    begin: (target) =>
+      '<table>\n  <thead>\n    <tr>' +
+      target.columns.map((column) => `<th>${escapeHtml(column)}</th>`).join('') +
+      '</tr>\n  </thead>\n  <tbody>\n',
+    rows: (rows) =>
+      rows
+        .map((row) => {
+          const cells = row.map((value) => {
+            const text = toCellText(value);
+            return text === null ? '<td class="null">NULL</td>' : `<td>${escapeHtml(text)}</td>`;
+          });
+          return `    <tr>${cells.join('')}</tr>\n`;
+        })
+        .join(''),
+    end: () => '  </tbody>\n</table>\n',
+  },
+  {
+    id: 'sql-insert',
+    label: 'SQL INSERT statements',
+    extension: '.sql',
+    mimeType: 'application/sql',
+    rows: (rows, target) => {
+      const into = `INSERT INTO ${quoteIdentifier(target.table ?? 'result')} (${target.columns.map(quoteIdentifier).join(',')})`;
+      return rows
+        .map((row) => `${into} VALUES(${row.map(formatSqlLiteral).join(',')});\n`)
+        .join('');
+    },
+  },
+];
+
+const exporters = new Map<string, ResultExporter>(
+  BUILT_IN_EXPORTERS.map((exporter) => [exporter.id, exporter])
+);
+
+/**
+ * Add a result format, usable by every export from then on
+ * A database in a worker exports with the worker's own registry, so register
+ * the format in the worker script too.
+ */
+export function registerExporter(exporter: ResultExporter): void {
+  if (DATABASE_FORMATS.includes(exporter.id) || exporters.has(exporter.id)) {
+    throw new Error(`An export format named "${exporter.id}" is already registered`);
+  }
+  exporters.set(exporter.id, exporter);
+}
+
+/**
+ * Remove a result format; returns whether it was registered
+ */
+export function unregisterExporter(id: string): boolean {
+  return exporters.delete(id);
+}
+
+/**
+ * The exporter for a result format; throws for a format that is not registered
+ */
+export function getExporter(id: string): ResultExporter {
+  const exporter = exporters.get(id);
+  if (!exporter) {
+    throw new Error(`Unknown export format "${id}"`);
+  }
+  return exporter;
+}
+
+/**
+ * Every registered result format, built-in ones first
+ */
+export function getExporters(): ResultExporter[] {
+  return Array.from(exporters.values());
+}
+
+/**
+ * Whether a format writes rows, one file per table, rather than the whole database
+ */
+export function isResultFormat(format: string | undefined): boolean {
+  return format !== undefined && !DATABASE_FORMATS.includes(format);
+}
+
+/**
+ * Write a query result in a result format
+ */
+export function exportResult(
+  result: QueryResult,
+  format: string,
+  options: ResultExportOptions = {}
+): string {
+  const exporter = getExporter(format);
+  const target = { table: options.table ?? null, columns: result.columns, options };
+  return (
+    (exporter.begin?.(target) ?? '') +
+    exporter.rows(result.values, target, 0) +
+    (exporter.end?.(target, result.values.length) ?? '')
+  );
+}
+
+/**
+ * A query result in a result format as a Blob typed for its format, ready to download
+ */
+export function exportResultToBlob(
+  result: QueryResult,
+  format: string,
+  options: ResultExportOptions = {}
+): Blob {
+  return new Blob([exportResult(result, format, options)], { type: getExporter(format).mimeType });
+}
+
@@ -0,0 +1,149 @@
+import { JsonExport, SqlValue } from '../types';
+
+/**
+ * Version of the JSON export layout written by this library
+ */
+export const JSON_EXPORT_VERSION = 1;
+
+// Bytes converted per String.fromCharCode call when encoding blobs
+const BASE64_CHUNK = 0x8000;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * JSON stand-in for a value: blobs become `{ "$blob": "<base64>" }`
+ * Usable as a JSON.stringify replacer.
+ */
+export function encodeJsonValue(_key: string, value: unknown): unknown {
+  if (!(value instanceof Uint8Array)) {
+    return value;
+  }
+
+  let binary = '';
+  for (let i = 0; i < value.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...Array.from(value.subarray(i, i + BASE64_CHUNK)));
+  }
+  return { $blob: btoa(binary) };
+}
+
+/**
+ * Bytes of a blob written as JSON.stringify writes a Uint8Array, `{ "0": 1, "1": 2 }`,
+ * as exports made before the `$blob` encoding hold them; null for any other object
+ */
+function decodeIndexedBytes(value: Record<string, unknown>): Uint8Array | null {
+  const isByte = (byte: unknown): byte is number =>
+    typeof byte === 'number' && Number.isInteger(byte) && byte >= 0 && byte <= 255;
+  // Integer keys are listed in ascending order
+  const bytes = Object.values(value);
+  if (Object.keys(value).some((key, index) => key !== String(index)) || !bytes.every(isByte)) {
+    return null;
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Value to bind for a JSON value from an export
+ * Booleans become 1 and 0, as SQLite stores them; blobs are read in both encodings,
+ * and other objects are rejected.
+ */
+export function decodeJsonValue(value: unknown): SqlValue {
+  if (value === null || typeof value === 'number' || typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (isObject(value) && typeof value.$blob === 'string' && Object.keys(value).length === 1) {
+    return Uint8Array.from(atob(value.$blob), (char) => char.charCodeAt(0));
+  }
+  const bytes = isObject(value) ? decodeIndexedBytes(value) : null;
+  if (bytes) {
+    return bytes;
+  }
+  throw new Error(`Unsupported value: ${JSON.stringify(value)}`);
+}
+
+/**
+ * Parse and check the layout of a JSON export
+ * Throws when the text is not JSON, a block has the wrong shape, or the file
+ * comes from a newer version of the format. Row values are checked on import.
+ */
+export function parseJsonExport(input: string | JsonExport): JsonExport {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid JSON export: ${problem}`);
+  };
+
+  let file: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      file = JSON.parse(input);
+    } catch (error: any) {
+      fail(error.message || String(error));
+    }
+  }
+  if (!isObject(file)) {
+    return fail('expected an object with schema and data');
+  }
+
+  const formatVersion = file.formatVersion ?? 1;
+  if (!Number.isInteger(formatVersion) || formatVersion < 1) {
+    fail('formatVersion must be a positive integer');
+  }
+  if (formatVersion > JSON_EXPORT_VERSION) {
+    throw new Error(
+      `JSON export format version ${formatVersion} is newer than the supported version ${JSON_EXPORT_VERSION}`
+    );
+  }
+
+  const { schema = null, data = {} } = file;
+  if (schema !== null) {
+    if (!isObject(schema) || !Array.isArray(schema.tables)) {
+      fail('schema.tables must be an array');
+    }
+    schema.tables.forEach((table: unknown, index: number) => {
+      if (
+        !isObject(table) ||
+        typeof table.name !== 'string' ||
+        typeof table.sql !== 'string' ||
+        !Array.isArray(table.columns)
+      ) {
+        fail(`schema.tables[${index}] needs a name, sql and columns`);
+      }
+    });
+    ['views', 'triggers'].forEach((key) => {
+      const objects = schema[key] ?? [];
+      if (
+        !Array.isArray(objects) ||
+        objects.some((object) => !isObject(object) || typeof object.sql !== 'string')
+      ) {
+        fail(`schema.${key} must be an array of objects with sql`);
+      }
+    });
+  }
+
+  if (!isObject(data)) {
+    fail('data must map table names to rows');
+  }
+  Object.entries(data).forEach(([table, rows]) => {
+    if (!Array.isArray(rows) || rows.some((row) => !Array.isArray(row))) {
+      fail(`data.${table} must be an array of rows`);
+    }
+  });
+
+  return {
+    formatVersion,
+    schema: schema && {
+      ...schema,
+      tables: schema.tables.map((table: Record<string, any>) => ({
+        ...table,
+        indexes: table.indexes ?? [],
+        foreignKeys: table.foreignKeys ?? [],
+      })),
+      views: schema.views ?? [],
+      triggers: schema.triggers ?? [],
+    },
+    data,
+  };
+}
+
@@ -0,0 +1,378 @@
+import { DatabaseBackend, PersistenceAdapter, StoredDatabaseInfo } from '../types';
+
+/**
+ * Keeps databases in memory; for tests, and as a fallback where browser storage is unavailable
+ */
+export class MemoryPersistenceAdapter implements PersistenceAdapter {
+  private files: Map<string, { data: Uint8Array; updatedAt: number }> = new Map();
+
+  async list(): Promise<StoredDatabaseInfo[]> {
+    return Array.from(this.files, ([name, file]) => ({
+      name,
+      size: file.data.byteLength,
+      updatedAt: file.updatedAt,
+    }));
+  }
+
+  async load(name: string): Promise<Uint8Array | null> {
+    // A copy, since a worker backend takes ownership of the buffer it is given
+    return this.files.get(name)?.data.slice() ?? null;
+  }
+
+  async save(name: string, data: Uint8Array): Promise<void> {
+    this.files.set(name, { data: data.slice(), updatedAt: Date.now() });
+  }
+
+  async remove(name: string): Promise<void> {
+    this.files.delete(name);
+  }
+}
+
+/**
+ * Wait for an IndexedDB request to finish
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Stores databases in IndexedDB: the bytes in one object store and their size and
+ * save time in another, so listing does not read every file
+ */
+export class IndexedDBPersistenceAdapter implements PersistenceAdapter {
+  private static readonly FILES = 'files';
+  private static readonly INFO = 'info';
+  private connection: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string = 'sqlite-visualizer') {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async list(): Promise<StoredDatabaseInfo[]> {
+    const store = await this.store(IndexedDBPersistenceAdapter.INFO, 'readonly');
+    return request<StoredDatabaseInfo[]>(store.getAll());
+  }
+
+  async load(name: string): Promise<Uint8Array | null> {
+    const store = await this.store(IndexedDBPersistenceAdapter.FILES, 'readonly');
+    const data = await request<Uint8Array | undefined>(store.get(name));
+    return data ?? null;
+  }
+
+  async save(name: string, data: Uint8Array): Promise<void> {
+    const { FILES, INFO } = IndexedDBPersistenceAdapter;
+    const transaction = (await this.open()).transaction([FILES, INFO], 'readwrite');
+    transaction.objectStore(FILES).put(data, name);
+    transaction.objectStore(INFO).put({ name, size: data.byteLength, updatedAt: Date.now() });
+    await this.complete(transaction);
+  }
+
+  async remove(name: string): Promise<void> {
+    const { FILES, INFO } = IndexedDBPersistenceAdapter;
+    const transaction = (await this.open()).transaction([FILES, INFO], 'readwrite');
+    transaction.objectStore(FILES).delete(name);
+    transaction.objectStore(INFO).delete(name);
+    await this.complete(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.connection) {
+      const req = indexedDB.open(this.databaseName, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(IndexedDBPersistenceAdapter.FILES);
+        req.result.createObjectStore(IndexedDBPersistenceAdapter.INFO, { keyPath: 'name' });
+      };
+      this.connection = request(req);
+      // Let a later call try again
+      this.connection.catch(() => {
+        this.connection = null;
+      });
+    }
+    return this.connection;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.open()).transaction(name, mode).objectStore(name);
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Stores databases as files in the Origin Private File System, in one directory
+ */
+export class OPFSPersistenceAdapter implements PersistenceAdapter {
+  constructor(private directoryName: string = 'sqlite-visualizer') {}
+
+  static isSupported(): boolean {
+    return (
+      typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function'
+    );
+  }
+
+  async list(): Promise<StoredDatabaseInfo[]> {
+    const directory = await this.directory();
+    // Directory iteration is missing from the DOM typings this project builds against
+    const handles = (
+      directory as unknown as { values(): AsyncIterable<FileSystemHandle> }
+    ).values();
+
+    const databases: StoredDatabaseInfo[] = [];
+    for await (const handle of handles) {
+      if (handle.kind === 'file') {
+        const file = await (handle as FileSystemFileHandle).getFile();
+        databases.push({
+          name: decodeURIComponent(handle.name),
+          size: file.size,
+          updatedAt: file.lastModified,
+        });
+      }
+    }
+    return databases;
+  }
+
+  async load(name: string): Promise<Uint8Array | null> {
+    try {
+      const handle = await (await this.directory()).getFileHandle(this.fileName(name));
+      return new Uint8Array(await (await handle.getFile()).arrayBuffer());
+    } catch (error: any) {
+      if (error?.name === 'NotFoundError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(name: string, data: Uint8Array): Promise<void> {
+    const directory = await this.directory();
+    const handle = await directory.getFileHandle(this.fileName(name), { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(data as BufferSource);
+    await writable.close();
+  }
+
+  async remove(name: string): Promise<void> {
+    try {
+      await (await this.directory()).removeEntry(this.fileName(name));
+    } catch (error: any) {
+      if (error?.name !== 'NotFoundError') {
+        throw error;
+      }
+    }
+  }
+
+  private async directory(): Promise<FileSystemDirectoryHandle> {
+    const root = await navigator.storage.getDirectory();
+    return root.getDirectoryHandle(this.directoryName, { create: true });
+  }
+
+  /**
+   * Database names may contain characters that are not allowed in file names
+   */
+  private fileName(name: string): string {
+    return encodeURIComponent(name);
+  }
+}
+
+/**
+ * Adapter for the best storage the browser offers: OPFS, then IndexedDB, then memory
+ */
+export function createPersistenceAdapter(): PersistenceAdapter {
+  if (OPFSPersistenceAdapter.isSupported()) {
+    return new OPFSPersistenceAdapter();
+  }
+  if (IndexedDBPersistenceAdapter.isSupported()) {
+    return new IndexedDBPersistenceAdapter();
+  }
+  return new MemoryPersistenceAdapter();
+}
+
+export interface DatabasePersistenceOptions {
+  /** Milliseconds to wait for further writes before autosaving (default: 1000) */
+  autosaveDelay?: number;
+  /** localStorage key remembering the last stored database opened or saved */
+  lastOpenedKey?: string;
+  /** Called after a database is saved or removed, so lists can be re-read */
+  onChange?: () => void;
+}
+
+/**
+ * Ties a backend's open database to a name in persistent storage and saves it
+ * there, right away or shortly after writes
+ */
+export class DatabasePersistence {
+  private name: string | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pending: (() => Promise<void>) | null = null;
+  private autosaveDelay: number;
+  private lastOpenedKey: string;
+
+  constructor(
+    private adapter: PersistenceAdapter,
+    private options: DatabasePersistenceOptions = {}
+  ) {
+    this.autosaveDelay = options.autosaveDelay ?? 1000;
+    this.lastOpenedKey = options.lastOpenedKey ?? 'sqlite-visualizer-last-database';
+  }
+
+  /**
+   * Name the open database is stored under; null until it is saved or opened from storage
+   */
+  get currentName(): string | null {
+    return this.name;
+  }
+
+  list(): Promise<StoredDatabaseInfo[]> {
+    return this.adapter.list();
+  }
+
+  /**
+   * Bytes of a stored database, as last saved
+   */
+  async read(name: string): Promise<Uint8Array> {
+    const data = await this.adapter.load(name);
+    if (!data) {
+      throw new Error(`No stored database named "${name}"`);
+    }
+    return data;
+  }
+
+  /**
+   * Load a stored database into the backend, first saving any pending changes
+   * to the one it replaces
+   */
+  async open(backend: DatabaseBackend, name: string): Promise<void> {
+    const data = await this.read(name);
+    await this.flush();
+    await backend.loadDatabase(data);
+    this.name = name;
+    this.remember(name);
+  }
+
+  /**
+   * Store the backend's database, under its current name unless another is given
+   */
+  async save(backend: DatabaseBackend, name: string | null = this.name): Promise<void> {
+    if (!name) {
+      throw new Error('Name the database to store it');
+    }
+
+    this.cancelAutosave();
+    await this.adapter.save(name, await backend.saveDatabase());
+    this.name = name;
+    this.remember(name);
+    this.options.onChange?.();
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.adapter.remove(name);
+    if (name === this.name) {
+      this.cancelAutosave();
+      this.name = null;
+    }
+    if (this.getLastOpened() === name) {
+      this.remember(null);
+    }
+    this.options.onChange?.();
+  }
+
+  /**
+   * Save after `autosaveDelay`, restarting the wait on each call; nothing happens
+   * while the database has no name. A transaction still open by then postpones
+   * the save until the next write, and a cursor or export still being read, or a
+   * TEMP object, which saving would cut short or drop, postpones it by another
+   * `autosaveDelay`
+   */
+  scheduleSave(backend: DatabaseBackend): void {
+    if (!this.name) {
+      return;
+    }
+
+    this.cancelAutosave();
+    this.pending = async () => {
+      if ((await backend.getTransactionDepth()) === 0) {
+        await this.save(backend);
+      }
+    };
+    this.timer = setTimeout(() => {
+      this.autosave(backend).catch((error) => console.warn('Failed to autosave database:', error));
+    }, this.autosaveDelay);
+  }
+
+  /**
+   * Run a scheduled save now, even while a cursor or export is being read, as
+   * before the database is replaced or closed
+   */
+  async flush(): Promise<void> {
+    const pending = this.pending;
+    this.cancelAutosave();
+    await pending?.();
+  }
+
+  /**
+   * Save pending changes, then stop saving to the current name, as when another
+   * database is loaded
+   */
+  async detach(): Promise<void> {
+    try {
+      await this.flush();
+    } finally {
+      this.name = null;
+    }
+  }
+
+  /**
+   * The last stored database opened or saved, to reopen on the next load
+   */
+  getLastOpened(): string | null {
+    try {
+      return typeof window !== 'undefined' && window.localStorage
+        ? localStorage.getItem(this.lastOpenedKey)
+        : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private remember(name: string | null): void {
+    try {
+      if (typeof window !== 'undefined' && window.localStorage) {
+        if (name === null) {
+          localStorage.removeItem(this.lastOpenedKey);
+        } else {
+          localStorage.setItem(this.lastOpenedKey, name);
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to remember the stored database:', error);
+    }
+  }
+
+  private async autosave(backend: DatabaseBackend): Promise<void> {
+    if ((await backend.hasOpenStreams()) || (await backend.hasTempObjects())) {
+      this.scheduleSave(backend);
+    } else {
+      await this.flush();
+    }
+  }
+
+  private cancelAutosave(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+  }
+}
+
@@ -1,4 +1,4 @@
-import { QueryHistoryItem, QueryResult } from '../types';
+import { QueryHistoryItem, QueryResult, BindParams, QueryStatus } from '../types';
 
 /**
  * Query history manager with optimized storage and retrieval
@@ -8,27 +8,43 @@ export class QueryHistoryManager {
   private maxHistorySize: number = 100;
   private storageKey: string = 'sqlite-visualizer-history';
 
-  constructor(maxSize: number = 100) {
+  constructor(maxSize: number = 100, storageKey?: string) {
     this.maxHistorySize = maxSize;
+    if (storageKey) {
+      this.storageKey = storageKey;
+    }
     this.loadFromStorage();
   }
 
   /**
    * Add query to history
    */
-  add(query: string, executionTime: number, result?: QueryResult, error?: string): void {
+  add(
+    query: string,
+    executionTime: number,
+    result?: QueryResult,
+    error?: string,
+    params?: BindParams,
+    status?: QueryStatus
+  ): void {
     const item: QueryHistoryItem = {
       id: this.generateId(),
       query: query.trim(),
+      params,
       timestamp: Date.now(),
       executionTime,
       result,
       error,
+      status: status ?? (error ? 'error' : 'success'),
     };
 
-    // Remove duplicates (same query executed recently)
+    // Remove duplicates (same query with same parameters executed recently)
+    const paramsKey = JSON.stringify(params ?? null);
     this.history = this.history.filter(
-      (h) => h.query !== item.query || Date.now() - h.timestamp > 60000
+      (h) =>
+        h.query !== item.query ||
+        JSON.stringify(h.params ?? null) !== paramsKey ||
+        Date.now() - h.timestamp > 60000
     );
 
     this.history.unshift(item);
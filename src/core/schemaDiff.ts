@@ -0,0 +1,402 @@
+import {
+  ColumnInfo,
+  DatabaseSchema,
+  ForeignKeyInfo,
+  IndexInfo,
+  SchemaChangeKind,
+  SchemaDiff,
+  SchemaDiffOptions,
+  SchemaObjectDiff,
+  SideBySideLine,
+  TableDiff,
+  TableInfo,
+  TriggerInfo,
+  ViewInfo,
+} from '../types';
+
+const TABLE_FIELDS: (keyof TableInfo)[] = [
+  'primaryKey',
+  'checks',
+  'strict',
+  'withoutRowid',
+  'virtualModule',
+];
+const COLUMN_FIELDS: (keyof ColumnInfo)[] = [
+  'type',
+  'notnull',
+  'dflt_value',
+  'pk',
+  'pkOrder',
+  'collation',
+  'generated',
+  'generatedExpression',
+  'checks',
+  'autoincrement',
+  'hidden',
+];
+const INDEX_FIELDS: (keyof IndexInfo)[] = ['unique', 'keyColumns', 'where'];
+const FOREIGN_KEY_FIELDS: (keyof ForeignKeyInfo)[] = ['columns', 'onUpdate', 'onDelete', 'match'];
+const TRIGGER_FIELDS: (keyof TriggerInfo)[] = ['table', 'timing', 'event'];
+// Names SQLite compares without regard to case
+const CASELESS_FIELDS = ['type', 'collation'];
+
+const key = (name: string) => name.toLowerCase();
+
+/**
+ * SQL text with runs of whitespace collapsed, and none around brackets, commas
+ * and semicolons, so layout alone does not count as a change
+ * Quoted strings and identifiers are kept as written.
+ */
+export function normalizeSql(sql: string): string {
+  const collapse = (text: string) => text.replace(/\s+/g, ' ').replace(/ ?([(),;]) ?/g, '$1');
+  let normalized = '';
+  let start = 0;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const end = sql.indexOf(char === '[' ? ']' : char, i + 1);
+      const after = end < 0 ? sql.length : end + 1;
+      normalized += collapse(sql.slice(start, i)) + sql.slice(i, after);
+      start = after;
+      i = after - 1;
+    } else if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end < 0 ? sql.length : end;
+    } else if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end < 0 ? sql.length : end + 1;
+    }
+  }
+  return (normalized + collapse(sql.slice(start))).trim();
+}
+
+/**
+ * A property value in a form that compares equal when only its layout differs
+ */
+function comparable(field: string, value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, item) => {
+    if (typeof item !== 'string') {
+      return item;
+    }
+    return CASELESS_FIELDS.includes(field) ? item.toUpperCase() : normalizeSql(item);
+  });
+}
+
+function changedFields<T>(before: T, after: T, fields: (keyof T)[]): string[] {
+  return fields
+    .filter(
+      (field) =>
+        comparable(String(field), before[field]) !== comparable(String(field), after[field])
+    )
+    .map(String);
+}
+
+/**
+ * Pair the objects of two lists by key: the newer list's order, then the removed objects
+ * An object found in only one list is paired with null.
+ */
+function pairObjects<T>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string
+): [T | null, T | null][] {
+  const remaining = new Map(before.map((item) => [keyOf(item), item]));
+  const pairs = after.map((item): [T | null, T | null] => {
+    const match = remaining.get(keyOf(item)) ?? null;
+    remaining.delete(keyOf(item));
+    return [match, item];
+  });
+  remaining.forEach((item) => pairs.push([item, null]));
+  return pairs;
+}
+
+/**
+ * Compare paired objects, keeping those added, removed, or with properties that differ
+ */
+function diffObjects<T>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+  nameOf: (item: T) => string,
+  compare: (before: T, after: T) => string[]
+): SchemaObjectDiff<T>[] {
+  return pairObjects(before, after, keyOf).flatMap(([older, newer]): SchemaObjectDiff<T>[] => {
+    if (!older || !newer) {
+      const kind = older ? 'removed' : 'added';
+      return [{ name: nameOf((older || newer)!), kind, before: older, after: newer, changes: [] }];
+    }
+    const changes = compare(older, newer);
+    return changes.length
+      ? [{ name: nameOf(newer), kind: 'changed', before: older, after: newer, changes }]
+      : [];
+  });
+}
+
+const byName = <T extends { name: string }>(list: T[]) =>
+  list.sort((a, b) => key(a.name).localeCompare(key(b.name)));
+
+/**
+ * Columns compared by name; a column whose place among the columns both tables
+ * share has moved is changed in 'position'
+ */
+function diffColumns(before: ColumnInfo[], after: ColumnInfo[]): SchemaObjectDiff<ColumnInfo>[] {
+  const sharedOrder = (list: ColumnInfo[], other: ColumnInfo[]) => {
+    const names = new Set(other.map((column) => key(column.name)));
+    return list.map((column) => key(column.name)).filter((name) => names.has(name));
+  };
+  const beforeOrder = sharedOrder(before, after);
+  const afterOrder = sharedOrder(after, before);
+
+  return diffObjects(
+    before,
+    after,
+    (column) => key(column.name),
+    (column) => column.name,
+    (older, newer) => {
+      const changes = changedFields(older, newer, COLUMN_FIELDS);
+      if (beforeOrder.indexOf(key(older.name)) !== afterOrder.indexOf(key(newer.name))) {
+        changes.push('position');
+      }
+      return changes;
+    }
+  );
+}
+
+/**
+ * Indexes compared by name; those SQLite creates for constraints are named by
+ * their position, so they are matched by their key instead
+ */
+function diffIndexes(before: IndexInfo[], after: IndexInfo[]): SchemaObjectDiff<IndexInfo>[] {
+  return diffObjects(
+    before,
+    after,
+    (index) =>
+      index.origin === 'c' ? key(index.name) : `${index.origin}:${key(index.columns.join(','))}`,
+    (index) => index.name,
+    (older, newer) => changedFields(older, newer, INDEX_FIELDS)
+  );
+}
+
+/**
+ * Foreign keys have no names; they are matched by their columns and parent table
+ */
+function diffForeignKeys(
+  before: ForeignKeyInfo[],
+  after: ForeignKeyInfo[]
+): SchemaObjectDiff<ForeignKeyInfo>[] {
+  const from = (fk: ForeignKeyInfo) => fk.columns.map((column) => column.from).join(', ');
+
+  return diffObjects(
+    before,
+    after,
+    (fk) => key(`${from(fk)} → ${fk.to}`),
+    (fk) => `(${from(fk)}) → ${fk.to}`,
+    (older, newer) => changedFields(older, newer, FOREIGN_KEY_FIELDS)
+  );
+}
+
+function diffTables(before: TableInfo[], after: TableInfo[]): TableDiff[] {
+  return pairObjects(before, after, (table) => key(table.name)).flatMap(
+    ([older, newer]): TableDiff[] => {
+      const none = { columns: [], indexes: [], foreignKeys: [], changes: [] };
+      if (!older || !newer) {
+        const kind = older ? 'removed' : 'added';
+        return [{ name: (older || newer)!.name, kind, before: older, after: newer, ...none }];
+      }
+
+      const columns = diffColumns(older.columns, newer.columns);
+      const indexes = diffIndexes(older.indexes, newer.indexes);
+      const foreignKeys = diffForeignKeys(older.foreignKeys, newer.foreignKeys);
+      const changes = changedFields(older, newer, TABLE_FIELDS);
+      const childChanges = columns.length + indexes.length + foreignKeys.length;
+      // Anything else the statement changed, such as a conflict clause; the fields
+      // above cover literals, so keywords and names are compared regardless of case
+      const sql = (table: TableInfo) => normalizeSql(table.sql).toUpperCase();
+      if (!changes.length && !childChanges && sql(older) !== sql(newer)) {
+        changes.push('sql');
+      }
+      if (!changes.length && !childChanges) {
+        return [];
+      }
+      return [
+        {
+          name: newer.name,
+          kind: 'changed',
+          before: older,
+          after: newer,
+          changes,
+          columns,
+          indexes,
+          foreignKeys,
+        },
+      ];
+    }
+  );
+}
+
+/**
+ * Compare two schemas: tables with their columns, indexes and foreign keys,
+ * views and triggers, matched by name regardless of case
+ * Differences in layout alone, like whitespace in SQL or the case of a type
+ * name, are not changes.
+ */
+export function diffSchemas(
+  before: DatabaseSchema,
+  after: DatabaseSchema,
+  options: SchemaDiffOptions = {}
+): SchemaDiff {
+  const { beforeSchema = 'main', afterSchema = 'main' } = options;
+  const inBefore = (object: { schema: string }) => object.schema === beforeSchema;
+  const inAfter = (object: { schema: string }) => object.schema === afterSchema;
+  const sqlChange = (older: { sql: string }, newer: { sql: string }) =>
+    normalizeSql(older.sql) !== normalizeSql(newer.sql) ? ['sql'] : [];
+
+  return {
+    tables: byName(diffTables(before.tables.filter(inBefore), after.tables.filter(inAfter))),
+    views: byName(
+      diffObjects(
+        before.views.filter(inBefore),
+        after.views.filter(inAfter),
+        (view) => key(view.name),
+        (view) => view.name,
+        (older, newer) => {
+          const changes = sqlChange(older, newer);
+          const names = (view: ViewInfo) =>
+            comparable(
+              'columns',
+              view.columns.map((c) => c.name)
+            );
+          return names(older) !== names(newer) ? [...changes, 'columns'] : changes;
+        }
+      )
+    ),
+    triggers: byName(
+      diffObjects(
+        before.triggers.filter(inBefore),
+        after.triggers.filter(inAfter),
+        (trigger) => key(trigger.name),
+        (trigger) => trigger.name,
+        (older, newer) => [
+          ...changedFields(older, newer, TRIGGER_FIELDS),
+          ...sqlChange(older, newer),
+        ]
+      )
+    ),
+  };
+}
+
+/**
+ * Number of tables, views and triggers added, removed and changed
+ */
+export function countSchemaChanges(diff: SchemaDiff): Record<SchemaChangeKind, number> {
+  const counts = { added: 0, removed: 0, changed: 0 };
+  [...diff.tables, ...diff.views, ...diff.triggers].forEach((entry) => counts[entry.kind]++);
+  return counts;
+}
+
+/**
+ * A CREATE TABLE statement with each column and constraint on a line of its own
+ * Commas inside quotes, comments and nested brackets are left alone.
+ */
+export function formatCreateTable(sql: string): string {
+  let depth = 0;
+  let open = -1;
+  let close = -1;
+  const commas: number[] = [];
+
+  for (let i = 0; i < sql.length && close < 0; i++) {
+    const char = sql[i];
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const end = sql.indexOf(char === '[' ? ']' : char, i + 1);
+      i = end < 0 ? sql.length : end;
+    } else if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end < 0 ? sql.length : end;
+    } else if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end < 0 ? sql.length : end + 1;
+    } else if (char === '(') {
+      open = open < 0 ? i : open;
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      close = depth === 0 ? i : -1;
+    } else if (char === ',' && depth === 1) {
+      commas.push(i);
+    }
+  }
+  if (close < 0) {
+    return sql;
+  }
+
+  const parts: string[] = [];
+  let start = open + 1;
+  [...commas, close].forEach((end) => {
+    parts.push(`  ${sql.slice(start, end).trim()}`);
+    start = end + 1;
+  });
+  return `${sql.slice(0, open).trimEnd()} (\n${parts.join(',\n')}\n)${sql.slice(close + 1)}`;
+}
+
+/**
+ * The statements creating an object: a table's laid out a column per line,
+ * followed by those of the indexes created for it
+ */
+export function getObjectDdl(object: TableInfo | ViewInfo | TriggerInfo): string {
+  if (!('indexes' in object)) {
+    return `${object.sql};`;
+  }
+
+  const indexes = object.indexes.flatMap((index) => (index.sql ? [`${index.sql};`] : []));
+  return [`${formatCreateTable(object.sql)};`, ...indexes].join('\n');
+}
+
+/**
+ * Two texts side by side, line by line: lines both hold are paired, and runs of
+ * lines that differ are paired in order as changed, the rest added or removed
+ */
+export function diffLines(before: string, after: string): SideBySideLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  // lengths[i][j]: longest run of lines a[i..] and b[j..] have in common
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: SideBySideLine[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const pairRuns = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const older = removed[k] ?? null;
+      const newer = added[k] ?? null;
+      const kind = older === null ? 'added' : newer === null ? 'removed' : 'changed';
+      lines.push({ before: older, after: newer, kind });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      pairRuns();
+      lines.push({ before: a[i++], after: b[j++], kind: 'same' });
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  pairRuns();
+  return lines;
+}
+
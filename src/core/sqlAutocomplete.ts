@@ -1,4 +1,5 @@
-import { TableInfo, DatabaseSchema } from '../types';
+import { TableInfo, ViewInfo, DatabaseSchema } from '../types';
+import { qualifiedName } from './sqlUtils';
 
 /**
  * SQL autocomplete engine with intelligent suggestions
@@ -34,6 +35,8 @@ export class SQLAutocomplete {
     'INSERT',
     'INTO',
     'VALUES',
+    'VIEW',
+    'TRIGGER',
     'UPDATE',
     'SET',
     'DELETE',
@@ -86,6 +89,23 @@ export class SQLAutocomplete {
     const wordMatch = beforeCursor.match(/(\w+)$/);
     const currentWord = wordMatch ? wordMatch[1].toUpperCase() : '';
 
+    // After `schema.`, only that database's tables and views fit
+    const qualifierMatch = beforeCursor.match(/(\w+)\.(\w*)$/);
+    if (qualifierMatch && this.isSchemaName(qualifierMatch[1])) {
+      const schemaName = qualifierMatch[1].toLowerCase();
+      const prefix = qualifierMatch[2].toLowerCase();
+      const inSchema = (source: TableInfo | ViewInfo) =>
+        source.schema.toLowerCase() === schemaName && source.name.toLowerCase().startsWith(prefix);
+
+      this.schema!.tables.filter(inSchema).forEach((table) => {
+        suggestions.push({ label: table.name, type: 'table' });
+      });
+      this.schema!.views.filter(inSchema).forEach((view) => {
+        suggestions.push({ label: view.name, type: 'view' });
+      });
+      return suggestions;
+    }
+
     // Get context from query
     const context = this.getContext(beforeCursor);
 
@@ -99,15 +119,39 @@ export class SQLAutocomplete {
       });
     }
 
-    // Suggest table names
+    // Suggest table and view names; those of attached databases come qualified
     if (this.shouldSuggestTables(context)) {
-      const tableNames = this.schema?.tables.map((t) => t.name) || [];
+      const tableNames = this.schema?.tables.map((t) => qualifiedName(t)) || [];
       const matchingTables = tableNames.filter((t) =>
         t.toLowerCase().startsWith(currentWord.toLowerCase())
       );
       matchingTables.forEach((table) => {
         suggestions.push({ label: table, type: 'table' });
       });
+
+      const viewNames = this.schema?.views.map((v) => qualifiedName(v)) || [];
+      viewNames
+        .filter((v) => v.toLowerCase().startsWith(currentWord.toLowerCase()))
+        .forEach((view) => {
+          suggestions.push({ label: view, type: 'view' });
+        });
+
+      (this.schema?.databases || [])
+        .filter((name) => name !== 'main')
+        .filter((name) => name.toLowerCase().startsWith(currentWord.toLowerCase()))
+        .forEach((name) => {
+          suggestions.push({ label: name, type: 'schema' });
+        });
+    }
+
+    // Suggest trigger names where a trigger is expected
+    if (/DROP\s+TRIGGER\s+(IF\s+EXISTS\s+)?\w*$/i.test(beforeCursor)) {
+      const triggerNames = this.schema?.triggers.map((t) => t.name) || [];
+      triggerNames
+        .filter((t) => t.toLowerCase().startsWith(currentWord.toLowerCase()))
+        .forEach((trigger) => {
+          suggestions.push({ label: trigger, type: 'trigger' });
+        });
     }
 
     // Suggest column names
@@ -121,13 +165,31 @@ export class SQLAutocomplete {
       });
     }
 
-    // Sort suggestions: keywords first, then tables, then columns
+    // Sort suggestions: keywords first, then tables, views and triggers, then columns
     return suggestions.sort((a, b) => {
-      const order = { keyword: 0, table: 1, column: 2 };
+      const order = { keyword: 0, table: 1, view: 1, trigger: 1, schema: 1, column: 2 };
       return (order[a.type as keyof typeof order] || 3) - (order[b.type as keyof typeof order] || 3);
     });
   }
 
+  /**
+   * Tables and views in schema order, which is the order SQLite resolves unqualified names in
+   */
+  private getSources(): Array<TableInfo | ViewInfo> {
+    if (!this.schema) {
+      return [];
+    }
+
+    const databases = this.schema.databases || [];
+    return [...this.schema.tables, ...this.schema.views].sort(
+      (a, b) => databases.indexOf(a.schema) - databases.indexOf(b.schema)
+    );
+  }
+
+  private isSchemaName(name: string): boolean {
+    return (this.schema?.databases || []).some((db) => db.toLowerCase() === name.toLowerCase());
+  }
+
   /**
    * Determine query context
    */
@@ -184,8 +246,8 @@ export class SQLAutocomplete {
     }
 
     const upperQuery = query.toUpperCase();
-    const fromMatch = upperQuery.match(/FROM\s+(\w+)/);
-    const joinMatch = upperQuery.match(/JOIN\s+(\w+)/);
+    const fromMatch = upperQuery.match(/FROM\s+(\w+(?:\.\w+)?)/);
+    const joinMatch = upperQuery.match(/JOIN\s+(\w+(?:\.\w+)?)/);
 
     const tables: string[] = [];
     if (fromMatch) {
@@ -195,18 +257,24 @@ export class SQLAutocomplete {
       tables.push(joinMatch[1]);
     }
 
+    // Views select like tables
+    const sources = this.getSources();
+
     const columns: string[] = [];
     tables.forEach((tableName) => {
-      const table = this.schema!.tables.find((t) => t.name.toLowerCase() === tableName.toLowerCase());
+      const name = tableName.toLowerCase();
+      const table = sources.find(
+        (t) => t.name.toLowerCase() === name || `${t.schema}.${t.name}`.toLowerCase() === name
+      );
       if (table) {
         columns.push(...table.columns.map((col) => col.name));
       }
     });
 
-    // If no specific table, return all columns from all tables
+    // If no specific table, return all columns from all tables and views
     if (columns.length === 0) {
-      this.schema.tables.forEach((table) => {
-        columns.push(...table.columns.map((col) => `${table.name}.${col.name}`));
+      sources.forEach((table) => {
+        columns.push(...table.columns.map((col) => `${qualifiedName(table)}.${col.name}`));
       });
     }
 
@@ -0,0 +1,86 @@
+import { DatabaseBackend, SqlDumpOptions, SqlDumpResult } from '../types';
+import { splitStatements } from './sqlParser';
+import { QueryInterruptedError } from './errors';
+
+/**
+ * Default number of statements run between progress reports
+ */
+export const DEFAULT_DUMP_BATCH_SIZE = 200;
+
+/**
+ * Roll back every open transaction level, ignoring a backend that already lost them
+ */
+async function rollbackAll(backend: DatabaseBackend): Promise<void> {
+  try {
+    while (await backend.getTransactionDepth()) {
+      await backend.rollback();
+    }
+  } catch {
+    // A restarted worker has nothing left to roll back
+  }
+}
+
+/**
+ * Run a SQL dump through a backend, batch by batch
+ * Each batch is one executeScript call, followed by a progress report and a
+ * pause that lets the page repaint. Errors are reported with the dump line their
+ * statement starts on. When loading stops at an error or is cancelled, a
+ * transaction the dump opened (sqlite3's .dump wraps everything in one) is
+ * rolled back rather than left open.
+ */
+export async function runSqlDump(
+  backend: DatabaseBackend,
+  script: string,
+  options: SqlDumpOptions = {}
+): Promise<SqlDumpResult> {
+  const { stopOnError = true, batchSize = DEFAULT_DUMP_BATCH_SIZE, onProgress, signal } = options;
+  const statements = splitStatements(script);
+  const total = statements.length;
+  const result: SqlDumpResult = { executed: 0, total, errors: [], stopped: false };
+
+  onProgress?.({ executed: 0, total });
+  try {
+    for (let start = 0; start < total && !result.stopped; start += batchSize) {
+      if (signal?.aborted) {
+        throw new QueryInterruptedError('cancelled');
+      }
+
+      // Cut from one statement start to another, the slice splits the same way again
+      const end = Math.min(start + batchSize, total);
+      const batch = script.slice(
+        statements[start].offset,
+        end < total ? statements[end].offset : script.length
+      );
+      const results = await backend.executeScript(batch, { stopOnError, signal });
+
+      for (const { statementIndex, error, interrupted } of results) {
+        if (interrupted) {
+          throw new QueryInterruptedError(interrupted);
+        }
+        const statement = statements[start + statementIndex];
+        if (error) {
+          result.errors.push({
+            line: statement.line,
+            sql: statement.sql,
+            message: error.replace(/^Statement \d+: /, ''),
+          });
+          result.stopped = stopOnError;
+        } else {
+          result.executed++;
+        }
+      }
+
+      onProgress?.({ executed: start + results.length, total });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } catch (error) {
+    await rollbackAll(backend);
+    throw error;
+  }
+
+  if (result.stopped) {
+    await rollbackAll(backend);
+  }
+  return result;
+}
+
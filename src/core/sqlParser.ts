@@ -0,0 +1,522 @@
+import { TriggerTiming, TriggerEvent, ViewInfo } from '../types';
+import { unquoteIdentifier } from './sqlUtils';
+
+/**
+ * A single statement extracted from a SQL script
+ */
+export interface ParsedStatement {
+  sql: string;
+  /** Character offset of the statement start within the script */
+  offset: number;
+  /** 1-based line number of the statement start within the script */
+  line: number;
+}
+
+/**
+ * Lexical token of a SQL text; comments and whitespace are not emitted
+ */
+export interface SqlToken {
+  type: 'word' | 'string' | 'identifier' | 'number' | 'symbol';
+  value: string;
+  offset: number;
+}
+
+/**
+ * Broad category of a statement, used to decide how its outcome is reported
+ */
+export type StatementKind =
+  | 'query'
+  | 'dml'
+  | 'ddl'
+  | 'transaction'
+  | 'pragma'
+  | 'explain'
+  | 'other';
+
+export interface StatementClassification {
+  /** Leading verb of the statement (for WITH, the verb of the main statement) */
+  keyword: string;
+  kind: StatementKind;
+}
+
+const STATEMENT_KINDS: Record<string, StatementKind> = {
+  SELECT: 'query',
+  VALUES: 'query',
+  INSERT: 'dml',
+  REPLACE: 'dml',
+  UPDATE: 'dml',
+  DELETE: 'dml',
+  CREATE: 'ddl',
+  DROP: 'ddl',
+  ALTER: 'ddl',
+  BEGIN: 'transaction',
+  COMMIT: 'transaction',
+  END: 'transaction',
+  ROLLBACK: 'transaction',
+  SAVEPOINT: 'transaction',
+  RELEASE: 'transaction',
+  PRAGMA: 'pragma',
+  EXPLAIN: 'explain',
+};
+
+/**
+ * Find the end of a quoted string, identifier or comment starting at `index`
+ * Returns `index` when no such construct starts there
+ */
+function skipQuotedOrComment(sql: string, index: number): number {
+  const char = sql[index];
+  const next = sql[index + 1];
+
+  if (char === "'" || char === '"' || char === '`') {
+    let i = index + 1;
+    while (i < sql.length) {
+      if (sql[i] === char) {
+        // Doubled quote is an escaped quote
+        if (sql[i + 1] === char) {
+          i += 2;
+          continue;
+        }
+        return i + 1;
+      }
+      i++;
+    }
+    return sql.length;
+  }
+
+  if (char === '[') {
+    const end = sql.indexOf(']', index + 1);
+    return end === -1 ? sql.length : end + 1;
+  }
+
+  if (char === '-' && next === '-') {
+    const end = sql.indexOf('\n', index + 2);
+    return end === -1 ? sql.length : end + 1;
+  }
+
+  if (char === '/' && next === '*') {
+    const end = sql.indexOf('*/', index + 2);
+    return end === -1 ? sql.length : end + 2;
+  }
+
+  return index;
+}
+
+/**
+ * Tokenize SQL text, skipping whitespace and comments
+ */
+export function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const skipped = skipQuotedOrComment(sql, i);
+    if (skipped !== i) {
+      if (char === "'") {
+        tokens.push({ type: 'string', value: sql.substring(i, skipped), offset: i });
+      } else if (char === '"' || char === '`' || char === '[') {
+        tokens.push({ type: 'identifier', value: sql.substring(i, skipped), offset: i });
+      }
+      i = skipped;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      let end = i + 1;
+      while (end < sql.length && /[A-Za-z0-9_$]/.test(sql[end])) {
+        end++;
+      }
+      tokens.push({ type: 'word', value: sql.substring(i, end), offset: i });
+      i = end;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      let end = i + 1;
+      while (end < sql.length && /[0-9A-Za-z_.]/.test(sql[end])) {
+        end++;
+      }
+      tokens.push({ type: 'number', value: sql.substring(i, end), offset: i });
+      i = end;
+      continue;
+    }
+
+    tokens.push({ type: 'symbol', value: char, offset: i });
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Split a SQL script into individual statements
+ * Semicolons inside strings, quoted identifiers, comments and trigger bodies
+ * (CREATE TRIGGER ... BEGIN ... END) do not terminate a statement
+ */
+export function splitStatements(script: string): ParsedStatement[] {
+  const statements: ParsedStatement[] = [];
+  let start = 0;
+  // Words of the current statement, used to detect trigger bodies
+  let words: string[] = [];
+  let blockDepth = 0;
+  // Lines are counted on from the previous statement, so long dumps stay linear
+  let line = 1;
+  let counted = 0;
+
+  const pushStatement = (end: number) => {
+    const raw = script.substring(start, end);
+    const sql = raw.trim();
+    if (sql && stripLeadingComments(sql)) {
+      const offset = start + raw.indexOf(sql);
+      for (; counted < offset; counted++) {
+        if (script.charCodeAt(counted) === 10) {
+          line++;
+        }
+      }
+      statements.push({ sql, offset, line });
+    }
+  };
+
+  tokenize(script).forEach((token) => {
+    if (token.type === 'word') {
+      const word = token.value.toUpperCase();
+      words.push(word);
+
+      if (isTriggerStatement(words)) {
+        if (word === 'BEGIN' || (word === 'CASE' && blockDepth > 0)) {
+          blockDepth++;
+        } else if (word === 'END' && blockDepth > 0) {
+          blockDepth--;
+        }
+      }
+      return;
+    }
+
+    if (token.type === 'symbol' && token.value === ';' && blockDepth === 0) {
+      pushStatement(token.offset);
+      start = token.offset + 1;
+      words = [];
+    }
+  });
+
+  pushStatement(script.length);
+  return statements;
+}
+
+/**
+ * Check whether the leading words form CREATE [TEMP|TEMPORARY] TRIGGER
+ */
+function isTriggerStatement(words: string[]): boolean {
+  if (words[0] !== 'CREATE') {
+    return false;
+  }
+  const second = words[1];
+  if (second === 'TRIGGER') {
+    return true;
+  }
+  return (second === 'TEMP' || second === 'TEMPORARY') && words[2] === 'TRIGGER';
+}
+
+/**
+ * Classify a single statement by its leading verb
+ * Comments are skipped, and a WITH clause is looked through to the main statement
+ */
+export function classifyStatement(sql: string): StatementClassification {
+  const tokens = tokenize(sql);
+  if (!tokens.length || tokens[0].type !== 'word') {
+    return { keyword: '', kind: 'other' };
+  }
+
+  let keyword = tokens[0].value.toUpperCase();
+
+  if (keyword === 'WITH') {
+    // The main statement is the first verb outside the CTE parentheses
+    let depth = 0;
+    keyword = '';
+    for (const token of tokens.slice(1)) {
+      if (token.type === 'symbol') {
+        if (token.value === '(') depth++;
+        if (token.value === ')') depth--;
+        continue;
+      }
+      const word = token.value.toUpperCase();
+      if (depth === 0 && token.type === 'word' && STATEMENT_KINDS[word]) {
+        keyword = word;
+        break;
+      }
+    }
+  }
+
+  return { keyword, kind: STATEMENT_KINDS[keyword] || 'other' };
+}
+
+/**
+ * Classify each statement of a script, in order
+ */
+export function classifyStatements(script: string): StatementKind[] {
+  return splitStatements(script).map(({ sql }) => classifyStatement(sql).kind);
+}
+
+/**
+ * Whether statements of a kind can change the database; only queries and EXPLAIN cannot
+ */
+export function isWriteKind(kind: StatementKind): boolean {
+  return kind !== 'query' && kind !== 'explain';
+}
+
+/**
+ * Remove leading whitespace and comments from a statement
+ */
+export function stripLeadingComments(sql: string): string {
+  let i = 0;
+  while (i < sql.length) {
+    if (/\s/.test(sql[i])) {
+      i++;
+      continue;
+    }
+    if ((sql[i] === '-' && sql[i + 1] === '-') || (sql[i] === '/' && sql[i + 1] === '*')) {
+      i = skipQuotedOrComment(sql, i);
+      continue;
+    }
+    break;
+  }
+  return sql.substring(i);
+}
+
+/**
+ * Module named by CREATE VIRTUAL TABLE ... USING module(...), lower-cased
+ * Returns undefined for any other statement
+ */
+export function getVirtualTableModule(sql: string): string | undefined {
+  const words = tokenize(sql);
+  if (words[1]?.value.toUpperCase() !== 'VIRTUAL') {
+    return undefined;
+  }
+
+  const using = words.findIndex((t) => t.type === 'word' && t.value.toUpperCase() === 'USING');
+  const module = using >= 0 ? words[using + 1] : undefined;
+  return module ? unquoteIdentifier(module.value).toLowerCase() : undefined;
+}
+
+/**
+ * Key terms and partial-index WHERE clause of a CREATE INDEX statement
+ * Each term is the column or expression text without its COLLATE and ASC/DESC suffix.
+ */
+export function parseIndexDefinition(sql: string): { terms: string[]; where?: string } {
+  const tokens = tokenize(sql);
+  const on = tokens.findIndex((t) => t.type === 'word' && t.value.toUpperCase() === 'ON');
+  const open = tokens.findIndex((t, i) => i > on && t.type === 'symbol' && t.value === '(');
+  const terms: string[] = [];
+  if (on < 0 || open < 0) {
+    return { terms };
+  }
+
+  let depth = 0;
+  let start = tokens[open].offset + 1;
+  let end: number | null = null;
+  let close = open;
+
+  for (; close < tokens.length; close++) {
+    const token = tokens[close];
+    if (token.type === 'symbol' && token.value === '(') depth++;
+    if (token.type === 'symbol' && token.value === ')') depth--;
+
+    if (depth === 0 || (depth === 1 && token.type === 'symbol' && token.value === ',')) {
+      terms.push(sql.substring(start, end ?? token.offset).trim());
+      if (depth === 0) break;
+      start = token.offset + 1;
+      end = null;
+    } else if (depth === 1 && end === null && token.type === 'word') {
+      // The suffixes only count outside nested parentheses
+      if (/^(COLLATE|ASC|DESC)$/i.test(token.value)) end = token.offset;
+    }
+  }
+
+  const whereToken = tokens[close + 1];
+  if (whereToken?.type === 'word' && whereToken.value.toUpperCase() === 'WHERE') {
+    const where = sql.substring(whereToken.offset + whereToken.value.length);
+    return { terms, where: where.trim().replace(/;$/, '').trim() };
+  }
+  return { terms };
+}
+
+/**
+ * Column details a CREATE TABLE statement declares beyond PRAGMA table_xinfo
+ */
+export interface ColumnDefinition {
+  collation?: string;
+  checks: string[];
+  autoincrement: boolean;
+  /** Expression of a generated column */
+  generated?: string;
+}
+
+/**
+ * What a CREATE TABLE statement declares beyond PRAGMA table_xinfo
+ */
+export interface TableDefinition {
+  /** Keyed by lower-cased column name */
+  columns: Map<string, ColumnDefinition>;
+  /** Table-level CHECK constraints */
+  checks: string[];
+  strict: boolean;
+  withoutRowid: boolean;
+}
+
+const TABLE_CONSTRAINTS = ['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'CHECK', 'FOREIGN'];
+
+function isSymbol(token: SqlToken | undefined, value: string): boolean {
+  return token?.type === 'symbol' && token.value === value;
+}
+
+/**
+ * Text between the parenthesis at tokens[open] and its match, and the index of the match
+ */
+function readGroup(sql: string, tokens: SqlToken[], open: number): { text: string; end: number } {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (isSymbol(tokens[i], '(')) depth++;
+    if (isSymbol(tokens[i], ')') && --depth === 0) {
+      return { text: sql.substring(tokens[open].offset + 1, tokens[i].offset).trim(), end: i };
+    }
+  }
+  return { text: sql.substring(tokens[open].offset + 1).trim(), end: tokens.length };
+}
+
+/**
+ * Collations, CHECK constraints, AUTOINCREMENT, generated expressions and table
+ * options (STRICT, WITHOUT ROWID) of a CREATE TABLE statement
+ */
+export function parseTableDefinition(sql: string): TableDefinition {
+  const definition: TableDefinition = {
+    columns: new Map(),
+    checks: [],
+    strict: false,
+    withoutRowid: false,
+  };
+
+  const tokens = tokenize(sql);
+  const open = tokens.findIndex((t) => isSymbol(t, '('));
+  const as = tokens.findIndex((t) => t.type === 'word' && t.value.toUpperCase() === 'AS');
+  // CREATE TABLE ... AS SELECT declares nothing beyond its column names
+  if (open < 0 || (as >= 0 && as < open)) {
+    return definition;
+  }
+
+  // Split the body into column definitions and table constraints
+  const { end: close } = readGroup(sql, tokens, open);
+  const items: SqlToken[][] = [[]];
+  let depth = 0;
+  tokens.slice(open + 1, close).forEach((token) => {
+    if (isSymbol(token, '(')) depth++;
+    if (isSymbol(token, ')')) depth--;
+    if (depth === 0 && isSymbol(token, ',')) {
+      items.push([]);
+    } else {
+      items[items.length - 1].push(token);
+    }
+  });
+
+  items.forEach((item) => {
+    if (item.length === 0) return;
+
+    const first = item[0].type === 'word' ? item[0].value.toUpperCase() : '';
+    if (TABLE_CONSTRAINTS.includes(first)) {
+      const check = item.findIndex((t) => t.type === 'word' && t.value.toUpperCase() === 'CHECK');
+      if (check >= 0 && isSymbol(item[check + 1], '(')) {
+        definition.checks.push(readGroup(sql, item, check + 1).text);
+      }
+      return;
+    }
+
+    const column: ColumnDefinition = { checks: [], autoincrement: false };
+    for (let i = 1; i < item.length; i++) {
+      const token = item[i];
+      const word = token.type === 'word' ? token.value.toUpperCase() : '';
+
+      if (word === 'COLLATE' && item[i + 1]) {
+        column.collation = unquoteIdentifier(item[++i].value);
+      } else if (word === 'AUTOINCREMENT') {
+        column.autoincrement = true;
+      } else if ((word === 'CHECK' || word === 'AS') && isSymbol(item[i + 1], '(')) {
+        const group = readGroup(sql, item, i + 1);
+        if (word === 'CHECK') {
+          column.checks.push(group.text);
+        } else {
+          column.generated = group.text;
+        }
+        i = group.end;
+      } else if (isSymbol(token, '(')) {
+        // Type arguments, DEFAULT (...) and REFERENCES t (...) hold nothing we read
+        i = readGroup(sql, item, i).end;
+      }
+    }
+    definition.columns.set(unquoteIdentifier(item[0].value).toLowerCase(), column);
+  });
+
+  // Table options follow the closing parenthesis
+  tokens.slice(close + 1).forEach((token) => {
+    const word = token.type === 'word' ? token.value.toUpperCase() : '';
+    if (word === 'STRICT') definition.strict = true;
+    if (word === 'WITHOUT') definition.withoutRowid = true;
+  });
+
+  return definition;
+}
+
+/**
+ * When a CREATE TRIGGER statement fires: its timing (BEFORE when omitted) and event
+ */
+export function describeTrigger(sql: string): { timing: TriggerTiming; event: TriggerEvent } {
+  let timing: TriggerTiming = 'BEFORE';
+  let event: TriggerEvent = 'INSERT';
+
+  // Keywords between TRIGGER and ON; a bare trigger name can never be one of them
+  for (const token of tokenize(sql)) {
+    if (token.type !== 'word') continue;
+    const word = token.value.toUpperCase();
+    if (word === 'ON') break;
+    if (word === 'BEFORE' || word === 'AFTER') timing = word;
+    if (word === 'INSTEAD') timing = 'INSTEAD OF';
+    if (word === 'INSERT' || word === 'UPDATE' || word === 'DELETE') event = word;
+  }
+
+  return { timing, event };
+}
+
+/**
+ * Views ordered so that each follows the views its SQL names
+ * Any word or quoted name matching another view counts, so the order may be
+ * stricter than needed; unrelated views keep their given order.
+ */
+export function orderByViewReferences<T extends Pick<ViewInfo, 'name' | 'sql'>>(views: T[]): T[] {
+  const byName = new Map(views.map((view) => [view.name.toLowerCase(), view]));
+  const visited = new Set<T>();
+  const ordered: T[] = [];
+
+  const visit = (view: T) => {
+    if (visited.has(view)) {
+      return;
+    }
+    visited.add(view);
+    tokenize(view.sql).forEach((token) => {
+      if (token.type === 'word' || token.type === 'identifier') {
+        const referenced = byName.get(unquoteIdentifier(token.value).toLowerCase());
+        if (referenced) {
+          visit(referenced);
+        }
+      }
+    });
+    ordered.push(view);
+  };
+
+  views.forEach(visit);
+  return ordered;
+}
+
@@ -0,0 +1,232 @@
+import { BindParams, ColumnInfo, IndexInfo, ForeignKeyInfo, TableInfo } from '../types';
+import { formatHex } from './format';
+
+/**
+ * Quote an identifier (table, column, index name) for safe use in SQL
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a schema-qualified table or view name
+ */
+export function quoteQualified(schema: string, name: string): string {
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`;
+}
+
+/**
+ * Display name of a table or view: bare in the main database, schema.name in an attached one
+ */
+export function qualifiedName(source: { schema: string; name: string }): string {
+  return !source.schema || source.schema === 'main'
+    ? source.name
+    : `${source.schema}.${source.name}`;
+}
+
+/**
+ * Schema name for an attached file: its base name reduced to identifier characters,
+ * with a number appended when that name is taken
+ */
+export function getAttachName(fileName: string, taken: string[]): string {
+  const base =
+    fileName
+      .replace(/\.[^.]*$/, '')
+      .replace(/[^A-Za-z0-9_]+/g, '_')
+      .replace(/^(?=\d)/, '_') || 'db';
+  const used = new Set(['main', 'temp', ...taken].map((name) => name.toLowerCase()));
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    name = `${base}_${n}`;
+  }
+  return name;
+}
+
+/**
+ * Strip the quotes from a quoted identifier ("x", `x`, [x] or 'x'), undoubling
+ * embedded quotes; bare names are returned unchanged
+ */
+export function unquoteIdentifier(name: string): string {
+  const first = name[0];
+  if (first === '[' && name.endsWith(']')) {
+    return name.slice(1, -1);
+  }
+
+  const isQuoted = (first === '"' || first === '`' || first === "'") && name.length > 1;
+  if (isQuoted && name.endsWith(first)) {
+    return name.slice(1, -1).split(first + first).join(first);
+  }
+  return name;
+}
+
+/**
+ * Short labels for what a column declares beyond its name, type and primary key,
+ * e.g. `AUTOINCREMENT`, `GENERATED STORED`, `COLLATE NOCASE`
+ */
+export function getColumnFlags(column: ColumnInfo): string[] {
+  const flags: string[] = [];
+  if (column.autoincrement) flags.push('AUTOINCREMENT');
+  if (column.generated) flags.push(`GENERATED ${column.generated}`);
+  if (column.collation) flags.push(`COLLATE ${column.collation}`);
+  if (column.checks?.length) flags.push('CHECK');
+  if (column.hidden) flags.push('HIDDEN');
+  return flags;
+}
+
+/**
+ * Column definition in DDL form, e.g. `name TEXT NOT NULL COLLATE NOCASE CHECK (name <> '')`
+ */
+export function describeColumn(column: ColumnInfo): string {
+  const parts = [column.name];
+  if (column.type) parts.push(column.type);
+  if (column.pk) parts.push(column.autoincrement ? 'PRIMARY KEY AUTOINCREMENT' : 'PRIMARY KEY');
+  if (column.notnull) parts.push('NOT NULL');
+  if (column.dflt_value !== null) parts.push(`DEFAULT ${column.dflt_value}`);
+  if (column.collation) parts.push(`COLLATE ${column.collation}`);
+  column.checks?.forEach((check) => parts.push(`CHECK (${check})`));
+  if (column.generated) {
+    parts.push(`GENERATED ALWAYS AS (${column.generatedExpression ?? '?'}) ${column.generated}`);
+  }
+  if (column.hidden) parts.push('HIDDEN');
+  return parts.join(' ');
+}
+
+/**
+ * Readable index key, e.g. `email COLLATE NOCASE DESC, lower(name)`
+ * The default BINARY collation and ASC order are left out.
+ */
+export function formatIndexKey(index: IndexInfo): string {
+  return index.keyColumns
+    .map((column) => {
+      let text = column.name ?? column.expression ?? '?';
+      if (column.collation && column.collation.toUpperCase() !== 'BINARY') {
+        text += ` COLLATE ${column.collation}`;
+      }
+      return column.desc ? `${text} DESC` : text;
+    })
+    .join(', ');
+}
+
+const INDEX_ORIGINS = { u: 'UNIQUE constraint', pk: 'PRIMARY KEY' };
+
+/**
+ * One-line summary of an index, e.g. `UNIQUE INDEX idx (email) WHERE active = 1`
+ * Indexes SQLite created for a constraint are marked with it.
+ */
+export function describeIndex(index: IndexInfo): string {
+  let text = `${index.unique ? 'UNIQUE ' : ''}INDEX ${index.name} (${formatIndexKey(index)})`;
+  if (index.where) {
+    text += ` WHERE ${index.where}`;
+  }
+  return index.origin === 'c' ? text : `${text} [${INDEX_ORIGINS[index.origin]}]`;
+}
+
+/**
+ * ON DELETE / ON UPDATE actions of a foreign key that differ from NO ACTION
+ */
+export function getForeignKeyActions(fk: ForeignKeyInfo): string[] {
+  const actions: string[] = [];
+  if (fk.onDelete !== 'NO ACTION') actions.push(`ON DELETE ${fk.onDelete}`);
+  if (fk.onUpdate !== 'NO ACTION') actions.push(`ON UPDATE ${fk.onUpdate}`);
+  return actions;
+}
+
+/**
+ * One-line summary of a foreign key, e.g. `(org_id, user_id) → members(org_id, id) ON DELETE CASCADE`
+ */
+export function describeForeignKey(fk: ForeignKeyInfo): string {
+  const from = fk.columns.map((column) => column.from).join(', ');
+  const to = fk.columns.map((column) => column.to ?? '?').join(', ');
+  const text = [`(${from}) → ${fk.to}(${to})`, ...getForeignKeyActions(fk)];
+  if (fk.match !== 'NONE') {
+    text.push(`MATCH ${fk.match}`);
+  }
+  return text.join(' ');
+}
+
+/**
+ * Tables ordered so that each follows the tables its foreign keys reference
+ * Tables in a reference cycle, and unrelated tables, keep their given order.
+ */
+export function orderByForeignKeys<T extends Pick<TableInfo, 'name' | 'foreignKeys'>>(
+  tables: T[]
+): T[] {
+  const byName = new Map(tables.map((table) => [table.name.toLowerCase(), table]));
+  const visited = new Set<T>();
+  const ordered: T[] = [];
+
+  const visit = (table: T) => {
+    if (visited.has(table)) {
+      return;
+    }
+    visited.add(table);
+    table.foreignKeys.forEach((fk) => {
+      const parent = byName.get(fk.to.toLowerCase());
+      if (parent) {
+        visit(parent);
+      }
+    });
+    ordered.push(table);
+  };
+
+  tables.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Parse statement parameters entered as JSON text
+ * Accepts an array for positional placeholders or an object for named ones;
+ * blank input means no parameters
+ */
+export function parseBindParams(text: string): BindParams | undefined {
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Invalid parameters JSON: ${error.message || error}`);
+  }
+
+  if (parsed === null || typeof parsed !== 'object') {
+    throw new Error('Parameters must be a JSON array or object');
+  }
+
+  const values = Array.isArray(parsed) ? parsed : Object.values(parsed);
+  values.forEach((value) => {
+    if (value !== null && typeof value !== 'number' && typeof value !== 'string') {
+      throw new Error(`Unsupported parameter value: ${JSON.stringify(value)}`);
+    }
+  });
+
+  return parsed as BindParams;
+}
+
+/**
+ * A value as a SQL literal, as quote() writes it: NULL, a number, 'text' with
+ * quotes doubled, or X'hex' for a blob
+ */
+export function formatSqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return 'NULL';
+    }
+    return Number.isFinite(value) ? String(value) : `${value < 0 ? '-' : ''}9.0e+999`;
+  }
+  if (typeof value === 'bigint') {
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? '1' : '0';
+  }
+  if (value instanceof Uint8Array) {
+    return `X'${formatHex(value)}'`;
+  }
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
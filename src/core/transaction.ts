@@ -0,0 +1,114 @@
+import { tokenize } from './sqlParser';
+import { unquoteIdentifier } from './sqlUtils';
+
+/**
+ * Transaction controls shared by the backends and the context
+ */
+export interface TransactionControl {
+  beginTransaction(): void | Promise<void>;
+  commit(): void | Promise<void>;
+  rollback(): void | Promise<void>;
+  getTransactionDepth(): number | Promise<number>;
+}
+
+/**
+ * Run `fn` in a transaction, or in a savepoint when a transaction is already open
+ * Commits when fn resolves and rolls back when it throws, including any
+ * nested levels fn left open.
+ */
+export async function runTransaction<Tx, T>(
+  control: TransactionControl,
+  tx: Tx,
+  fn: (tx: Tx) => T | Promise<T>
+): Promise<T> {
+  const outerDepth = await control.getTransactionDepth();
+  await control.beginTransaction();
+
+  let result: T;
+  try {
+    result = await fn(tx);
+  } catch (error) {
+    try {
+      while ((await control.getTransactionDepth()) > outerDepth) {
+        await control.rollback();
+      }
+    } catch {
+      // Report the original failure rather than the rollback's
+    }
+    throw error;
+  }
+
+  while ((await control.getTransactionDepth()) > outerDepth) {
+    await control.commit();
+  }
+  return result;
+}
+
+/**
+ * Follows transaction statements to know which transaction and savepoints are open
+ * Each level holds its savepoint name (lower-cased), or null for BEGIN.
+ */
+export class TransactionTracker {
+  private levels: Array<string | null> = [];
+
+  /**
+   * Number of open levels: 0 in autocommit mode, 1 in a transaction, more with savepoints
+   */
+  get depth(): number {
+    return this.levels.length;
+  }
+
+  /**
+   * Name of the innermost open savepoint, or null when it is a BEGIN transaction
+   */
+  get innermostSavepoint(): string | null {
+    return this.levels[this.levels.length - 1] ?? null;
+  }
+
+  /**
+   * Name to use for a savepoint opened at the next level
+   */
+  nextSavepointName(): string {
+    return `sp_${this.levels.length}`;
+  }
+
+  /**
+   * Update the open levels after a transaction statement succeeded
+   */
+  apply(sql: string): void {
+    const words = tokenize(sql).map((token) =>
+      token.type === 'word' ? token.value.toUpperCase() : unquoteIdentifier(token.value)
+    );
+    const name = words[words.length - 1]?.toLowerCase();
+
+    switch (words[0]) {
+      case 'BEGIN':
+        this.levels = [null];
+        break;
+      case 'COMMIT':
+      case 'END':
+        this.levels = [];
+        break;
+      case 'SAVEPOINT':
+        this.levels.push(name);
+        break;
+      case 'RELEASE':
+        // Releasing a savepoint also releases those opened after it
+        this.levels = this.levels.slice(0, this.levels.lastIndexOf(name));
+        break;
+      case 'ROLLBACK':
+        if (words.includes('TO')) {
+          // The named savepoint stays open; later ones are discarded
+          this.levels = this.levels.slice(0, this.levels.lastIndexOf(name) + 1);
+        } else {
+          this.levels = [];
+        }
+        break;
+    }
+  }
+
+  reset(): void {
+    this.levels = [];
+  }
+}
+
@@ -0,0 +1,195 @@
+import { DatabaseManager } from './database';
+import { QueryInterruptedError } from './errors';
+import { QueryCursor } from './cursor';
+import { SQLiteInitOptions, InterruptReason, ExportChunk } from '../types';
+
+/**
+ * DatabaseManager methods callable over the worker message protocol
+ */
+export type WorkerMethod =
+  | 'initialize'
+  | 'loadDatabase'
+  | 'createDatabase'
+  | 'executeQuery'
+  | 'executeScript'
+  | 'openCursor'
+  | 'fetchCursor'
+  | 'closeCursor'
+  | 'beginTransaction'
+  | 'commit'
+  | 'rollback'
+  | 'getTransactionDepth'
+  | 'hasTempObjects'
+  | 'getConnectionSettings'
+  | 'getSchema'
+  | 'readSchema'
+  | 'getTableInfo'
+  | 'getStatistics'
+  | 'attachDatabase'
+  | 'detachDatabase'
+  | 'exportDatabase'
+  | 'openExport'
+  | 'fetchExport'
+  | 'closeExport'
+  | 'importRows'
+  | 'importJSON'
+  | 'saveDatabase'
+  | 'close';
+
+export interface WorkerRequest {
+  id: number;
+  method: WorkerMethod;
+  args: unknown[];
+}
+
+export interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+  interrupted?: InterruptReason;
+}
+
+/**
+ * Result of openCursor over the worker protocol
+ */
+export interface WorkerCursorHandle {
+  id: number;
+  columns: string[];
+}
+
+/**
+ * Result of fetchCursor; the worker drops the cursor once done
+ */
+export interface WorkerCursorBatch {
+  rows: any[][];
+  done: boolean;
+}
+
+/**
+ * Result of fetchExport; the worker drops the export once done
+ */
+export interface WorkerExportChunk {
+  chunk: ExportChunk | null;
+  done: boolean;
+}
+
+/**
+ * Minimal view of a dedicated worker's global scope
+ */
+export interface WorkerScope {
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+}
+
+/**
+ * Serve a DatabaseManager to the main thread from inside a Web Worker
+ * Call from the worker script: `exposeDatabaseWorker(self, initOptions)`
+ */
+export function exposeDatabaseWorker(
+  scope: WorkerScope,
+  options: SQLiteInitOptions = {}
+): DatabaseManager {
+  const manager = new DatabaseManager(options);
+  const cursors: Map<number, QueryCursor> = new Map();
+  let nextCursorId = 1;
+  const exports: Map<number, Generator<ExportChunk>> = new Map();
+  let nextExportId = 1;
+
+  const getCursor = (id: number): QueryCursor => {
+    const cursor = cursors.get(id);
+    if (!cursor) {
+      throw new Error(`Unknown or closed cursor: ${id}`);
+    }
+    return cursor;
+  };
+
+  const handlers: Record<WorkerMethod, (...args: any[]) => unknown> = {
+    initialize: () => manager.initialize(),
+    loadDatabase: (data: Uint8Array) => manager.loadDatabase(data),
+    createDatabase: () => manager.createDatabase(),
+    executeQuery: (query, params, queryOptions) =>
+      manager.executeQuery(query, params, queryOptions),
+    executeScript: (script, scriptOptions) => manager.executeScript(script, scriptOptions),
+    openCursor: (query, params): WorkerCursorHandle => {
+      const id = nextCursorId++;
+      const cursor = manager.openCursor(query, params);
+      cursors.set(id, cursor);
+      return { id, columns: cursor.columns };
+    },
+    fetchCursor: (id: number, count: number): WorkerCursorBatch => {
+      const cursor = getCursor(id);
+      const rows = cursor.fetch(count);
+      if (cursor.done) {
+        cursors.delete(id);
+      }
+      return { rows, done: cursor.done };
+    },
+    closeCursor: (id: number) => {
+      cursors.get(id)?.close();
+      cursors.delete(id);
+    },
+    beginTransaction: () => manager.beginTransaction(),
+    commit: () => manager.commit(),
+    rollback: () => manager.rollback(),
+    getTransactionDepth: () => manager.getTransactionDepth(),
+    hasTempObjects: () => manager.hasTempObjects(),
+    getConnectionSettings: () => manager.getConnectionSettings(),
+    getSchema: () => manager.getSchema(),
+    readSchema: (data) => manager.readSchema(data),
+    getTableInfo: (tableName, schema) => manager.getTableInfo(tableName, schema),
+    getStatistics: () => manager.getStatistics(),
+    attachDatabase: (name, data) => manager.attachDatabase(name, data),
+    detachDatabase: (name) => manager.detachDatabase(name),
+    exportDatabase: (exportOptions) => manager.exportDatabase(exportOptions),
+    openExport: (exportOptions): number => {
+      const id = nextExportId++;
+      exports.set(id, manager.exportChunks(exportOptions));
+      return id;
+    },
+    fetchExport: (id: number): WorkerExportChunk => {
+      const chunks = exports.get(id);
+      if (!chunks) {
+        throw new Error(`Unknown or closed export: ${id}`);
+      }
+      const next = chunks.next();
+      if (next.done) {
+        exports.delete(id);
+        return { chunk: null, done: true };
+      }
+      return { chunk: next.value, done: false };
+    },
+    closeExport: (id: number) => {
+      exports.get(id)?.return(undefined);
+      exports.delete(id);
+    },
+    importRows: (rows, importOptions) => manager.importRows(rows, importOptions),
+    importJSON: (json, importOptions) => manager.importJSON(json, importOptions),
+    saveDatabase: (schema) => manager.saveDatabase(schema),
+    close: () => manager.close(),
+  };
+
+  scope.addEventListener('message', async (event: MessageEvent) => {
+    const { id, method, args } = event.data as WorkerRequest;
+
+    try {
+      const handler = handlers[method];
+      if (!handler) {
+        throw new Error(`Unknown worker method: ${method}`);
+      }
+
+      const result = await handler(...args);
+      // Hand binary results over without copying
+      const transfer = result instanceof Uint8Array ? [result.buffer as ArrayBuffer] : [];
+      scope.postMessage({ id, result } as WorkerResponse, transfer);
+    } catch (error: any) {
+      scope.postMessage({
+        id,
+        error: error.message || String(error),
+        interrupted: error instanceof QueryInterruptedError ? error.reason : undefined,
+      } as WorkerResponse);
+    }
+  });
+
+  return manager;
+}
+
@@ -0,0 +1,634 @@
+import {
+  QueryResult,
+  DatabaseSchema,
+  DatabaseStatistics,
+  TableInfo,
+  ExportOptions,
+  ExportStreamOptions,
+  ExportChunk,
+  ImportOptions,
+  ImportResult,
+  JsonExport,
+  JsonImportOptions,
+  JsonImportResult,
+  BindParams,
+  QueryOptions,
+  ScriptOptions,
+  ScriptStatementResult,
+  StreamOptions,
+  RowBatch,
+  DatabaseBackend,
+} from '../types';
+import {
+  WorkerMethod,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerCursorHandle,
+  WorkerCursorBatch,
+  WorkerExportChunk,
+} from './worker';
+import { QueryInterruptedError } from './errors';
+import { DEFAULT_BATCH_SIZE } from './cursor';
+import { runTransaction } from './transaction';
+import { classifyStatements, isWriteKind, StatementKind } from './sqlParser';
+
+/**
+ * Extra time given to the worker to stop a timed-out query by itself
+ * before it is terminated
+ */
+const WATCHDOG_GRACE_MS = 1000;
+
+/**
+ * Minimal view of a Worker used by the client
+ */
+export interface WorkerLike {
+  addEventListener(type: 'message' | 'error', listener: (event: any) => void): void;
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  terminate?(): void;
+}
+
+export interface WorkerManagerOptions {
+  /**
+   * Keep a copy of the database so a cancelled query can be recovered from
+   * (default: true). Only used with a worker factory
+   */
+  checkpoints?: boolean;
+}
+
+/**
+ * Async DatabaseManager running in a Web Worker
+ * Each call is sent as a message to a worker set up with exposeDatabaseWorker,
+ * so SQL never blocks the main thread.
+ *
+ * Given a worker factory, queries can be cancelled: the worker is terminated,
+ * a fresh one is started and the database is reopened from the last checkpoint,
+ * which discards only the interrupted statement's changes. A checkpoint is saved
+ * just before a cancellable call when the database has changed since the last one,
+ * along with the connection's PRAGMA settings, which are applied again on restart.
+ * Saving makes sql.js reopen the database, which closes cursors and drops TEMP
+ * objects, so none is saved while a cursor or export is open or a TEMP object
+ * exists; a call that finds no usable checkpoint runs without being cancellable.
+ */
+export class WorkerDatabaseManager implements DatabaseBackend {
+  private worker: WorkerLike;
+  private createWorker: (() => WorkerLike) | null;
+  private checkpointsEnabled: boolean;
+  private nextId: number = 1;
+  private pending: Map<
+    number,
+    { resolve: (value: any) => void; reject: (error: Error) => void }
+  > = new Map();
+  private loaded: boolean = false;
+  private initialized: boolean = false;
+  private checkpoint: Uint8Array | null = null;
+  // Whether the database has changed since the checkpoint
+  private checkpointStale: boolean = true;
+  // Cursors and exports being read; saving the database would free them
+  private openStreams: number = 0;
+  // Databases attached through attachDatabase, and their bytes as of the last checkpoint
+  private attached: Set<string> = new Set();
+  private attachedCheckpoints: Map<string, Uint8Array> = new Map();
+  // PRAGMA statements restoring the connection's settings as of the last checkpoint
+  private checkpointSettings: string[] = [];
+  // Set while a restarted worker is being restored
+  private restoring: Promise<void> | null = null;
+  // Number of restarts so far, to tell whether one happened during a call
+  private restarts: number = 0;
+
+  constructor(worker: WorkerLike | (() => WorkerLike), options: WorkerManagerOptions = {}) {
+    this.createWorker = typeof worker === 'function' ? worker : null;
+    this.worker = typeof worker === 'function' ? worker() : worker;
+    this.checkpointsEnabled = options.checkpoints ?? true;
+    this.attach(this.worker);
+  }
+
+  /**
+   * Initialize sql.js inside the worker
+   */
+  async initialize(): Promise<void> {
+    await this.call('initialize');
+    this.initialized = true;
+  }
+
+  /**
+   * Load database from binary data
+   * The underlying buffer is transferred to the worker and becomes unusable here
+   */
+  async loadDatabase(data: Uint8Array | ArrayBuffer): Promise<void> {
+    const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+    await this.call('loadDatabase', [bytes], [bytes.buffer as ArrayBuffer]);
+    this.loaded = true;
+    this.clearAttached();
+    this.checkpointStale = true;
+  }
+
+  /**
+   * Create a new empty database
+   */
+  async createDatabase(): Promise<void> {
+    await this.call('createDatabase');
+    this.loaded = true;
+    this.clearAttached();
+    this.checkpointStale = true;
+  }
+
+  async executeQuery(
+    query: string,
+    params?: BindParams,
+    options: QueryOptions = {}
+  ): Promise<QueryResult> {
+    const kinds = classifyStatements(query);
+    await this.beforeStatements(kinds);
+    const restarts = this.restarts;
+    try {
+      return await this.callInterruptible<QueryResult>(
+        'executeQuery',
+        [query, params, { timeout: options.timeout }],
+        options
+      );
+    } finally {
+      // Statements before a failing one may have written
+      await this.markChanged(kinds, restarts);
+    }
+  }
+
+  async executeScript(
+    script: string,
+    options: ScriptOptions = {}
+  ): Promise<ScriptStatementResult[]> {
+    // Abort signals cannot be posted; the worker only sees the timeout
+    const { signal, ...workerOptions } = options;
+    const kinds = classifyStatements(script);
+    await this.beforeStatements(kinds);
+    const restarts = this.restarts;
+    try {
+      return await this.callInterruptible<ScriptStatementResult[]>(
+        'executeScript',
+        [script, workerOptions],
+        { timeout: options.timeout, signal }
+      );
+    } finally {
+      await this.markChanged(kinds, restarts);
+    }
+  }
+
+  /**
+   * Yield a query's rows in batches, fetching one batch per round trip
+   * With a worker factory, aborting the signal interrupts a slow fetch
+   */
+  async *streamQuery(
+    query: string,
+    params?: BindParams,
+    { batchSize = DEFAULT_BATCH_SIZE, signal }: StreamOptions = {}
+  ): AsyncGenerator<RowBatch> {
+    if (signal) {
+      // No checkpoint can be saved once the cursor is open
+      await this.prepareCheckpoint();
+    }
+    const { id, columns } = await this.call<WorkerCursorHandle>('openCursor', [query, params]);
+    let done = false;
+    this.openStreams++;
+
+    try {
+      while (!done) {
+        const batch = await this.callInterruptible<WorkerCursorBatch>(
+          'fetchCursor',
+          [id, batchSize],
+          { signal }
+        );
+        done = batch.done;
+        if (batch.rows.length) {
+          yield { columns, rows: batch.rows };
+        }
+      }
+    } finally {
+      this.openStreams--;
+      if (!done) {
+        // The worker may have been restarted, taking the cursor with it
+        await this.call('closeCursor', [id]).catch(() => undefined);
+      }
+    }
+  }
+
+  async beginTransaction(): Promise<void> {
+    await this.prepareCheckpoint();
+    await this.call('beginTransaction');
+  }
+
+  async commit(): Promise<void> {
+    await this.call('commit');
+    await this.markChanged();
+  }
+
+  /**
+   * Rolling back leaves the checkpoint as usable as it was when the transaction began
+   */
+  rollback(): Promise<void> {
+    return this.call('rollback');
+  }
+
+  getTransactionDepth(): Promise<number> {
+    return this.call('getTransactionDepth');
+  }
+
+  /**
+   * Whether a row stream or export from this client is still being read
+   */
+  hasOpenStreams(): boolean {
+    return this.openStreams > 0;
+  }
+
+  hasTempObjects(): Promise<boolean> {
+    return this.call('hasTempObjects');
+  }
+
+  /**
+   * Run `fn` in a transaction (or savepoint), committing on success and
+   * rolling back when it throws
+   */
+  transaction<T>(fn: (tx: WorkerDatabaseManager) => T | Promise<T>): Promise<T> {
+    return runTransaction(this, this, fn);
+  }
+
+  getSchema(): Promise<DatabaseSchema> {
+    return this.call('getSchema');
+  }
+
+  /**
+   * Schema of another database file; the underlying buffer is transferred to the worker
+   */
+  readSchema(data: Uint8Array | ArrayBuffer): Promise<DatabaseSchema> {
+    const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+    return this.call('readSchema', [bytes], [bytes.buffer as ArrayBuffer]);
+  }
+
+  getTableInfo(tableName: string, schema?: string): Promise<TableInfo | null> {
+    return this.call('getTableInfo', [tableName, schema]);
+  }
+
+  /**
+   * Attach another database file as schema `name`
+   * Like loadDatabase, the underlying buffer is transferred to the worker
+   */
+  async attachDatabase(name: string, data: Uint8Array | ArrayBuffer): Promise<void> {
+    const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+    await this.call('attachDatabase', [name, bytes], [bytes.buffer as ArrayBuffer]);
+    this.attached.add(name);
+    this.checkpointStale = true;
+  }
+
+  async detachDatabase(name: string): Promise<void> {
+    await this.call('detachDatabase', [name]);
+    this.attached.delete(name);
+    this.attachedCheckpoints.delete(name);
+  }
+
+  getStatistics(): Promise<DatabaseStatistics> {
+    return this.call('getStatistics');
+  }
+
+  exportDatabase(options?: ExportOptions): Promise<string> {
+    return this.call('exportDatabase', [options]);
+  }
+
+  /**
+   * Yield an export in chunks, fetching one chunk per round trip
+   * With a worker factory, aborting the signal interrupts a slow fetch
+   */
+  async *streamExport(options: ExportStreamOptions = {}): AsyncGenerator<ExportChunk> {
+    const { signal, ...exportOptions } = options;
+    if (signal) {
+      await this.prepareCheckpoint();
+    }
+    const id = await this.call<number>('openExport', [exportOptions]);
+    let done = false;
+    this.openStreams++;
+
+    try {
+      while (!done) {
+        const next = await this.callInterruptible<WorkerExportChunk>('fetchExport', [id], {
+          signal,
+        });
+        done = next.done;
+        if (next.chunk) {
+          yield next.chunk;
+        }
+      }
+    } finally {
+      this.openStreams--;
+      if (!done) {
+        // The worker may have been restarted, taking the export with it
+        await this.call('closeExport', [id]).catch(() => undefined);
+      }
+    }
+  }
+
+  async importRows(rows: string[][], options: ImportOptions): Promise<ImportResult> {
+    const result = await this.call<ImportResult>('importRows', [rows, options]);
+    await this.markChanged();
+    return result;
+  }
+
+  async importJSON(
+    json: string | JsonExport,
+    options?: JsonImportOptions
+  ): Promise<JsonImportResult> {
+    const result = await this.call<JsonImportResult>('importJSON', [json, options]);
+    await this.markChanged();
+    return result;
+  }
+
+  saveDatabase(schema?: string): Promise<Uint8Array> {
+    return this.call('saveDatabase', [schema]);
+  }
+
+  /**
+   * Close database in the worker; the worker itself keeps running
+   */
+  async close(): Promise<void> {
+    this.loaded = false;
+    this.checkpoint = null;
+    this.checkpointStale = true;
+    this.clearAttached();
+    await this.call('close');
+  }
+
+  /**
+   * Check if database is loaded
+   */
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Queries can be interrupted only when the worker can be recreated
+   */
+  canCancel(): boolean {
+    return this.createWorker !== null;
+  }
+
+  /**
+   * Stop the worker and fail any calls still in flight
+   */
+  terminate(): void {
+    this.loaded = false;
+    this.worker.terminate?.();
+    this.rejectAll(new Error('Database worker terminated'));
+  }
+
+  /**
+   * Listen to a worker, ignoring events from workers that were replaced
+   */
+  private attach(worker: WorkerLike): void {
+    worker.addEventListener('message', (event: MessageEvent) => {
+      if (worker === this.worker) {
+        this.handleResponse(event.data as WorkerResponse);
+      }
+    });
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      if (worker === this.worker) {
+        this.rejectAll(new Error(`Database worker error: ${event.message || 'unknown error'}`));
+      }
+    });
+  }
+
+  /**
+   * Send a request once any restart has finished
+   */
+  private async call<T>(
+    method: WorkerMethod,
+    args: unknown[] = [],
+    transfer: Transferable[] = []
+  ): Promise<T> {
+    if (this.restoring) {
+      await this.restoring;
+    }
+    return this.send<T>(method, args, transfer);
+  }
+
+  /**
+   * Send a request that a timeout or abort signal can interrupt by restarting the worker
+   * Without a worker factory or a usable checkpoint, the worker enforces the timeout
+   * on its own
+   */
+  private async callInterruptible<T>(
+    method: WorkerMethod,
+    args: unknown[],
+    { timeout, signal }: QueryOptions
+  ): Promise<T> {
+    if (this.restoring) {
+      await this.restoring;
+    }
+    const recoverable =
+      this.createWorker !== null && !!(timeout || signal) && (await this.prepareCheckpoint());
+    // Checked after saving a checkpoint, as the signal may abort meanwhile
+    if (signal?.aborted) {
+      throw new QueryInterruptedError('cancelled');
+    }
+
+    if (!recoverable) {
+      return this.send<T>(method, args);
+    }
+    const request = this.send<T>(method, args);
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const interrupt = (error: QueryInterruptedError) => {
+        settle();
+        reject(error);
+        this.restart();
+      };
+      const onAbort = () => interrupt(new QueryInterruptedError('cancelled'));
+
+      signal?.addEventListener('abort', onAbort);
+      if (timeout) {
+        timer = setTimeout(
+          () =>
+            interrupt(new QueryInterruptedError('timeout', `Query timed out after ${timeout} ms`)),
+          timeout + WATCHDOG_GRACE_MS
+        );
+      }
+
+      request.then(
+        (value) => {
+          settle();
+          resolve(value);
+        },
+        (error) => {
+          settle();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Post a request and resolve with the matching response
+   */
+  private send<T>(method: WorkerMethod, args: unknown[] = [], transfer: Transferable[] = []) {
+    const id = this.nextId++;
+    const request: WorkerRequest = { id, method, args };
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      try {
+        this.worker.postMessage(request, transfer);
+      } catch (error: any) {
+        this.pending.delete(id);
+        reject(new Error(`Failed to send ${method} to database worker: ${error.message || error}`));
+      }
+    });
+  }
+
+  /**
+   * Replace the worker with a fresh one and reopen the last checkpoint
+   */
+  private restart(): void {
+    this.worker.terminate?.();
+    this.rejectAll(new Error('Database worker restarted'));
+
+    this.worker = this.createWorker!();
+    this.attach(this.worker);
+    this.restarts++;
+
+    const checkpoint = this.checkpoint;
+    const attachedCheckpoints = Array.from(this.attachedCheckpoints);
+    const settings = this.checkpointSettings;
+    this.checkpointStale = false;
+    const restoring = (async () => {
+      if (this.initialized) {
+        await this.send('initialize');
+      }
+      if (checkpoint) {
+        // Keep our copy; the worker gets its own
+        const copy = checkpoint.slice();
+        await this.send('loadDatabase', [copy], [copy.buffer]);
+        for (const [name, bytes] of attachedCheckpoints) {
+          const attachedCopy = bytes.slice();
+          await this.send('attachDatabase', [name, attachedCopy], [attachedCopy.buffer]);
+        }
+        for (const sql of settings) {
+          await this.send('executeQuery', [sql]);
+        }
+      } else {
+        this.loaded = false;
+      }
+    })()
+      .catch(() => {
+        this.loaded = false;
+      })
+      .finally(() => {
+        if (this.restoring === restoring) {
+          this.restoring = null;
+        }
+      });
+    this.restoring = restoring;
+  }
+
+  /**
+   * Make sure a cancel can restore the database, saving a checkpoint if it is stale
+   * Resolves false when it cannot: checkpoints are off, a cursor or export is open,
+   * a TEMP object exists, or a transaction is open that began after unsaved
+   * changes. Inside a transaction
+   * the checkpoint is the database as it was before, so a cancel also discards the
+   * transaction's uncommitted work.
+   */
+  private async prepareCheckpoint(): Promise<boolean> {
+    if (!this.createWorker || !this.checkpointsEnabled || !this.loaded) {
+      return false;
+    }
+    if (!this.checkpointStale) {
+      return true;
+    }
+    if (this.openStreams || (await this.getTransactionDepth()) || (await this.hasTempObjects())) {
+      return false;
+    }
+
+    this.checkpointSettings = await this.call<string[]>('getConnectionSettings');
+    this.checkpoint = await this.call<Uint8Array>('saveDatabase');
+
+    const attachedCheckpoints = new Map<string, Uint8Array>();
+    for (const name of this.attached) {
+      attachedCheckpoints.set(name, await this.call<Uint8Array>('saveDatabase', [name]));
+    }
+    this.attachedCheckpoints = attachedCheckpoints;
+    this.checkpointStale = false;
+    return true;
+  }
+
+  /**
+   * Save a checkpoint before statements that may begin a transaction, so a cancel
+   * inside it can go back to the database as it was before
+   */
+  private async beforeStatements(kinds: StatementKind[]): Promise<void> {
+    if (kinds.includes('transaction')) {
+      await this.prepareCheckpoint();
+    }
+  }
+
+  /**
+   * Note that the database may no longer match the checkpoint after a call
+   * Changes made inside a transaction still open leave it usable, as a cancel
+   * discards them anyway, unless the call also wrote before its last
+   * transaction statement. A restart since `restarts` went back to the checkpoint.
+   */
+  private async markChanged(
+    kinds?: StatementKind[],
+    restarts: number = this.restarts
+  ): Promise<void> {
+    if (!this.createWorker || !this.checkpointsEnabled || this.checkpointStale) {
+      return;
+    }
+    if (this.restarts !== restarts) {
+      return;
+    }
+    if (kinds && !kinds.some(isWriteKind)) {
+      return;
+    }
+
+    const last = kinds ? kinds.lastIndexOf('transaction') : -1;
+    const writesBefore = kinds?.some(
+      (kind, i) => i < last && kind !== 'transaction' && isWriteKind(kind)
+    );
+    // A worker that cannot answer counts as changed
+    const depth = await this.getTransactionDepth().catch(() => 0);
+    if (writesBefore || !depth) {
+      this.checkpointStale = true;
+    }
+  }
+
+  /**
+   * Forget attached databases; loading or closing the main one detaches them
+   */
+  private clearAttached(): void {
+    this.attached.clear();
+    this.attachedCheckpoints.clear();
+  }
+
+  private handleResponse(response: WorkerResponse): void {
+    const entry = this.pending.get(response.id);
+    if (!entry) {
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.interrupted) {
+      entry.reject(new QueryInterruptedError(response.interrupted, response.error));
+    } else if (response.error !== undefined) {
+      entry.reject(new Error(response.error));
+    } else {
+      entry.resolve(response.result);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+}
+
@@ -0,0 +1,150 @@
+/**
+ * A file written to the archive, as recorded in the central directory
+ */
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// Largest size or offset a zip without the ZIP64 extension can record
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+// Flag marking file names as UTF-8
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+// Printable characters not allowed in file names on common systems
+const FORBIDDEN_FILE_NAME_CHARS = '<>:"/\\|?*';
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Continue a CRC-32 over more bytes; start from 0
+ */
+export function crc32(bytes: Uint8Array, crc: number = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c;
+    }
+  }
+
+  let c = ~crc;
+  for (let i = 0; i < bytes.length; i++) {
+    c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+/**
+ * Names for archive files: control characters and characters not allowed in file
+ * names on common systems become '_', and names that then clash, ignoring case,
+ * get a numeric suffix
+ */
+export function toFileNames(names: string[], extension: string): string[] {
+  const used = new Set<string>();
+  const safeChar = (char: string) =>
+    char.charCodeAt(0) < 0x20 || FORBIDDEN_FILE_NAME_CHARS.includes(char) ? '_' : char;
+
+  return names.map((name) => {
+    const base = Array.from(name, safeChar).join('').replace(/^\.+/, '_') || '_';
+    let fileName = `${base}${extension}`;
+    for (let n = 2; used.has(fileName.toLowerCase()); n++) {
+      fileName = `${base}_${n}${extension}`;
+    }
+    used.add(fileName.toLowerCase());
+    return fileName;
+  });
+}
+
+/**
+ * Writes a zip archive one file at a time, storing files uncompressed
+ * Each call returns the bytes to append, in order, so an archive can go to a
+ * stream or into a Blob without being built in one buffer.
+ */
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset: number = 0;
+  private time: number;
+  private date: number;
+
+  constructor(modified: Date = new Date()) {
+    this.time =
+      (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+    this.date =
+      ((Math.max(modified.getFullYear(), 1980) - 1980) << 9) |
+      ((modified.getMonth() + 1) << 5) |
+      modified.getDate();
+  }
+
+  /**
+   * Add a file from its parts: returns its header followed by the parts
+   */
+  addFile(name: string, parts: Uint8Array[]): Uint8Array[] {
+    const encodedName = new TextEncoder().encode(name);
+    const size = parts.reduce((total, part) => total + part.length, 0);
+    const crc = parts.reduce((running, part) => crc32(part, running), 0);
+    if (this.entries.length >= MAX_ZIP_ENTRIES) {
+      throw new Error(`Zip archives hold at most ${MAX_ZIP_ENTRIES} files`);
+    }
+    if (this.offset + 30 + encodedName.length + size > MAX_ZIP_SIZE) {
+      throw new Error('Zip archives over 4 GB are not supported');
+    }
+
+    const header = new Uint8Array(30 + encodedName.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, ZIP_VERSION, true);
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(10, this.time, true);
+    view.setUint16(12, this.date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, size, true);
+    view.setUint32(22, size, true);
+    view.setUint16(26, encodedName.length, true);
+    header.set(encodedName, 30);
+
+    this.entries.push({ name: encodedName, crc, size, offset: this.offset });
+    this.offset += header.length + size;
+    return [header, ...parts];
+  }
+
+  /**
+   * The central directory listing every file added, which ends the archive
+   */
+  finish(): Uint8Array {
+    const directorySize = this.entries.reduce((total, entry) => total + 46 + entry.name.length, 0);
+    const bytes = new Uint8Array(directorySize + 22);
+    const view = new DataView(bytes.buffer);
+    let position = 0;
+
+    this.entries.forEach((entry) => {
+      view.setUint32(position, 0x02014b50, true);
+      view.setUint16(position + 4, ZIP_VERSION, true);
+      view.setUint16(position + 6, ZIP_VERSION, true);
+      view.setUint16(position + 8, UTF8_FLAG, true);
+      view.setUint16(position + 12, this.time, true);
+      view.setUint16(position + 14, this.date, true);
+      view.setUint32(position + 16, entry.crc, true);
+      view.setUint32(position + 20, entry.size, true);
+      view.setUint32(position + 24, entry.size, true);
+      view.setUint16(position + 28, entry.name.length, true);
+      view.setUint32(position + 42, entry.offset, true);
+      bytes.set(entry.name, position + 46);
+      position += 46 + entry.name.length;
+    });
+
+    view.setUint32(position, 0x06054b50, true);
+    view.setUint16(position + 8, this.entries.length, true);
+    view.setUint16(position + 10, this.entries.length, true);
+    view.setUint32(position + 12, directorySize, true);
+    view.setUint32(position + 16, this.offset, true);
+    return bytes;
+  }
+}
+
@@ -1,5 +1,6 @@
 // Main exports
-export { SQLiteProvider, useSQLite } from './context/SQLiteContext';
+export { SQLiteProvider, useSQLite, useSQLiteConnections } from './context/SQLiteContext';
+export type { SQLiteConnectionOptions, SQLiteConnectionsValue } from './context/SQLiteContext';
 
 // Components
 export { SQLiteViewer } from './components/SQLiteViewer/SQLiteViewer';
@@ -8,28 +9,150 @@ export { DataExplorer } from './components/DataExplorer/DataExplorer';
 export { QueryPlan } from './components/QueryPlan/QueryPlan';
 export { DatabaseManager } from './components/DatabaseManager/DatabaseManager';
 export { QueryHistory } from './components/QueryHistory/QueryHistory';
+export { SchemaDiffView } from './components/SchemaDiffView/SchemaDiffView';
+export { DataDiffView } from './components/DataDiffView/DataDiffView';
 
 // Types
 export type {
   TableInfo,
   ColumnInfo,
   IndexInfo,
+  IndexColumnInfo,
+  IndexOrigin,
   ForeignKeyInfo,
+  ForeignKeyColumn,
+  ForeignKeyAction,
+  ViewInfo,
+  TriggerInfo,
+  TriggerTiming,
+  TriggerEvent,
   QueryResult,
+  SqlValue,
+  BindParams,
+  QueryOptions,
+  InterruptReason,
+  QueryStatus,
+  StreamOptions,
+  RowBatch,
+  TransactionScope,
+  ScriptStatementResult,
+  ScriptOptions,
   QueryHistoryItem,
   DatabaseSchema,
+  SchemaChangeKind,
+  SchemaObjectDiff,
+  TableDiff,
+  SchemaDiff,
+  SchemaDiffOptions,
+  SideBySideLine,
+  RowChangeKind,
+  DataDiffOptions,
+  TableDataDiffOptions,
+  RowDiff,
+  TableDataDiff,
+  DatabaseStatistics,
+  ObjectStatistics,
   ExportOptions,
+  CsvWriteOptions,
+  ExportStreamOptions,
+  ExportFileOptions,
+  ExportProgress,
+  ExportChunk,
+  ResultFormat,
+  ResultExportOptions,
+  ResultExportTarget,
+  ResultExporter,
+  ImportColumn,
+  ImportOptions,
+  ImportResult,
+  ImportRowError,
+  JsonExport,
+  JsonImportOptions,
+  JsonImportResult,
+  SqlDumpOptions,
+  SqlDumpProgress,
+  SqlDumpError,
+  SqlDumpResult,
   Migration,
   SQLiteContextValue,
+  SQLiteInitOptions,
+  DatabaseBackend,
+  PersistenceAdapter,
+  PersistenceOptions,
+  StoredDatabaseInfo,
 } from './types';
 
 // Core utilities (for advanced usage)
 export { DatabaseManager as DatabaseManagerCore } from './core/database';
+export { WorkerDatabaseManager } from './core/workerClient';
+export type { WorkerLike, WorkerManagerOptions } from './core/workerClient';
+export { exposeDatabaseWorker } from './core/worker';
+export { QueryInterruptedError } from './core/errors';
+export { QueryCursor } from './core/cursor';
+export { runTransaction } from './core/transaction';
+export type { TransactionControl } from './core/transaction';
+export { runSqlDump } from './core/sqlDump';
+export { exportToBlob, exportToStream, EXPORT_MIME_TYPES } from './core/exportStream';
+export {
+  registerExporter,
+  unregisterExporter,
+  getExporter,
+  getExporters,
+  exportResult,
+  exportResultToBlob,
+} from './core/exporters';
+export {
+  diffSchemas,
+  countSchemaChanges,
+  normalizeSql,
+  formatCreateTable,
+  getObjectDdl,
+  diffLines,
+} from './core/schemaDiff';
+export { diffTableData, diffDatabaseData, formatDataPatch } from './core/dataDiff';
 export { QueryHistoryManager } from './core/queryHistory';
+export {
+  DatabasePersistence,
+  MemoryPersistenceAdapter,
+  IndexedDBPersistenceAdapter,
+  OPFSPersistenceAdapter,
+  createPersistenceAdapter,
+} from './core/persistence';
+export type { DatabasePersistenceOptions } from './core/persistence';
 export { SQLAutocomplete } from './core/sqlAutocomplete';
 export { MigrationManager } from './core/migrations';
 export { HotkeyManager } from './core/hotkeys';
 export { QueryShareManager } from './core/share';
+export {
+  quoteIdentifier,
+  quoteQualified,
+  qualifiedName,
+  getAttachName,
+  unquoteIdentifier,
+  parseBindParams,
+  getColumnFlags,
+  describeColumn,
+  formatIndexKey,
+  describeIndex,
+  getForeignKeyActions,
+  describeForeignKey,
+  orderByForeignKeys,
+  formatSqlLiteral,
+} from './core/sqlUtils';
+export { formatBytes, formatPercent, formatHex } from './core/format';
+export {
+  parseCSV,
+  readCSV,
+  detectDelimiter,
+  detectHeader,
+  inferAffinity,
+  getColumnNames,
+  formatCSV,
+} from './core/csv';
+export { ZipWriter } from './core/zip';
+export type { CsvAffinity, CsvParseOptions, CsvReadOptions, CsvTable } from './core/csv';
+export { JSON_EXPORT_VERSION, parseJsonExport } from './core/jsonExport';
+export { splitStatements, classifyStatement } from './core/sqlParser';
 
 // Theme
 export { theme } from './styles/theme';
@@ -1,11 +1,53 @@
-import { Database } from 'sql.js';
+import { Database, SqlJsStatic } from 'sql.js';
+
+/**
+ * Options controlling how the sql.js WASM module is loaded
+ * Provide one of: an already-initialized `sqlJs`, a preloaded `wasmBinary`,
+ * or a `locateFile` resolving the WASM URL (defaults to the sql.js CDN)
+ */
+export interface SQLiteInitOptions {
+  sqlJs?: SqlJsStatic;
+  wasmBinary?: ArrayBuffer | Uint8Array;
+  locateFile?: (file: string) => string;
+}
 
 export interface TableInfo {
   name: string;
+  /** Database holding the table: 'main' or the name it was attached under */
+  schema: string;
   sql: string;
   columns: ColumnInfo[];
   indexes: IndexInfo[];
   foreignKeys: ForeignKeyInfo[];
+  /** Primary key columns in key order */
+  primaryKey: string[];
+  /** Table-level CHECK constraints */
+  checks: string[];
+  strict: boolean;
+  withoutRowid: boolean;
+  /** Module implementing a virtual table (fts5, rtree...); unset for ordinary tables */
+  virtualModule?: string;
+}
+
+export interface ViewInfo {
+  name: string;
+  schema: string;
+  sql: string;
+  columns: ColumnInfo[];
+}
+
+export type TriggerTiming = 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+
+export type TriggerEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface TriggerInfo {
+  name: string;
+  schema: string;
+  /** Table or view the trigger is attached to */
+  table: string;
+  sql: string;
+  timing: TriggerTiming;
+  event: TriggerEvent;
 }
 
 export interface ColumnInfo {
@@ -14,45 +56,509 @@ export interface ColumnInfo {
   notnull: boolean;
   dflt_value: string | null;
   pk: boolean;
+  /** Position in the primary key, from 1; set for primary key columns */
+  pkOrder?: number;
+  /** Hidden column of a virtual table, left out of SELECT * */
+  hidden?: boolean;
+  generated?: 'VIRTUAL' | 'STORED';
+  /** Expression computing a generated column */
+  generatedExpression?: string;
+  /** Declared collation; unset for the default BINARY */
+  collation?: string;
+  /** Column-level CHECK constraints */
+  checks?: string[];
+  autoincrement?: boolean;
+}
+
+/**
+ * How an index came to exist: CREATE INDEX ('c'), a UNIQUE constraint ('u') or a PRIMARY KEY ('pk')
+ */
+export type IndexOrigin = 'c' | 'u' | 'pk';
+
+export interface IndexColumnInfo {
+  /** Column name; null for an expression key */
+  name: string | null;
+  /** SQL text of an expression key */
+  expression?: string;
+  desc: boolean;
+  collation: string;
 }
 
 export interface IndexInfo {
   name: string;
   unique: boolean;
+  /** Key column names, with the SQL text for expression keys */
   columns: string[];
+  keyColumns: IndexColumnInfo[];
+  origin: IndexOrigin;
+  partial: boolean;
+  /** WHERE clause of a partial index */
+  where?: string;
+  /** CREATE INDEX statement; null for indexes SQLite creates for constraints */
+  sql: string | null;
+}
+
+export type ForeignKeyAction = 'NO ACTION' | 'RESTRICT' | 'SET NULL' | 'SET DEFAULT' | 'CASCADE';
+
+export interface ForeignKeyColumn {
+  from: string;
+  /** Parent column; null when the parent table has no primary key to reference */
+  to: string | null;
 }
 
+/**
+ * One FOREIGN KEY constraint, with all of its columns
+ */
 export interface ForeignKeyInfo {
+  /** Constraint id within the child table */
+  id: number;
   from: string;
   to: string;
-  fromColumn: string;
-  toColumn: string;
+  /** Column pairs in declaration order */
+  columns: ForeignKeyColumn[];
+  onUpdate: ForeignKeyAction;
+  onDelete: ForeignKeyAction;
+  match: string;
+}
+
+/**
+ * Size of one table or index
+ * Page counts and byte sizes come from the dbstat virtual table and are null
+ * when the SQLite build does not include it.
+ */
+export interface ObjectStatistics {
+  name: string;
+  schema: string;
+  /** The table itself, or the table an index belongs to */
+  table: string;
+  /** Rows of a table or entries of an index; null when they cannot be counted */
+  rowCount: number | null;
+  pageCount: number | null;
+  /** Bytes of the pages holding the object */
+  sizeBytes: number | null;
+  /** Bytes of stored content, without page overhead and free space */
+  payloadBytes: number | null;
 }
 
+export interface DatabaseStatistics {
+  pageSize: number;
+  pageCount: number;
+  /** Unused pages waiting to be reused or removed by VACUUM */
+  freelistCount: number;
+  /** pageSize × pageCount */
+  sizeBytes: number;
+  /**
+   * Share of the file that is free space, from 0 to 1: freelist pages, plus unused
+   * space inside pages when dbstat is available
+   */
+  fragmentation: number;
+  /** Whether per-object page counts and sizes are available */
+  hasPageStatistics: boolean;
+  tables: ObjectStatistics[];
+  indexes: ObjectStatistics[];
+}
+
+/**
+ * Value that can be bound to a statement parameter
+ */
+export type SqlValue = number | string | Uint8Array | null;
+
+/**
+ * Statement parameters: an array for positional `?` / `?NNN` placeholders,
+ * or an object for `:name`, `@name` and `$name` placeholders
+ */
+export type BindParams = SqlValue[] | Record<string, SqlValue>;
+
 export interface QueryResult {
   columns: string[];
   values: any[][];
   rowsAffected?: number;
 }
 
+/**
+ * Why a query was stopped before completing
+ */
+export type InterruptReason = 'cancelled' | 'timeout';
+
+export interface QueryOptions {
+  /** Stop the query after this many milliseconds */
+  timeout?: number;
+  /** Stop the query when this signal aborts */
+  signal?: AbortSignal;
+}
+
+export interface StreamOptions {
+  /** Rows per batch (default: 500) */
+  batchSize?: number;
+  /** Stop streaming when this signal aborts */
+  signal?: AbortSignal;
+}
+
+/**
+ * A batch of rows yielded by streamQuery
+ */
+export interface RowBatch {
+  columns: string[];
+  rows: any[][];
+}
+
+/**
+ * Outcome of one statement within a script run by executeScript
+ */
+export interface ScriptStatementResult extends QueryResult {
+  statementIndex: number;
+  sql: string;
+  executionTime: number;
+  error?: string;
+  /** Set when this statement was cancelled or timed out; the script stops here */
+  interrupted?: InterruptReason;
+}
+
+/**
+ * Script options; a timeout applies to the script as a whole
+ */
+export interface ScriptOptions extends QueryOptions {
+  /** Stop at the first failing statement (default: true) */
+  stopOnError?: boolean;
+}
+
+export type QueryStatus = 'success' | 'error' | InterruptReason;
+
 export interface QueryHistoryItem {
   id: string;
   query: string;
+  params?: BindParams;
   timestamp: number;
   executionTime: number;
   result?: QueryResult;
   error?: string;
+  status?: QueryStatus;
 }
 
 export interface DatabaseSchema {
+  /** Ordinary and virtual tables; shadow tables backing virtual tables are left out */
   tables: TableInfo[];
+  views: ViewInfo[];
+  triggers: TriggerInfo[];
+  /** 'main' followed by the names of attached databases */
+  databases: string[];
   version: string;
 }
 
-export interface ExportOptions {
+export type SchemaChangeKind = 'added' | 'removed' | 'changed';
+
+/**
+ * How one object differs between two schemas
+ */
+export interface SchemaObjectDiff<T> {
+  name: string;
+  kind: SchemaChangeKind;
+  /** The object in the older schema; null when it was added */
+  before: T | null;
+  /** The object in the newer schema; null when it was removed */
+  after: T | null;
+  /** Properties that differ, for a changed object */
+  changes: string[];
+}
+
+/**
+ * How a table differs; a changed table lists its changed columns, indexes and
+ * foreign keys
+ */
+export interface TableDiff extends SchemaObjectDiff<TableInfo> {
+  columns: SchemaObjectDiff<ColumnInfo>[];
+  indexes: SchemaObjectDiff<IndexInfo>[];
+  foreignKeys: SchemaObjectDiff<ForeignKeyInfo>[];
+}
+
+/**
+ * Differences between two schemas; objects that did not change are left out
+ */
+export interface SchemaDiff {
+  tables: TableDiff[];
+  views: SchemaObjectDiff<ViewInfo>[];
+  triggers: SchemaObjectDiff<TriggerInfo>[];
+}
+
+export interface SchemaDiffOptions {
+  /** Database of the older schema to compare (default: 'main') */
+  beforeSchema?: string;
+  /** Database of the newer schema to compare (default: 'main') */
+  afterSchema?: string;
+}
+
+/**
+ * A row of two texts shown side by side, one line of each
+ */
+export interface SideBySideLine {
+  before: string | null;
+  after: string | null;
+  kind: 'same' | SchemaChangeKind;
+}
+
+export type RowChangeKind = 'inserted' | 'deleted' | 'modified';
+
+export interface DataDiffOptions {
+  /** Database holding the older rows (default: 'main') */
+  beforeSchema?: string;
+  /** Database holding the newer rows (default: 'main') */
+  afterSchema?: string;
+  /** Most rows of each kind to return; the counts still cover every row */
+  limit?: number;
+  /** Stop comparing when this signal aborts */
+  signal?: AbortSignal;
+}
+
+export interface TableDataDiffOptions extends DataDiffOptions {
+  table: string;
+  /** Table holding the newer rows, when it is named differently (default: `table`) */
+  afterTable?: string;
+}
+
+/**
+ * A row that differs between two tables, identified by its key
+ */
+export interface RowDiff {
+  kind: RowChangeKind;
+  /** Values of the key columns */
+  key: SqlValue[];
+  /** Values of the compared columns in the older table; null for an inserted row */
+  before: SqlValue[] | null;
+  /** Values of the compared columns in the newer table; null for a deleted row */
+  after: SqlValue[] | null;
+  /** Compared columns whose values differ, for a modified row */
+  changedColumns: string[];
+}
+
+/**
+ * Rows inserted, deleted and modified between two versions of a table
+ */
+export interface TableDataDiff {
+  table: string;
+  /** Columns rows are matched by: the primary key, or a rowid name */
+  keyColumns: string[];
+  /** Whether rows are matched by rowid, for tables without a primary key in common */
+  rowid: boolean;
+  /** Columns both tables have, in the order `before` and `after` list their values */
+  columns: string[];
+  /** Compared columns the table computes, which patches leave out */
+  generatedColumns: string[];
+  rows: RowDiff[];
+  /** Rows of each kind, including those `limit` left out */
+  counts: Record<RowChangeKind, number>;
+  /** Whether `limit` left rows out */
+  truncated: boolean;
+}
+
+/**
+ * How CSV files are written; the defaults follow RFC 4180
+ */
+export interface CsvWriteOptions {
+  /** Field separator (default: ',') */
+  delimiter?: string;
+  /** Write the column names as the first record (default: true) */
+  header?: boolean;
+  /** Text written for NULL (default: empty); text equal to it is quoted */
+  nullValue?: string;
+  /** Start with a byte order mark, which spreadsheet apps read as UTF-8 (default: false) */
+  bom?: boolean;
+  /** Line ending after every record (default: '\r\n') */
+  lineEnding?: '\r\n' | '\n';
+}
+
+/**
+ * Formats rows can be written in, from a table or a query result; besides the
+ * built-in ones, any format added with registerExporter
+ */
+export type ResultFormat =
+  | 'csv'
+  | 'tsv'
+  | 'ndjson'
+  | 'json-array'
+  | 'markdown'
+  | 'html'
+  | 'sql-insert'
+  | (string & Record<never, never>);
+
+/**
+ * Options for writing rows in a result format
+ */
+export interface ResultExportOptions {
+  /** Name of the rows, for formats that need one, like SQL INSERT statements */
+  table?: string;
+  /** Used by the CSV and TSV formats */
+  csv?: CsvWriteOptions;
+}
+
+/**
+ * Rows being exported: a table's, or a query result's
+ */
+export interface ResultExportTarget {
+  /** Table the rows come from; for a query result, the name given in the options, or null */
+  table: string | null;
+  columns: string[];
+  options: ResultExportOptions;
+}
+
+/**
+ * A result format, registered with registerExporter
+ * Text is written in three steps so a table can be exported a batch of rows at a time.
+ */
+export interface ResultExporter {
+  /** Name passed as the format */
+  id: string;
+  label: string;
+  /** Extension of the files written, with its dot */
+  extension: string;
+  mimeType: string;
+  /** Text before the first row */
+  begin?: (target: ResultExportTarget) => string;
+  /** Text for a batch of rows; `offset` counts the rows written before them */
+  rows: (rows: any[][], target: ResultExportTarget, offset: number) => string;
+  /** Text after the last row; `count` is the number of rows written */
+  end?: (target: ResultExportTarget, count: number) => string;
+}
+
+export interface ExportOptions extends ResultExportOptions {
+  schema?: boolean;
+  data?: boolean;
+  /** 'sql' and 'json' export the whole database; a result format exports its tables */
+  format?: 'sql' | 'json' | ResultFormat;
+  /**
+   * Result formats are written one file per table; name a table to export only
+   * its file. exportDatabase needs one when the database has several tables.
+   */
+  table?: string;
+}
+
+/**
+ * Options for an export written in chunks; `batchSize` rows are read per chunk
+ */
+export interface ExportStreamOptions extends ExportOptions, StreamOptions {}
+
+export interface ExportProgress {
+  /** Table whose rows were just written; null before the first and after the last */
+  table: string | null;
+  /** Rows written so far */
+  rows: number;
+  /** Rows in the exported tables, counted when the export started */
+  totalRows: number;
+}
+
+/**
+ * A piece of an export yielded by streamExport; joined, the pieces' text is the
+ * export exportDatabase returns
+ */
+export interface ExportChunk {
+  text: string;
+  /** File the text belongs to, for result formats written as one file per table */
+  file?: string;
+  progress: ExportProgress;
+}
+
+export interface ExportFileOptions extends ExportStreamOptions {
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export interface SqlDumpProgress {
+  /** Statements run so far, failed ones included */
+  executed: number;
+  total: number;
+}
+
+/**
+ * A statement of a SQL dump that failed
+ */
+export interface SqlDumpError {
+  /** Line of the dump the statement starts on, from 1 */
+  line: number;
+  sql: string;
+  message: string;
+}
+
+export interface SqlDumpOptions {
+  /** Stop at the first failing statement (default: true); otherwise report it and go on */
+  stopOnError?: boolean;
+  /** Statements run between progress reports (default: 200) */
+  batchSize?: number;
+  onProgress?: (progress: SqlDumpProgress) => void;
+  /** Stop loading when this signal aborts */
+  signal?: AbortSignal;
+}
+
+export interface SqlDumpResult {
+  /** Statements that ran successfully */
+  executed: number;
+  total: number;
+  errors: SqlDumpError[];
+  /** Whether loading stopped at an error before the end of the dump */
+  stopped: boolean;
+}
+
+/**
+ * The file written by exportDatabase({ format: 'json' })
+ * Blob values are written as `{ "$blob": "<base64>" }`.
+ */
+export interface JsonExport {
+  /** Version of this layout; files written before it was recorded are version 1 */
+  formatVersion: number;
+  /** Schema of the main database; null when exported without it */
+  schema: DatabaseSchema | null;
+  /** Rows of each table, with values in SELECT * column order */
+  data: Record<string, any[][]>;
+}
+
+export interface JsonImportOptions {
+  /** Create the tables, indexes, triggers and views of the schema block (default: true) */
   schema?: boolean;
+  /** Insert the rows of the data block (default: true) */
   data?: boolean;
-  format?: 'sql' | 'json' | 'csv';
+}
+
+export interface JsonImportResult {
+  /** Tables that received rows, in insertion order */
+  tables: string[];
+  rows: number;
+}
+
+/**
+ * Where one column of an import takes its values from
+ */
+export interface ImportColumn {
+  /** Column of the target table */
+  name: string;
+  /** Declared type when the table is created, e.g. INTEGER or TEXT */
+  type?: string;
+  /** Position of the field holding the value in each row, from 0 */
+  source: number;
+}
+
+export interface ImportOptions {
+  table: string;
+  /** Database holding the table (default: 'main') */
+  schema?: string;
+  /** Create the table from `columns` instead of appending to an existing one */
+  createTable?: boolean;
+  columns: ImportColumn[];
+  /** Rows inserted per transaction (default: 500) */
+  batchSize?: number;
+  /** Insert empty fields as NULL rather than '' (default: true) */
+  emptyAsNull?: boolean;
+  /** Number reported for the first row in errors (default: 1); 2 when a header was skipped */
+  firstRowNumber?: number;
+}
+
+/**
+ * A row an import skipped, and why
+ */
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  inserted: number;
+  errors: ImportRowError[];
 }
 
 export interface Migration {
@@ -63,18 +569,201 @@ export interface Migration {
   timestamp: number;
 }
 
+/**
+ * A database kept in persistent browser storage
+ */
+export interface StoredDatabaseInfo {
+  name: string;
+  /** Size of the stored file in bytes */
+  size: number;
+  /** When it was last saved, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * Storage that keeps database files between page loads, by name
+ */
+export interface PersistenceAdapter {
+  list(): Promise<StoredDatabaseInfo[]>;
+  /** Bytes of a stored database; null when there is none by that name */
+  load(name: string): Promise<Uint8Array | null>;
+  save(name: string, data: Uint8Array): Promise<void>;
+  remove(name: string): Promise<void>;
+}
+
+export interface PersistenceOptions {
+  adapter: PersistenceAdapter;
+  /** Save a stored database after each write (default: true) */
+  autosave?: boolean;
+  /** Milliseconds to wait for further writes before autosaving (default: 1000) */
+  autosaveDelay?: number;
+  /** Reopen the last stored database on load (default: true) */
+  reopen?: boolean;
+}
+
+/**
+ * Database operations shared by the main-thread DatabaseManager and the
+ * worker-backed WorkerDatabaseManager; callers should await every result
+ */
+export interface DatabaseBackend {
+  initialize(): Promise<void>;
+  loadDatabase(data: Uint8Array | ArrayBuffer): Promise<void>;
+  createDatabase(): void | Promise<void>;
+  executeQuery(
+    query: string,
+    params?: BindParams,
+    options?: QueryOptions
+  ): QueryResult | Promise<QueryResult>;
+  executeScript(
+    script: string,
+    options?: ScriptOptions
+  ): ScriptStatementResult[] | Promise<ScriptStatementResult[]>;
+  streamQuery(
+    query: string,
+    params?: BindParams,
+    options?: StreamOptions
+  ): AsyncGenerator<RowBatch>;
+  getSchema(): DatabaseSchema | Promise<DatabaseSchema>;
+  /** Schema of another database file, read without opening it in place of the current one */
+  readSchema(data: Uint8Array | ArrayBuffer): Promise<DatabaseSchema>;
+  getTableInfo(tableName: string, schema?: string): TableInfo | null | Promise<TableInfo | null>;
+  /** Open another database file as schema `name`, alongside the main one */
+  attachDatabase(name: string, data: Uint8Array | ArrayBuffer): void | Promise<void>;
+  detachDatabase(name: string): void | Promise<void>;
+  /** Sizes of the database and of each table and index */
+  getStatistics(): DatabaseStatistics | Promise<DatabaseStatistics>;
+  exportDatabase(options?: ExportOptions): string | Promise<string>;
+  /** Yield an export in chunks, table by table and row batch by row batch */
+  streamExport(options?: ExportStreamOptions): AsyncGenerator<ExportChunk>;
+  /** Insert rows of text fields into a table, reporting the rows that fail */
+  importRows(rows: string[][], options: ImportOptions): ImportResult | Promise<ImportResult>;
+  /** Recreate the tables and rows of a JSON export, all or nothing */
+  importJSON(
+    json: string | JsonExport,
+    options?: JsonImportOptions
+  ): JsonImportResult | Promise<JsonImportResult>;
+  /** Bytes of the main database, or of the attached database named `schema` */
+  saveDatabase(schema?: string): Uint8Array | Promise<Uint8Array>;
+  close(): void | Promise<void>;
+  isLoaded(): boolean;
+  /** Whether a query can be interrupted while it is executing */
+  canCancel(): boolean;
+  /** Start a transaction, or a savepoint when one is already open */
+  beginTransaction(): void | Promise<void>;
+  /** Commit the innermost open transaction or savepoint */
+  commit(): void | Promise<void>;
+  /** Roll back the innermost open transaction or savepoint */
+  rollback(): void | Promise<void>;
+  /** Open transaction levels: 0 when autocommitting */
+  getTransactionDepth(): number | Promise<number>;
+  /** Whether a cursor or export is being read; saving the database would close it */
+  hasOpenStreams(): boolean | Promise<boolean>;
+  /** Whether TEMP tables, views, indexes or triggers exist; saving the database drops them */
+  hasTempObjects(): boolean | Promise<boolean>;
+}
+
+/**
+ * Operations available inside a transaction callback
+ */
+export interface TransactionScope {
+  executeQuery: (
+    query: string,
+    params?: BindParams,
+    options?: QueryOptions
+  ) => Promise<QueryResult>;
+  executeScript: (script: string, options?: ScriptOptions) => Promise<ScriptStatementResult[]>;
+  /** Run a nested transaction as a savepoint */
+  transaction: <T>(fn: (tx: TransactionScope) => T | Promise<T>) => Promise<T>;
+}
+
 export interface SQLiteContextValue {
+  /** sql.js Database instance; always null when running in a worker */
   db: Database | null;
+  isLoaded: boolean;
+  isInitialized: boolean;
+  initError: string | null;
   isLoading: boolean;
   error: string | null;
+  /** Whether cancelQuery can stop a query mid-execution (worker mode only) */
+  canCancel: boolean;
   loadDatabase: (data: Uint8Array | ArrayBuffer) => Promise<void>;
-  createDatabase: () => void;
-  executeQuery: (query: string) => Promise<QueryResult>;
+  createDatabase: () => Promise<void>;
+  executeQuery: (
+    query: string,
+    params?: BindParams,
+    options?: QueryOptions
+  ) => Promise<QueryResult>;
+  executeScript: (script: string, options?: ScriptOptions) => Promise<ScriptStatementResult[]>;
+  /** Run a single query and yield its rows in batches instead of all at once */
+  streamQuery: (
+    query: string,
+    params?: BindParams,
+    options?: StreamOptions
+  ) => AsyncGenerator<RowBatch>;
+  /** Stop every query currently running through the context */
+  cancelQuery: () => void;
+  /** Open transaction levels: 0 when autocommitting, more than 1 with savepoints */
+  transactionDepth: number;
+  beginTransaction: () => Promise<void>;
+  commit: () => Promise<void>;
+  rollback: () => Promise<void>;
+  /**
+   * Run `fn` in a transaction (a savepoint when one is open); commits when it
+   * resolves and rolls back when it throws
+   */
+  transaction: <T>(fn: (tx: TransactionScope) => T | Promise<T>) => Promise<T>;
+  /** Schema as of the last load or schema-changing statement */
   getSchema: () => DatabaseSchema;
-  getTableInfo: (tableName: string) => TableInfo | null;
-  exportDatabase: (options?: ExportOptions) => string;
-  saveDatabase: () => Uint8Array;
+  /** Schema of a database file, read without opening it; no database needs to be loaded */
+  readSchema: (data: Uint8Array | ArrayBuffer) => Promise<DatabaseSchema>;
+  /** Schema of a database in persistent storage, read without opening it */
+  readStoredSchema: (name: string) => Promise<DatabaseSchema>;
+  /** Cached info for a table of the main database, or of the attached one named `schema` */
+  getTableInfo: (tableName: string, schema?: string) => TableInfo | null;
+  /** Open another database file as schema `name`; its tables are queried as name.table */
+  attachDatabase: (name: string, data: Uint8Array | ArrayBuffer) => Promise<void>;
+  detachDatabase: (name: string) => Promise<void>;
+  refreshSchema: () => Promise<void>;
+  /** Read sizes of the database and of each table and index */
+  getStatistics: () => Promise<DatabaseStatistics>;
+  /** Rows inserted, deleted and modified between two tables, usually one in an attached copy */
+  diffTableData: (options: TableDataDiffOptions) => Promise<TableDataDiff>;
+  /** Row differences of every table two databases both have */
+  diffDatabaseData: (options?: DataDiffOptions) => Promise<TableDataDiff[]>;
+  exportDatabase: (options?: ExportOptions) => Promise<string>;
+  /**
+   * Export the database into a Blob built from chunks, without holding the whole
+   * export as one string
+   */
+  exportToBlob: (options?: ExportFileOptions) => Promise<Blob>;
+  /** Write an export chunk by chunk to a stream, such as a file picked to save to */
+  exportToStream: (
+    stream: WritableStream<string | Uint8Array>,
+    options?: ExportFileOptions
+  ) => Promise<void>;
+  /** Insert rows of text fields, such as parsed CSV, into a new or existing table */
+  importRows: (rows: string[][], options: ImportOptions) => Promise<ImportResult>;
+  /**
+   * Run a SQL dump, such as an exported .sql file or the output of sqlite3's .dump,
+   * into a new empty database that replaces the open one
+   */
+  loadSQLDump: (script: string, options?: SqlDumpOptions) => Promise<SqlDumpResult>;
+  /** Load a file written by exportDatabase({ format: 'json' }) back in */
+  importJSON: (json: string | JsonExport, options?: JsonImportOptions) => Promise<JsonImportResult>;
+  /** Bytes of the main database, or of the attached database named `schema` */
+  saveDatabase: (schema?: string) => Promise<Uint8Array>;
   closeDatabase: () => void;
+  /** Whether the provider was given persistent storage for this connection */
+  canPersist: boolean;
+  /** Databases in persistent storage */
+  storedDatabases: StoredDatabaseInfo[];
+  /** Name the open database is stored and autosaved under; null when it is not stored */
+  storedDatabaseName: string | null;
+  /** Store the open database, under its stored name unless another is given, and autosave it */
+  storeDatabase: (name?: string) => Promise<void>;
+  /** Open a stored database in place of the current one */
+  openStoredDatabase: (name: string) => Promise<void>;
+  deleteStoredDatabase: (name: string) => Promise<void>;
   queryHistory: QueryHistoryItem[];
   addToHistory: (item: Omit<QueryHistoryItem, 'id' | 'timestamp'>) => void;
   clearHistory: () => void;
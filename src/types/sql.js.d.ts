@@ -1,15 +1,18 @@
 declare module 'sql.js' {
   export interface Database {
-    exec(sql: string, options?: any): any[];
-    prepare(sql: string): Statement;
+    exec(sql: string, params?: any): any[];
+    prepare(sql: string, params?: any): Statement;
     run(sql: string, params?: any): void;
+    getRowsModified(): number;
     export(): Uint8Array;
     close(): void;
   }
 
   export interface Statement {
+    bind(params?: any): boolean;
     step(): boolean;
     get(): any[];
+    run(params?: any): void;
     getColumnNames(): string[];
     free(): void;
   }
@@ -20,6 +23,7 @@ declare module 'sql.js' {
 
   export interface InitSqlJsConfig {
     locateFile?: (file: string) => string;
+    wasmBinary?: ArrayBuffer | Uint8Array;
   }
 
   function initSqlJs(config?: InitSqlJsConfig): Promise<SqlJsStatic>;